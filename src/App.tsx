@@ -7,6 +7,8 @@ import Index from "./pages/Index";
 import CustomerDashboard from "./pages/CustomerDashboard";
 import AdminLogin from "./pages/AdminLogin";
 import AdminDashboard from "./pages/AdminDashboard";
+import ResellerLogin from "./pages/ResellerLogin";
+import ResellerPortal from "./pages/ResellerPortal";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,6 +24,8 @@ const App = () => (
           <Route path="/dashboard" element={<CustomerDashboard />} />
           <Route path="/admin/login" element={<AdminLogin />} />
           <Route path="/admin" element={<AdminDashboard />} />
+          <Route path="/reseller/login" element={<ResellerLogin />} />
+          <Route path="/reseller" element={<ResellerPortal />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,131 @@
+// ============================================
+// ACCOUNT STATUS DIALOG
+// Moves a Netflix account through its lifecycle (active, needs attention,
+// billing failed, locked, retired) with the reason for the change
+// ============================================
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { ACCOUNT_STATUSES, type AccountStatus } from "@/lib/accountStatus";
+import { toast } from "sonner";
+
+interface AccountStatusDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: { id: string; netflix_email: string | null; phone_number: string | null; status: string; status_reason: string | null } | null;
+  onChange?: () => void;
+}
+
+const AccountStatusDialog = ({ open, onOpenChange, account, onChange }: AccountStatusDialogProps) => {
+  const [status, setStatus] = useState<string>("active");
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const accountLabel = account?.netflix_email || account?.phone_number;
+
+  useEffect(() => {
+    if (open && account) {
+      setStatus(account.status);
+      setReason(account.status_reason || "");
+    }
+  }, [open, account]);
+
+  const handleSave = async () => {
+    if (!account) return;
+
+    if (status !== "active" && !reason.trim()) {
+      toast.error("Add a reason so others know what happened");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("netflix_accounts")
+        .update({ status, status_reason: status === "active" ? null : reason.trim() })
+        .eq("id", account.id);
+
+      if (error) throw error;
+
+      toast.success(`Account marked as ${ACCOUNT_STATUSES[status as AccountStatus].label.toLowerCase()}`);
+      onOpenChange(false);
+      onChange?.();
+    } catch (error) {
+      console.error("Error updating account status:", error);
+      toast.error("Failed to update account status");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">Account Status</DialogTitle>
+          <DialogDescription>
+            {accountLabel}: only active accounts receive new customers
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="bg-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACCOUNT_STATUSES) as AccountStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {ACCOUNT_STATUSES[value].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {status !== "active" && (
+            <div className="space-y-2">
+              <Label htmlFor="status_reason">Reason</Label>
+              <Input
+                id="status_reason"
+                placeholder="e.g., Password changed by someone else"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="bg-input"
+              />
+            </div>
+          )}
+          {status === "retired" && (
+            <p className="text-xs text-muted-foreground">
+              Customers stay on a retired account until you move them with Replace Account.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="netflix" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Status"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountStatusDialog;
@@ -0,0 +1,350 @@
+// ============================================
+// BILLING TAB COMPONENT
+// Calendar of upcoming Netflix account renewals with their cost, who pays
+// them and which customers still need the account afterwards, plus the
+// payment methods on file
+// ============================================
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import {
+  CARD_EXPIRY_ALERT_DAYS,
+  formatPaymentMethod,
+  getCardExpiryEnd,
+  getRenewalsBetween,
+  PAYMENT_METHOD_TYPES,
+  type PaymentMethod,
+} from "@/lib/billing";
+import { toast } from "sonner";
+import { Plus, Edit, Trash2, CalendarDays, Wallet } from "lucide-react";
+import { addDays, differenceInDays, format, isSameDay, parseISO, startOfDay } from "date-fns";
+import PaymentMethodDialog from "./PaymentMethodDialog";
+
+const UPCOMING_DAYS = 30;
+
+interface PaymentMethodRow extends PaymentMethod {
+  notes: string | null;
+}
+
+interface BillingAccount {
+  id: string;
+  netflix_email: string | null;
+  phone_number: string | null;
+  billing_day: number | null;
+  paid_through: string | null;
+  monthly_cost: number | null;
+  payment_methods: PaymentMethod | null;
+}
+
+interface Renewal {
+  key: string;
+  date: Date;
+  account: BillingAccount;
+  customersAfter: number; // Active customers whose subscription runs past this renewal
+}
+
+const BillingTab = () => {
+  const [accounts, setAccounts] = useState<BillingAccount[]>([]);
+  const [customerExpiries, setCustomerExpiries] = useState<Record<string, Date[]>>({});
+  const [methods, setMethods] = useState<PaymentMethodRow[]>([]);
+  const [methodUsage, setMethodUsage] = useState<Record<string, number>>({});
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMethodDialogOpen, setIsMethodDialogOpen] = useState(false);
+  const [editingMethod, setEditingMethod] = useState<PaymentMethodRow | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [accountsResult, customersResult, methodsResult] = await Promise.all([
+        supabase
+          .from("netflix_accounts")
+          .select("id, netflix_email, phone_number, billing_day, paid_through, monthly_cost, payment_method_id, payment_methods(id, label, method_type, card_last4, card_expiry)")
+          .neq("status", "retired")
+          .order("created_at"),
+        supabase
+          .from("customers")
+          .select("netflix_account_id, purchase_date, subscription_days")
+          .eq("is_active", true)
+          .not("netflix_account_id", "is", null),
+        supabase
+          .from("payment_methods")
+          .select("id, label, method_type, card_last4, card_expiry, notes")
+          .order("label"),
+      ]);
+
+      if (accountsResult.error) throw accountsResult.error;
+      if (customersResult.error) throw customersResult.error;
+      if (methodsResult.error) throw methodsResult.error;
+
+      const expiries: Record<string, Date[]> = {};
+      for (const customer of customersResult.data || []) {
+        if (!customer.netflix_account_id) continue;
+        (expiries[customer.netflix_account_id] ||= []).push(
+          addDays(parseISO(customer.purchase_date), customer.subscription_days)
+        );
+      }
+
+      const usage: Record<string, number> = {};
+      for (const account of accountsResult.data || []) {
+        if (account.payment_method_id) usage[account.payment_method_id] = (usage[account.payment_method_id] || 0) + 1;
+      }
+
+      setAccounts(accountsResult.data || []);
+      setCustomerExpiries(expiries);
+      setMethods(methodsResult.data || []);
+      setMethodUsage(usage);
+    } catch (error) {
+      console.error("Error fetching billing data:", error);
+      toast.error("Failed to load billing");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const today = startOfDay(new Date());
+
+  const renewals = useMemo(() => {
+    const start = startOfDay(new Date());
+    const end = addDays(start, UPCOMING_DAYS);
+    const rows: Renewal[] = [];
+    for (const account of accounts) {
+      for (const date of getRenewalsBetween(account, start, end)) {
+        rows.push({
+          key: `${account.id}-${date.toISOString()}`,
+          date,
+          account,
+          customersAfter: (customerExpiries[account.id] || []).filter((expiry) => expiry > date).length,
+        });
+      }
+    }
+    return rows.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }, [accounts, customerExpiries]);
+
+  const shownRenewals = selectedDay ? renewals.filter((renewal) => isSameDay(renewal.date, selectedDay)) : renewals;
+  const upcomingCost = shownRenewals.reduce((sum, renewal) => sum + (renewal.account.monthly_cost || 0), 0);
+  const unscheduled = accounts.filter((account) => !account.billing_day).length;
+
+  const handleDeleteMethod = async (method: PaymentMethodRow) => {
+    const usedBy = methodUsage[method.id] || 0;
+    const warning = usedBy > 0 ? ` ${usedBy} account${usedBy !== 1 ? "s" : ""} will be left without a payment method.` : "";
+    if (!confirm(`Delete ${method.label}?${warning}`)) return;
+
+    try {
+      const { error } = await supabase.from("payment_methods").delete().eq("id", method.id);
+
+      if (error) throw error;
+      toast.success("Payment method deleted");
+      fetchData();
+    } catch (error) {
+      console.error("Error deleting payment method:", error);
+      toast.error("Failed to delete payment method");
+    }
+  };
+
+  const getCardBadge = (method: PaymentMethod, before: Date) => {
+    const expiryEnd = getCardExpiryEnd(method);
+    if (!expiryEnd || expiryEnd >= before) return null;
+    return <Badge variant="destructive">{expiryEnd < today ? "Card expired" : "Card expires first"}</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-3xl tracking-wide text-foreground">Billing</h2>
+        <p className="text-muted-foreground mt-1">Upcoming Netflix account renewals and the payment methods behind them</p>
+      </div>
+
+      <div className="grid lg:grid-cols-[auto_1fr] gap-6">
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle className="font-display text-xl tracking-wide flex items-center gap-2">
+              <CalendarDays className="w-5 h-5 text-primary" />
+              Renewal Calendar
+            </CardTitle>
+            <CardDescription>Highlighted days have a renewal; click one to filter</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Calendar
+              mode="single"
+              selected={selectedDay}
+              onSelect={setSelectedDay}
+              fromDate={today}
+              toDate={addDays(today, UPCOMING_DAYS)}
+              modifiers={{ renewal: renewals.map((renewal) => renewal.date) }}
+              modifiersClassNames={{ renewal: "bg-primary/20 text-primary font-semibold" }}
+            />
+            {unscheduled > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {unscheduled} account{unscheduled !== 1 ? "s have" : " has"} no billing day set
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle className="font-display text-xl tracking-wide">
+              {selectedDay ? `Renewals on ${format(selectedDay, "dd MMM yyyy")}` : `Next ${UPCOMING_DAYS} Days`}
+            </CardTitle>
+            <CardDescription>
+              {shownRenewals.length} renewal{shownRenewals.length !== 1 ? "s" : ""} · {formatCurrency(upcomingCost)}
+              {selectedDay && (
+                <Button variant="link" size="sm" className="h-auto p-0 ml-2" onClick={() => setSelectedDay(undefined)}>
+                  Show all
+                </Button>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading...</div>
+            ) : shownRenewals.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">No renewals in this period.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border">
+                    <TableHead>Date</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead>Cost</TableHead>
+                    <TableHead>Paid With</TableHead>
+                    <TableHead>Customers After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shownRenewals.map((renewal) => {
+                    const method = renewal.account.payment_methods;
+                    const daysLeft = differenceInDays(renewal.date, today);
+
+                    return (
+                      <TableRow key={renewal.key} className="border-border">
+                        <TableCell>
+                          <p>{format(renewal.date, "dd MMM")}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {daysLeft === 0 ? "Today" : `In ${daysLeft} day${daysLeft !== 1 ? "s" : ""}`}
+                          </p>
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {renewal.account.netflix_email || renewal.account.phone_number}
+                        </TableCell>
+                        <TableCell>
+                          {renewal.account.monthly_cost !== null ? formatCurrency(renewal.account.monthly_cost) : "—"}
+                        </TableCell>
+                        <TableCell>
+                          {method ? (
+                            <div className="space-y-1">
+                              <p className="text-sm">{formatPaymentMethod(method)}</p>
+                              {getCardBadge(method, renewal.date)}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">Not set</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {renewal.customersAfter > 0 ? (
+                            <Badge variant="outline" className="text-warning border-warning/50">
+                              {renewal.customersAfter} still active
+                            </Badge>
+                          ) : (
+                            <span className="text-muted-foreground">None, can lapse</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="glass">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="font-display text-xl tracking-wide flex items-center gap-2">
+              <Wallet className="w-5 h-5 text-primary" />
+              Payment Methods
+            </CardTitle>
+            <CardDescription>
+              Cards expiring within {CARD_EXPIRY_ALERT_DAYS} days show up in notifications
+            </CardDescription>
+          </div>
+          <Button variant="netflix" onClick={() => { setEditingMethod(null); setIsMethodDialogOpen(true); }}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Method
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          {methods.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No payment methods yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border">
+                  <TableHead>Method</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Accounts</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {methods.map((method) => {
+                  const expiryEnd = getCardExpiryEnd(method);
+                  const expiresSoon = expiryEnd && differenceInDays(expiryEnd, today) <= CARD_EXPIRY_ALERT_DAYS;
+
+                  return (
+                    <TableRow key={method.id} className="border-border">
+                      <TableCell>
+                        <p className="font-medium">{method.label}</p>
+                        {method.card_last4 && <p className="text-xs text-muted-foreground">•••• {method.card_last4}</p>}
+                        {method.notes && <p className="text-xs text-muted-foreground">{method.notes}</p>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {PAYMENT_METHOD_TYPES[method.method_type] || method.method_type}
+                      </TableCell>
+                      <TableCell className={expiresSoon ? "text-destructive" : "text-muted-foreground"}>
+                        {expiryEnd ? format(expiryEnd, "MMM yyyy") : "—"}
+                      </TableCell>
+                      <TableCell>{methodUsage[method.id] || 0}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="icon" onClick={() => { setEditingMethod(method); setIsMethodDialogOpen(true); }}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDeleteMethod(method)}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PaymentMethodDialog
+        open={isMethodDialogOpen}
+        onOpenChange={setIsMethodDialogOpen}
+        method={editingMethod}
+        onChange={fetchData}
+      />
+    </div>
+  );
+};
+
+export default BillingTab;
@@ -0,0 +1,255 @@
+// ============================================
+// BUSINESS SETTINGS TAB COMPONENT
+// Seller details and tax settings printed on customer invoices
+// ============================================
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Save } from "lucide-react";
+
+const EMPTY_FORM = {
+  business_name: "",
+  address: "",
+  phone: "",
+  email: "",
+  tax_id: "",
+  tax_label: "GST",
+  tax_rate: "0",
+  invoice_prefix: "INV-",
+  invoice_footer: "",
+};
+
+const BusinessSettingsTab = () => {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [nextInvoiceNumber, setNextInvoiceNumber] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("business_settings")
+        .select("*")
+        .single();
+
+      if (error) throw error;
+
+      setFormData({
+        business_name: data.business_name,
+        address: data.address || "",
+        phone: data.phone || "",
+        email: data.email || "",
+        tax_id: data.tax_id || "",
+        tax_label: data.tax_label,
+        tax_rate: data.tax_rate.toString(),
+        invoice_prefix: data.invoice_prefix,
+        invoice_footer: data.invoice_footer || "",
+      });
+      setNextInvoiceNumber(data.next_invoice_number);
+    } catch (error) {
+      console.error("Error fetching business settings:", error);
+      toast.error("Failed to load business settings");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.business_name.trim()) {
+      toast.error("Business name is required");
+      return;
+    }
+
+    const taxRate = parseFloat(formData.tax_rate) || 0;
+    if (taxRate < 0 || taxRate > 100) {
+      toast.error("Tax rate must be between 0 and 100");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("business_settings")
+        .update({
+          business_name: formData.business_name.trim(),
+          address: formData.address.trim() || null,
+          phone: formData.phone.trim() || null,
+          email: formData.email.trim() || null,
+          tax_id: formData.tax_id.trim() || null,
+          tax_label: formData.tax_label.trim() || "GST",
+          tax_rate: taxRate,
+          invoice_prefix: formData.invoice_prefix.trim(),
+          invoice_footer: formData.invoice_footer.trim() || null,
+        })
+        .eq("id", true);
+
+      if (error) throw error;
+      toast.success("Business settings saved");
+      fetchSettings();
+    } catch (error) {
+      console.error("Error saving business settings:", error);
+      toast.error("Failed to save business settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-3xl tracking-wide text-foreground">Business</h2>
+        <p className="text-muted-foreground mt-1">Details printed on customer invoices</p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading...</div>
+      ) : (
+        <form onSubmit={handleSubmit} className="grid lg:grid-cols-2 gap-6">
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="font-display text-xl tracking-wide">Seller Details</CardTitle>
+              <CardDescription>Shown at the top of every invoice</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="business_name">Business Name</Label>
+                <Input
+                  id="business_name"
+                  value={formData.business_name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, business_name: e.target.value }))}
+                  className="bg-input"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="address">Address</Label>
+                <Textarea
+                  id="address"
+                  rows={3}
+                  value={formData.address}
+                  onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
+                  className="bg-input"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="phone">Phone</Label>
+                  <Input
+                    id="phone"
+                    value={formData.phone}
+                    onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="font-display text-xl tracking-wide">Invoicing & Tax</CardTitle>
+              <CardDescription>
+                Applies to invoices issued from now on; issued invoices keep their numbers and amounts
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invoice_prefix">Invoice Prefix</Label>
+                  <Input
+                    id="invoice_prefix"
+                    value={formData.invoice_prefix}
+                    onChange={(e) => setFormData(prev => ({ ...prev, invoice_prefix: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Next Invoice</Label>
+                  <div className="bg-input px-3 py-2 rounded-md text-sm font-mono">
+                    {formData.invoice_prefix}{String(nextInvoiceNumber ?? 1).padStart(5, "0")}
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax_id">GSTIN / Tax ID (Optional)</Label>
+                <Input
+                  id="tax_id"
+                  value={formData.tax_id}
+                  onChange={(e) => setFormData(prev => ({ ...prev, tax_id: e.target.value }))}
+                  className="bg-input"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tax_label">Tax Name</Label>
+                  <Input
+                    id="tax_label"
+                    value={formData.tax_label}
+                    onChange={(e) => setFormData(prev => ({ ...prev, tax_label: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tax_rate">Tax Rate (%)</Label>
+                  <Input
+                    id="tax_rate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.tax_rate}
+                    onChange={(e) => setFormData(prev => ({ ...prev, tax_rate: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Selling prices include tax; a rate of 0 leaves the tax line off invoices.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="invoice_footer">Footer Note (Optional)</Label>
+                <Input
+                  id="invoice_footer"
+                  placeholder="Thank you for your business."
+                  value={formData.invoice_footer}
+                  onChange={(e) => setFormData(prev => ({ ...prev, invoice_footer: e.target.value }))}
+                  className="bg-input"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2 flex justify-end">
+            <Button type="submit" variant="netflix" disabled={isSaving}>
+              <Save className="w-4 h-4 mr-2" />
+              {isSaving ? "Saving..." : "Save Settings"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default BusinessSettingsTab;
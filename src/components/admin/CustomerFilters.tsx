@@ -14,6 +14,8 @@ interface CustomerFiltersProps {
   onStatusFilterChange: (value: string) => void;
   profileFilter: string;
   onProfileFilterChange: (value: string) => void;
+  paymentFilter: string;
+  onPaymentFilterChange: (value: string) => void;
 }
 
 const CustomerFilters = ({
@@ -23,6 +25,8 @@ const CustomerFilters = ({
   onStatusFilterChange,
   profileFilter,
   onProfileFilterChange,
+  paymentFilter,
+  onPaymentFilterChange,
 }: CustomerFiltersProps) => {
   return (
     <div className="flex flex-col sm:flex-row gap-4 mb-6">
@@ -67,6 +71,19 @@ const CustomerFilters = ({
             <SelectItem value="none">No Profile</SelectItem>
           </SelectContent>
         </Select>
+
+        {/* Payment Status Filter */}
+        <Select value={paymentFilter} onValueChange={onPaymentFilterChange}>
+          <SelectTrigger className="w-[140px] bg-input">
+            <SelectValue placeholder="Payment" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Payments</SelectItem>
+            <SelectItem value="paid">Paid</SelectItem>
+            <SelectItem value="partial">Partial</SelectItem>
+            <SelectItem value="unpaid">Unpaid</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
     </div>
   );
@@ -0,0 +1,124 @@
+// ============================================
+// CUSTOMER INVOICES DIALOG
+// Invoices issued for a customer's purchases and renewals, each
+// downloadable as a PDF rebuilt from the stored invoice
+// ============================================
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import { downloadInvoicePdf, type BusinessDetails, type InvoiceData } from "@/lib/invoicePdf";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+import { format } from "date-fns";
+
+interface Invoice extends InvoiceData {
+  id: string;
+}
+
+interface CustomerInvoicesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: { id: string; name: string } | null;
+}
+
+const CustomerInvoicesDialog = ({ open, onOpenChange, customer }: CustomerInvoicesDialogProps) => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [business, setBusiness] = useState<BusinessDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchInvoices = useCallback(async () => {
+    if (!customer) return;
+
+    setIsLoading(true);
+    try {
+      const [invoicesResult, settingsResult] = await Promise.all([
+        supabase
+          .from("invoices")
+          .select("*")
+          .eq("customer_id", customer.id)
+          .order("issued_on", { ascending: false }),
+        supabase
+          .from("business_settings")
+          .select("business_name, address, phone, email, tax_id, invoice_footer")
+          .single(),
+      ]);
+
+      if (invoicesResult.error) throw invoicesResult.error;
+      if (settingsResult.error) throw settingsResult.error;
+
+      setInvoices(invoicesResult.data || []);
+      setBusiness(settingsResult.data);
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      toast.error("Failed to load invoices");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    if (open) fetchInvoices();
+  }, [open, fetchInvoices]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">
+            Invoices
+          </DialogTitle>
+          <DialogDescription>
+            {customer?.name}: one invoice per paid purchase or renewal
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : invoices.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No invoices yet. They are issued for purchases and renewals with a price.
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            <div className="space-y-2 pr-3">
+              {invoices.map((invoice) => (
+                <div key={invoice.id} className="bg-muted/30 rounded-lg p-3 border border-border/50 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm">
+                      <code>{invoice.invoice_number}</code>
+                      <span className="text-muted-foreground font-normal"> · {invoice.plan_name || `${invoice.period_days} days`}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(invoice.issued_on), "MMM d, yyyy")} · {formatCurrency(invoice.total)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Download PDF"
+                    disabled={!business}
+                    onClick={() => business && downloadInvoicePdf(invoice, business)}
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerInvoicesDialog;
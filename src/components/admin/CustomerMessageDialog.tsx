@@ -23,9 +23,10 @@ interface CustomerMessageData {
   netflixPassword: string;
   profileNumber: number | null;
   subscriptionDays: number;
+  planName: string | null;
   purchaseDate: string;
   accessCode: string;
-  purchasedFrom: string | null;
+  signature: string | null; // Reseller's message signature, or null for direct sales
 }
 
 interface CustomerMessageDialogProps {
@@ -38,7 +39,8 @@ interface CustomerMessageDialogProps {
 const generateMessage = (data: CustomerMessageData): string => {
   const purchaseDate = format(new Date(data.purchaseDate), "dd MMM yyyy");
   const expiryDate = format(addDays(new Date(data.purchaseDate), data.subscriptionDays), "dd MMM yyyy");
-  const resellerName = data.purchasedFrom || "NETCODE";
+  const resellerName = data.signature || "NETCODE";
+  const planName = data.planName || `${data.subscriptionDays} Days`;
   
   return `🎬 NETCODE – Netflix Access Active ✅
 
@@ -49,6 +51,8 @@ Your Netflix access is now active. Enjoy seamless streaming 🍿
 
 📅 Subscription Details
 
+Plan: ${planName}
+
 Purchase Date: ${purchaseDate}
 
 Expiry Date: ${expiryDate}
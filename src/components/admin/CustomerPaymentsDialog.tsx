@@ -0,0 +1,332 @@
+// ============================================
+// CUSTOMER PAYMENTS DIALOG
+// What a customer owes for each subscription period against the payments
+// recorded for it, and a form to record new payments
+// ============================================
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency, getPaymentStatus, settlePeriods, type PaymentStatus } from "@/lib/utils";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface BillablePeriod {
+  id: string;
+  start_date: string;
+  days: number;
+  price: number | null;
+  source: string; // new | renewal | extension | compensation
+}
+
+interface Payment {
+  id: string;
+  subscription_period_id: string | null;
+  amount: number;
+  method: string; // upi | bank_transfer | cash | card | wallet | other
+  reference: string | null;
+  paid_on: string;
+  note: string | null;
+}
+
+interface CustomerPaymentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: { id: string; name: string } | null;
+  onChange?: () => void;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  upi: "UPI",
+  bank_transfer: "Bank Transfer",
+  cash: "Cash",
+  card: "Card",
+  wallet: "Reseller Wallet",
+  other: "Other",
+};
+
+const STATUS_BADGES: Record<PaymentStatus, { label: string; variant: "default" | "outline" | "destructive" }> = {
+  paid: { label: "Paid", variant: "default" },
+  partial: { label: "Partial", variant: "outline" },
+  unpaid: { label: "Unpaid", variant: "destructive" },
+};
+
+const sumPayments = (payments: Payment[]) => payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+const CustomerPaymentsDialog = ({ open, onOpenChange, customer, onChange }: CustomerPaymentsDialogProps) => {
+  const [periods, setPeriods] = useState<BillablePeriod[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [paymentForm, setPaymentForm] = useState({
+    period_id: "",
+    amount: "",
+    method: "upi",
+    reference: "",
+    paid_on: format(new Date(), "yyyy-MM-dd"),
+  });
+
+  const fetchPayments = useCallback(async () => {
+    if (!customer) return;
+
+    setIsLoading(true);
+    try {
+      const [periodsResult, paymentsResult] = await Promise.all([
+        supabase
+          .from("subscription_periods")
+          .select("id, start_date, days, price, source")
+          .eq("customer_id", customer.id)
+          .order("start_date", { ascending: true })
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("payments")
+          .select("id, subscription_period_id, amount, method, reference, paid_on, note")
+          .eq("customer_id", customer.id)
+          .order("paid_on", { ascending: false }),
+      ]);
+
+      if (periodsResult.error) throw periodsResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+
+      const periodData = periodsResult.data || [];
+      const paymentData = paymentsResult.data || [];
+      setPeriods(periodData);
+      setPayments(paymentData);
+
+      // Default to the oldest period that still has something outstanding
+      const settled = settlePeriods(periodData, sumPayments(paymentData));
+      const openIndex = periodData.findIndex((period, index) => (period.price || 0) > settled[index]);
+      const openPeriod = periodData[openIndex];
+      setPaymentForm({
+        period_id: openPeriod?.id || periodData[periodData.length - 1]?.id || "",
+        amount: openPeriod ? String((openPeriod.price || 0) - settled[openIndex]) : "",
+        method: "upi",
+        reference: "",
+        paid_on: format(new Date(), "yyyy-MM-dd"),
+      });
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      toast.error("Failed to load payments");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    if (open) fetchPayments();
+  }, [open, fetchPayments]);
+
+  const addPayment = async () => {
+    if (!customer) return;
+
+    const amount = parseFloat(paymentForm.amount);
+    if (!amount || amount <= 0) {
+      toast.error("Enter an amount greater than zero");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("payments")
+        .insert({
+          customer_id: customer.id,
+          subscription_period_id: paymentForm.period_id || null,
+          amount,
+          method: paymentForm.method,
+          reference: paymentForm.reference.trim() || null,
+          paid_on: paymentForm.paid_on,
+        });
+
+      if (error) throw error;
+
+      toast.success(`Payment of ${formatCurrency(amount)} recorded`);
+      fetchPayments();
+      onChange?.();
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      toast.error("Failed to record payment (is the reference already used?)");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePayment = async (payment: Payment) => {
+    if (!confirm(`Remove the payment of ${formatCurrency(payment.amount)}?`)) return;
+
+    try {
+      const { error } = await supabase.from("payments").delete().eq("id", payment.id);
+
+      if (error) throw error;
+
+      toast.success("Payment removed");
+      fetchPayments();
+      onChange?.();
+    } catch (error) {
+      console.error("Error deleting payment:", error);
+      toast.error("Failed to remove payment");
+    }
+  };
+
+  const totalDue = periods.reduce((sum, period) => sum + (period.price || 0), 0);
+  const totalPaid = sumPayments(payments);
+  const settled = settlePeriods(periods, totalPaid);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">
+            Payments
+          </DialogTitle>
+          <DialogDescription>
+            {customer?.name}: {formatCurrency(totalPaid)} paid of {formatCurrency(totalDue)}
+            {totalDue > totalPaid && `, ${formatCurrency(totalDue - totalPaid)} outstanding`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <ScrollArea className="max-h-[320px]">
+            <div className="space-y-4 pr-3">
+              {/* Periods */}
+              <div className="space-y-2">
+                {periods.map((period, index) => {
+                  const due = period.price || 0;
+                  const paid = settled[index];
+                  const badge = STATUS_BADGES[getPaymentStatus(due, paid)];
+                  return (
+                    <div key={period.id} className="bg-muted/30 rounded-lg p-3 border border-border/50 flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-sm capitalize">
+                          {period.source} · {format(new Date(period.start_date), "MMM d, yyyy")}
+                          <span className="text-muted-foreground font-normal"> · {period.days} days</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(paid)} paid of {formatCurrency(due)}
+                        </p>
+                      </div>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Payments */}
+              {payments.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-muted-foreground">Recorded payments</p>
+                  {payments.map((payment) => (
+                    <div key={payment.id} className="rounded-lg p-3 border border-border/50 flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-sm">
+                          {formatCurrency(payment.amount)}
+                          <span className="text-muted-foreground font-normal"> · {METHOD_LABELS[payment.method] || payment.method}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(payment.paid_on), "MMM d, yyyy")}
+                          {payment.reference && <> · <code>{payment.reference}</code></>}
+                          {payment.note && ` · ${payment.note}`}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => deletePayment(payment)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        {/* Record Payment */}
+        <div className="border-t border-border pt-4 space-y-3">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <div className="space-y-2 col-span-2 sm:col-span-1">
+              <Label>For Period</Label>
+              <Select value={paymentForm.period_id} onValueChange={(value) => setPaymentForm(prev => ({ ...prev, period_id: value }))}>
+                <SelectTrigger className="bg-input">
+                  <SelectValue placeholder="Select a period" />
+                </SelectTrigger>
+                <SelectContent>
+                  {periods.map((period) => (
+                    <SelectItem key={period.id} value={period.id}>
+                      {format(new Date(period.start_date), "MMM d, yyyy")} ({period.source})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment_amount">Amount</Label>
+              <Input
+                id="payment_amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={paymentForm.amount}
+                onChange={(e) => setPaymentForm(prev => ({ ...prev, amount: e.target.value }))}
+                className="bg-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment_date">Date</Label>
+              <Input
+                id="payment_date"
+                type="date"
+                value={paymentForm.paid_on}
+                onChange={(e) => setPaymentForm(prev => ({ ...prev, paid_on: e.target.value }))}
+                className="bg-input"
+              />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <Select value={paymentForm.method} onValueChange={(value) => setPaymentForm(prev => ({ ...prev, method: value }))}>
+              <SelectTrigger className="bg-input w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {/* Wallet payments are only posted by reseller wallet debits */}
+                {Object.entries(METHOD_LABELS).filter(([value]) => value !== "wallet").map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Reference (e.g. UPI transaction ID)"
+              value={paymentForm.reference}
+              onChange={(e) => setPaymentForm(prev => ({ ...prev, reference: e.target.value }))}
+              className="bg-input"
+            />
+            <Button variant="netflix" onClick={addPayment} disabled={isSaving || !customer}>
+              <Plus className="w-4 h-4 mr-2" />
+              {isSaving ? "Saving..." : "Record"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerPaymentsDialog;
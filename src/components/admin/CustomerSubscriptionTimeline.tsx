@@ -0,0 +1,470 @@
+// ============================================
+// CUSTOMER SUBSCRIPTION TIMELINE DIALOG
+// Shows every subscription period (purchase, renewals, extensions,
+// compensation) and lets admins add, correct or remove periods. The customer's
+// purchase date, duration and total price are recomputed from these by trigger.
+// Renewals on a plan charge a reseller customer's wallet at its wholesale price.
+// ============================================
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import { formatPromoValue, isPromoAvailable, type PromoCode } from "@/lib/promoCodes";
+import { toast } from "sonner";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { format, max } from "date-fns";
+
+interface SubscriptionPeriod {
+  id: string;
+  start_date: string;
+  end_date: string | null;
+  days: number;
+  price: number | null;
+  source: string; // new | renewal | extension | compensation
+  note: string | null;
+  discount_amount: number;
+  promo_codes: { code: string } | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface Plan {
+  id: string;
+  name: string;
+  days: number;
+  price: number | null;
+  wholesale_price: number | null;
+}
+
+interface CustomerSubscriptionTimelineProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: { id: string; name: string; reseller_id: string | null } | null;
+  onChange?: () => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  new: "New",
+  renewal: "Renewal",
+  extension: "Extension",
+  compensation: "Compensation",
+};
+
+const EMPTY_PERIOD_FORM = {
+  source: "renewal",
+  plan_id: "custom",
+  start_date: "",
+  days: "30",
+  price: "",
+  note: "",
+  promo_code_id: "none",
+  allow_wallet_overdraft: false,
+};
+
+const CustomerSubscriptionTimeline = ({ open, onOpenChange, customer, onChange }: CustomerSubscriptionTimelineProps) => {
+  const [periods, setPeriods] = useState<SubscriptionPeriod[]>([]);
+  const [adminEmails, setAdminEmails] = useState<Record<string, string>>({});
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [walletBalance, setWalletBalance] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [periodForm, setPeriodForm] = useState(EMPTY_PERIOD_FORM);
+  const [editingPeriod, setEditingPeriod] = useState<SubscriptionPeriod | null>(null);
+
+  const fetchPeriods = useCallback(async () => {
+    if (!customer) return;
+
+    setIsLoading(true);
+    try {
+      const [periodsResult, adminsResult, promoResult, plansResult, walletResult] = await Promise.all([
+        supabase
+          .from("subscription_periods")
+          .select("id, start_date, end_date, days, price, source, note, discount_amount, promo_codes(code), created_by, created_at")
+          .eq("customer_id", customer.id)
+          .order("start_date", { ascending: true }),
+        supabase.from("admin_users").select("id, email"),
+        supabase
+          .from("promo_codes")
+          .select("id, code, discount_type, discount_value, valid_from, valid_until, reseller_id, is_active")
+          .eq("is_active", true)
+          .order("code", { ascending: true }),
+        supabase
+          .from("plans")
+          .select("id, name, days, price, wholesale_price")
+          .eq("is_active", true)
+          .order("days", { ascending: true }),
+        customer.reseller_id
+          ? supabase.from("reseller_wallet_transactions").select("kind, amount").eq("reseller_id", customer.reseller_id)
+          : Promise.resolve({ data: [] as { kind: string; amount: number }[] }),
+      ]);
+
+      if (periodsResult.error) throw periodsResult.error;
+
+      const data = periodsResult.data || [];
+      setPeriods(data);
+      setEditingPeriod(null);
+      setAdminEmails(Object.fromEntries((adminsResult.data || []).map((admin) => [admin.id, admin.email])));
+      setPromoCodes((promoResult.data || []).filter((promo) => isPromoAvailable(promo, customer.reseller_id)));
+      setPlans(plansResult.data || []);
+      setWalletBalance(
+        (walletResult.data || []).reduce(
+          (balance, transaction) => balance + (transaction.kind === "credit" ? transaction.amount : -transaction.amount),
+          0
+        )
+      );
+
+      // Renewals continue from the current end, or from today once it has lapsed
+      const lastEnd = data.reduce<Date | null>(
+        (latest, period) => (period.end_date && (!latest || new Date(period.end_date) > latest) ? new Date(period.end_date) : latest),
+        null
+      );
+      setPeriodForm({ ...EMPTY_PERIOD_FORM, start_date: format(max([lastEnd || new Date(), new Date()]), "yyyy-MM-dd") });
+    } catch (error) {
+      console.error("Error fetching subscription periods:", error);
+      toast.error("Failed to load subscription timeline");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    if (open) fetchPeriods();
+  }, [open, fetchPeriods]);
+
+  // The database blocks the renewal when the wallet is short, unless the admin confirms
+  const selectedPlan = periodForm.source === "renewal" && !editingPeriod
+    ? plans.find((plan) => plan.id === periodForm.plan_id)
+    : undefined;
+  const walletCharge = customer?.reseller_id ? selectedPlan?.wholesale_price || 0 : 0;
+  const isWalletShort = walletCharge > walletBalance;
+
+  const selectPlan = (planId: string) => {
+    const plan = plans.find((p) => p.id === planId);
+    setPeriodForm((prev) => ({
+      ...prev,
+      plan_id: planId,
+      days: plan ? String(plan.days) : prev.days,
+      price: plan && plan.price !== null ? String(plan.price) : prev.price,
+    }));
+  };
+
+  const addPeriod = async () => {
+    if (!customer) return;
+
+    const days = parseInt(periodForm.days);
+    if (!periodForm.start_date || !days || days < 1) {
+      toast.error("Enter a start date and a number of days");
+      return;
+    }
+
+    if (isWalletShort && !periodForm.allow_wallet_overdraft) {
+      toast.error("Reseller wallet balance is too low for this plan");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("subscription_periods")
+        .insert({
+          customer_id: customer.id,
+          source: periodForm.source,
+          start_date: periodForm.start_date,
+          days,
+          price: periodForm.price ? parseFloat(periodForm.price) : null,
+          note: periodForm.note.trim() || null,
+          promo_code_id: periodForm.source === "renewal" && periodForm.promo_code_id !== "none" ? periodForm.promo_code_id : null,
+          plan_id: selectedPlan?.id || null,
+          allow_wallet_overdraft: isWalletShort && periodForm.allow_wallet_overdraft,
+        });
+
+      // Promo codes and wallet balances are checked by the database; show why one was refused
+      if (error) throw new Error(error.message);
+
+      toast.success(`${SOURCE_LABELS[periodForm.source]} of ${days} days added`);
+      fetchPeriods();
+      onChange?.();
+    } catch (error) {
+      console.error("Error adding subscription period:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add subscription period");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEditing = (period: SubscriptionPeriod) => {
+    setEditingPeriod(period);
+    setPeriodForm({
+      ...EMPTY_PERIOD_FORM,
+      source: period.source,
+      start_date: period.start_date,
+      days: String(period.days),
+      price: period.price !== null ? String(period.price) : "",
+      note: period.note || "",
+    });
+  };
+
+  // Corrections carry through to the period's invoice, which keeps its number
+  const updatePeriod = async () => {
+    if (!editingPeriod) return;
+
+    const days = parseInt(periodForm.days);
+    if (!periodForm.start_date || !days || days < 1) {
+      toast.error("Enter a start date and a number of days");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("subscription_periods")
+        .update({
+          start_date: periodForm.start_date,
+          days,
+          price: periodForm.price ? parseFloat(periodForm.price) : null,
+          note: periodForm.note.trim() || null,
+        })
+        .eq("id", editingPeriod.id);
+
+      // Invoiced periods must keep a price; show the database's reason
+      if (error) throw new Error(error.message);
+
+      toast.success("Subscription period updated");
+      fetchPeriods();
+      onChange?.();
+    } catch (error) {
+      console.error("Error updating subscription period:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update subscription period");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePeriod = async (period: SubscriptionPeriod) => {
+    if (!confirm(`Remove this ${SOURCE_LABELS[period.source]?.toLowerCase() || "period"} of ${period.days} days?`)) return;
+
+    try {
+      const { error } = await supabase.from("subscription_periods").delete().eq("id", period.id);
+
+      if (error) throw error;
+
+      toast.success("Subscription period removed");
+      fetchPeriods();
+      onChange?.();
+    } catch (error) {
+      console.error("Error deleting subscription period:", error);
+      toast.error("Failed to remove subscription period");
+    }
+  };
+
+  const totalDays = periods.reduce((sum, period) => sum + period.days, 0);
+  const totalPaid = periods.reduce((sum, period) => sum + (period.price || 0), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">
+            Subscription Timeline
+          </DialogTitle>
+          <DialogDescription>
+            {customer?.name}: {periods.length} period{periods.length !== 1 ? "s" : ""}, {totalDays} days,{" "}
+            {formatCurrency(totalPaid)} paid
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <ScrollArea className="max-h-[300px]">
+            <div className="space-y-3 pr-3">
+              {periods.map((period) => (
+                <div key={period.id} className="bg-muted/30 rounded-lg p-3 border border-border/50 flex items-start gap-3">
+                  <Badge variant={period.source === "new" || period.source === "renewal" ? "default" : "secondary"} className="shrink-0 mt-0.5">
+                    {SOURCE_LABELS[period.source] || period.source}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm">
+                      {format(new Date(period.start_date), "MMM d, yyyy")} → {period.end_date ? format(new Date(period.end_date), "MMM d, yyyy") : "—"}
+                      <span className="text-muted-foreground font-normal"> · {period.days} days</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {period.price !== null ? formatCurrency(period.price) : "No price"}
+                      {period.promo_codes && ` (${period.promo_codes.code}, ${formatCurrency(period.discount_amount)} off)`} · added{" "}
+                      {format(new Date(period.created_at), "MMM d, yyyy")}
+                      {period.created_by && ` by ${adminEmails[period.created_by] || "admin"}`}
+                    </p>
+                    {period.note && <p className="text-xs text-muted-foreground mt-1">{period.note}</p>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => startEditing(period)}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    disabled={periods.length === 1}
+                    onClick={() => deletePeriod(period)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {/* Add or Edit Period */}
+        <div className="border-t border-border pt-4 space-y-3">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={periodForm.source}
+                onValueChange={(value) => setPeriodForm(prev => ({ ...prev, source: value }))}
+                disabled={!!editingPeriod}
+              >
+                <SelectTrigger className="bg-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {editingPeriod?.source === "new" && <SelectItem value="new">New</SelectItem>}
+                  <SelectItem value="renewal">Renewal</SelectItem>
+                  <SelectItem value="extension">Extension</SelectItem>
+                  <SelectItem value="compensation">Compensation</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="period_start">Start</Label>
+              <Input
+                id="period_start"
+                type="date"
+                value={periodForm.start_date}
+                onChange={(e) => setPeriodForm(prev => ({ ...prev, start_date: e.target.value }))}
+                className="bg-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="period_days">Days</Label>
+              <Input
+                id="period_days"
+                type="number"
+                min="1"
+                value={periodForm.days}
+                onChange={(e) => setPeriodForm(prev => ({ ...prev, days: e.target.value }))}
+                className="bg-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="period_price">Price</Label>
+              <Input
+                id="period_price"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Optional"
+                value={periodForm.price}
+                onChange={(e) => setPeriodForm(prev => ({ ...prev, price: e.target.value }))}
+                className="bg-input"
+              />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            {periodForm.source === "renewal" && !editingPeriod && (
+              <Select value={periodForm.plan_id} onValueChange={selectPlan}>
+                <SelectTrigger className="bg-input w-[200px] shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="custom">No plan</SelectItem>
+                  {plans.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {periodForm.source === "renewal" && !editingPeriod && promoCodes.length > 0 && (
+              <Select value={periodForm.promo_code_id} onValueChange={(value) => setPeriodForm(prev => ({ ...prev, promo_code_id: value }))}>
+                <SelectTrigger className="bg-input w-[200px] shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No promo</SelectItem>
+                  {promoCodes.map((promo) => (
+                    <SelectItem key={promo.id} value={promo.id}>
+                      {promo.code} ({formatPromoValue(promo)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Input
+              placeholder="Note (optional)"
+              value={periodForm.note}
+              onChange={(e) => setPeriodForm(prev => ({ ...prev, note: e.target.value }))}
+              className="bg-input"
+            />
+            {editingPeriod ? (
+              <>
+                <Button variant="ghost" onClick={fetchPeriods} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button variant="netflix" onClick={updatePeriod} disabled={isSaving}>
+                  {isSaving ? "Saving..." : "Save Changes"}
+                </Button>
+              </>
+            ) : (
+              <Button variant="netflix" onClick={addPeriod} disabled={isSaving || !customer}>
+                <Plus className="w-4 h-4 mr-2" />
+                {isSaving ? "Adding..." : "Add Period"}
+              </Button>
+            )}
+          </div>
+          {customer?.reseller_id && periodForm.source === "renewal" && !editingPeriod && (
+            <div className="flex items-center gap-4">
+              <p className={`text-xs ${isWalletShort ? "text-destructive" : "text-muted-foreground"}`}>
+                Wallet balance {formatCurrency(walletBalance)}
+                {walletCharge > 0 ? `, this renewal charges ${formatCurrency(walletCharge)}` : "; pick a plan to charge the wallet"}
+              </p>
+              {isWalletShort && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="period_wallet_overdraft"
+                    checked={periodForm.allow_wallet_overdraft}
+                    onCheckedChange={(checked) => setPeriodForm(prev => ({ ...prev, allow_wallet_overdraft: checked === true }))}
+                  />
+                  <Label htmlFor="period_wallet_overdraft" className="text-xs text-muted-foreground cursor-pointer">
+                    Renew anyway (wallet goes negative)
+                  </Label>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerSubscriptionTimeline;
@@ -0,0 +1,143 @@
+// ============================================
+// CUSTOMER VERIFICATION HISTORY DIALOG
+// Lists a customer's verification requests (IP, result, latency) so admins
+// can spot household verification being shared outside the profile
+// ============================================
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format, subDays } from "date-fns";
+
+interface VerificationRequest {
+  id: string;
+  ip_address: string | null;
+  result: string; // link | code | none | error
+  detail: string | null;
+  latency_ms: number;
+  created_at: string;
+}
+
+interface CustomerVerificationHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: { id: string; name: string; daily_verification_limit: number } | null;
+}
+
+const HISTORY_LIMIT = 100;
+
+const RESULT_BADGES: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  link: { label: "Link", variant: "default" },
+  code: { label: "Code", variant: "default" },
+  none: { label: "None", variant: "secondary" },
+  error: { label: "Error", variant: "destructive" },
+};
+
+const CustomerVerificationHistory = ({ open, onOpenChange, customer }: CustomerVerificationHistoryProps) => {
+  const [requests, setRequests] = useState<VerificationRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !customer) return;
+
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from("verification_requests")
+          .select("id, ip_address, result, detail, latency_ms, created_at")
+          .eq("customer_id", customer.id)
+          .order("created_at", { ascending: false })
+          .limit(HISTORY_LIMIT);
+
+        if (error) throw error;
+        setRequests(data || []);
+      } catch (error) {
+        console.error("Error fetching verification history:", error);
+        toast.error("Failed to load verification history");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [open, customer]);
+
+  // Same counting rule as the quota in fetch-netflix-otp: failed requests are free
+  const dayAgo = subDays(new Date(), 1);
+  const lastDay = requests.filter((request) => new Date(request.created_at) >= dayAgo);
+  const usedToday = lastDay.filter((request) => request.result !== "error").length;
+  const distinctIps = new Set(lastDay.map((request) => request.ip_address).filter(Boolean)).size;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">
+            Verification History
+          </DialogTitle>
+          <DialogDescription>
+            {customer?.name}: {usedToday}/{customer?.daily_verification_limit ?? 0} requests in the last 24 hours
+            from {distinctIps} IP address{distinctIps !== 1 ? "es" : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : requests.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No verification requests yet</div>
+        ) : (
+          <ScrollArea className="h-[400px]">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border">
+                  <TableHead>Time</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Detail</TableHead>
+                  <TableHead className="text-right">Latency</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => {
+                  const badge = RESULT_BADGES[request.result] || RESULT_BADGES.none;
+                  return (
+                    <TableRow key={request.id} className="border-border">
+                      <TableCell className="text-muted-foreground whitespace-nowrap">
+                        {format(new Date(request.created_at), "MMM d, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        <code className="text-xs">{request.ip_address || "—"}</code>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {request.detail?.replace(/_/g, " ") || "—"}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {request.latency_ms} ms
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerVerificationHistory;
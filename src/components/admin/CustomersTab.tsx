@@ -14,11 +14,19 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency, type PaymentStatus } from "@/lib/utils";
+import { getAccountStatusBadge } from "@/lib/accountStatus";
+import { formatPromoValue, getPromoDiscount, isPromoAvailable, type PromoCode } from "@/lib/promoCodes";
 import { toast } from "sonner";
-import { Plus, Edit, Trash2, Copy, RefreshCw, User, Users, Clock, XCircle, CheckSquare } from "lucide-react";
+import { Plus, Edit, Trash2, Copy, RefreshCw, User, Users, Clock, XCircle, CheckSquare, History, CalendarRange, IndianRupee, Upload, FileText } from "lucide-react";
 import { format, differenceInDays, addDays } from "date-fns";
 import CustomerFilters from "./CustomerFilters";
 import CustomerMessageDialog from "./CustomerMessageDialog";
+import CustomerVerificationHistory from "./CustomerVerificationHistory";
+import CustomerSubscriptionTimeline from "./CustomerSubscriptionTimeline";
+import CustomerPaymentsDialog from "./CustomerPaymentsDialog";
+import StatementImportDialog from "./StatementImportDialog";
+import CustomerInvoicesDialog from "./CustomerInvoicesDialog";
 
 // ============================================
 // INTERFACES
@@ -28,10 +36,31 @@ interface NetflixAccount {
   id: string;
   netflix_email: string;
   netflix_password: string;
-  customer_count?: number; // Number of customers assigned
+  status: string; // Only active accounts take new customers
+  slots?: { slot_number: number; customer_id: string | null }[]; // Profile slots, lowest first
 }
 
-const MAX_SLOTS = 6; // Maximum customers per Netflix account
+const AUTO_ASSIGN = "auto"; // Account choice that lets auto_assign_profile_slot() pick the slot
+
+// A slot is free, or already held by the customer being edited
+const isSlotAvailable = (slot: { customer_id: string | null }, customerId?: string) =>
+  slot.customer_id === null || slot.customer_id === customerId;
+
+interface Plan {
+  id: string;
+  name: string;
+  days: number;
+  price: number | null;
+  wholesale_price: number | null;
+  is_active: boolean;
+}
+
+interface Reseller {
+  id: string;
+  name: string;
+  message_signature: string | null;
+  is_active: boolean;
+}
 
 interface Customer {
   id: string;
@@ -42,8 +71,13 @@ interface Customer {
   subscription_days: number;
   is_active: boolean;
   profile_number: number | null;
-  purchased_from: string | null;
+  reseller_id: string | null;
+  selling_price: number | null;
+  daily_verification_limit: number;
+  plan_id: string | null;
   netflix_accounts: NetflixAccount | null;
+  plans: { name: string } | null;
+  resellers: { name: string } | null;
 }
 
 interface CustomerMessageData {
@@ -52,24 +86,36 @@ interface CustomerMessageData {
   netflixPassword: string;
   profileNumber: number | null;
   subscriptionDays: number;
+  planName: string | null;
   purchaseDate: string;
   accessCode: string;
-  purchasedFrom: string | null;
+  signature: string | null;
 }
 
 interface CustomersTabProps {
-  durationFilter?: number | null;
-  onClearDurationFilter?: () => void;
+  planFilter?: string | null; // Plan id, or "custom" for customers without a plan
+  onClearPlanFilter?: () => void;
 }
 
+const PAYMENT_BADGES = {
+  paid: { label: "Paid", variant: "default" as const },
+  partial: { label: "Partial", variant: "outline" as const },
+  unpaid: { label: "Unpaid", variant: "destructive" as const },
+};
+
 // ============================================
 // COMPONENT
 // ============================================
 
-const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabProps) => {
-  // State for customers and accounts
+const CustomersTab = ({ planFilter, onClearPlanFilter }: CustomersTabProps) => {
+  // State for customers, accounts, plans and resellers
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [accounts, setAccounts] = useState<NetflixAccount[]>([]);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [resellers, setResellers] = useState<Reseller[]>([]);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [walletBalances, setWalletBalances] = useState<Record<string, number>>({});
+  const [paymentStatuses, setPaymentStatuses] = useState<Record<string, PaymentStatus>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
@@ -86,29 +132,63 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [profileFilter, setProfileFilter] = useState("all");
+  const [paymentFilter, setPaymentFilter] = useState("all");
 
   // Auto-copy message dialog state
   const [messageDialogOpen, setMessageDialogOpen] = useState(false);
   const [newCustomerData, setNewCustomerData] = useState<CustomerMessageData | null>(null);
+
+  // Verification history and subscription timeline dialog state
+  const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
+  const [timelineCustomer, setTimelineCustomer] = useState<Customer | null>(null);
+  const [paymentsCustomer, setPaymentsCustomer] = useState<Customer | null>(null);
+  const [invoicesCustomer, setInvoicesCustomer] = useState<Customer | null>(null);
+  const [statementDialogOpen, setStatementDialogOpen] = useState(false);
   
-  // Form data with profile_number and purchased_from fields
+  // Form data with profile_number and reseller fields
   const [formData, setFormData] = useState({
     name: "",
-    netflix_account_id: "",
+    netflix_account_id: AUTO_ASSIGN,
     purchase_date: format(new Date(), "yyyy-MM-dd"),
     subscription_days: "30",
+    plan_id: "custom", // Plan id, or "custom" for a free-form duration
     is_active: true,
     profile_number: "", // 1-5 or empty
-    purchased_from: "",
-    custom_access_code: "" // Optional custom access code
+    reseller_id: "direct", // Reseller id, or "direct" for our own sales
+    selling_price: "",
+    daily_verification_limit: "10",
+    custom_access_code: "", // Optional custom access code
+    amount_paid: "", // Optional first payment, recorded against the first period
+    payment_method: "upi",
+    payment_reference: "",
+    promo_code_id: "none" // Promo code id, or "none"
   });
   
   // Override slot limit state
   const [overrideSlotLimit, setOverrideSlotLimit] = useState(false);
 
+  // New reseller sales are charged to the reseller's wallet at the plan's wholesale price
+  const [overrideWalletBalance, setOverrideWalletBalance] = useState(false);
+  const walletCharge = !editingCustomer && formData.reseller_id !== "direct"
+    ? plans.find(p => p.id === formData.plan_id)?.wholesale_price || 0
+    : 0;
+  const walletBalance = walletBalances[formData.reseller_id] || 0;
+  const isWalletShort = walletCharge > walletBalance;
+
+  // Codes this sale qualifies for; the database applies the discount to the first period
+  const availablePromoCodes = promoCodes.filter(promo =>
+    isPromoAvailable(promo, formData.reseller_id === "direct" ? null : formData.reseller_id)
+  );
+  const selectedPromo = availablePromoCodes.find(p => p.id === formData.promo_code_id);
+  const listPrice = parseFloat(formData.selling_price) || 0;
+  const promoDiscount = selectedPromo ? getPromoDiscount(selectedPromo, listPrice) : 0;
+
   useEffect(() => {
     fetchCustomers();
     fetchAccounts();
+    fetchPlans();
+    fetchResellers();
+    fetchPromoCodes();
   }, []);
 
   // ============================================
@@ -119,11 +199,22 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
     try {
       const { data, error } = await supabase
         .from("customers")
-        .select("*, netflix_accounts(id, netflix_email, netflix_password)")
+        .select("*, netflix_accounts(id, netflix_email, netflix_password, status), plans(name), resellers(name)")
         .order("created_at", { ascending: false });
 
       if (error) throw error;
+
+      // Same rule the suspend-unpaid-customers cron uses
+      const { data: statusData, error: statusError } = await supabase
+        .from("customer_payment_status")
+        .select("customer_id, payment_status");
+
+      if (statusError) throw statusError;
+
       setCustomers(data || []);
+      setPaymentStatuses(Object.fromEntries(
+        (statusData || []).map((row) => [row.customer_id, row.payment_status as PaymentStatus])
+      ));
     } catch (error) {
       console.error("Error fetching customers:", error);
       toast.error("Failed to load customers");
@@ -132,37 +223,81 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
     }
   };
 
+  const fetchPlans = async () => {
+    const { data, error } = await supabase
+      .from("plans")
+      .select("id, name, days, price, wholesale_price, is_active")
+      .order("days", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching plans:", error);
+      return;
+    }
+    setPlans(data || []);
+  };
+
+  const fetchPromoCodes = async () => {
+    const { data, error } = await supabase
+      .from("promo_codes")
+      .select("id, code, discount_type, discount_value, valid_from, valid_until, reseller_id, is_active")
+      .eq("is_active", true)
+      .order("code", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching promo codes:", error);
+      return;
+    }
+    setPromoCodes(data || []);
+  };
+
+  const fetchResellers = async () => {
+    const [resellersResult, walletResult] = await Promise.all([
+      supabase
+        .from("resellers")
+        .select("id, name, message_signature, is_active")
+        .order("name", { ascending: true }),
+      supabase.from("reseller_wallet_transactions").select("reseller_id, kind, amount"),
+    ]);
+
+    if (resellersResult.error || walletResult.error) {
+      console.error("Error fetching resellers:", resellersResult.error || walletResult.error);
+      return;
+    }
+
+    const balances: Record<string, number> = {};
+    (walletResult.data || []).forEach((transaction) => {
+      balances[transaction.reseller_id] = (balances[transaction.reseller_id] || 0) +
+        (transaction.kind === "credit" ? transaction.amount : -transaction.amount);
+    });
+
+    setResellers(resellersResult.data || []);
+    setWalletBalances(balances);
+  };
+
   const fetchAccounts = async () => {
     try {
       // Fetch accounts
       const { data: accountsData, error: accountsError } = await supabase
         .from("netflix_accounts")
-        .select("id, netflix_email, netflix_password");
+        .select("id, netflix_email, netflix_password, status");
 
       if (accountsError) throw accountsError;
 
-      // Fetch customer counts for each account
-      const { data: customersData, error: customersError } = await supabase
-        .from("customers")
-        .select("netflix_account_id");
-
-      if (customersError) throw customersError;
+      // Fetch profile slots and who holds them
+      const { data: slotsData, error: slotsError } = await supabase
+        .from("profile_slots")
+        .select("netflix_account_id, slot_number, customer_id")
+        .order("slot_number");
 
-      // Count customers per account
-      const customerCounts: Record<string, number> = {};
-      (customersData || []).forEach((customer) => {
-        if (customer.netflix_account_id) {
-          customerCounts[customer.netflix_account_id] = (customerCounts[customer.netflix_account_id] || 0) + 1;
-        }
-      });
+      if (slotsError) throw slotsError;
 
-      // Add customer count to each account
-      const accountsWithCounts = (accountsData || []).map((account) => ({
+      // Add slots to each account
+      const accountsWithSlots = (accountsData || []).map((account) => ({
         ...account,
-        customer_count: customerCounts[account.id] || 0,
+        slots: (slotsData || []).filter((slot) => slot.netflix_account_id === account.id),
       }));
 
-      setAccounts(accountsWithCounts);
+      setAccounts(accountsWithSlots);
     } catch (error) {
       console.error("Error fetching accounts:", error);
     }
@@ -218,16 +353,20 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
         (profileFilter === "none" && customer.profile_number === null) ||
         (customer.profile_number?.toString() === profileFilter);
 
-      // Duration filter (from Overview tab click)
+      // Plan filter (from Overview tab click)
       const endDate = addDays(new Date(customer.purchase_date), customer.subscription_days);
       const daysRemaining = differenceInDays(endDate, new Date());
-      const matchesDuration = 
-        !durationFilter || 
-        (customer.is_active && daysRemaining > 0 && customer.subscription_days >= durationFilter);
+      const matchesPlan = 
+        !planFilter || 
+        (customer.is_active && daysRemaining > 0 && (customer.plan_id || "custom") === planFilter);
+
+      // Payment filter
+      const matchesPayment =
+        paymentFilter === "all" || (paymentStatuses[customer.id] || "paid") === paymentFilter;
 
-      return matchesSearch && matchesStatus && matchesProfile && matchesDuration;
+      return matchesSearch && matchesStatus && matchesProfile && matchesPlan && matchesPayment;
     });
-  }, [customers, searchTerm, statusFilter, profileFilter, durationFilter]);
+  }, [customers, searchTerm, statusFilter, profileFilter, planFilter, paymentFilter, paymentStatuses]);
 
   // ============================================
   // CRUD OPERATIONS
@@ -241,6 +380,16 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
       return;
     }
 
+    if (selectedPromo && listPrice <= 0) {
+      toast.error("Enter a selling price to apply a promo code");
+      return;
+    }
+
+    if (isWalletShort && !overrideWalletBalance) {
+      toast.error("Reseller wallet balance is too low for this plan");
+      return;
+    }
+
     try {
       if (editingCustomer) {
         // Update existing customer
@@ -249,11 +398,11 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
           .update({
             name: formData.name,
             netflix_account_id: formData.netflix_account_id || null,
-            purchase_date: formData.purchase_date,
-            subscription_days: parseInt(formData.subscription_days),
+            plan_id: formData.plan_id === "custom" ? null : formData.plan_id,
             is_active: formData.is_active,
             profile_number: formData.profile_number ? parseInt(formData.profile_number) : null,
-            purchased_from: formData.purchased_from || null
+            reseller_id: formData.reseller_id === "direct" ? null : formData.reseller_id,
+            daily_verification_limit: parseInt(formData.daily_verification_limit) || 10
           })
           .eq("id", editingCustomer.id);
 
@@ -263,33 +412,57 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
       } else {
         // Create new customer - use custom code if provided, otherwise generate
         const accessCode = formData.custom_access_code.trim() || generateAccessCode();
-        const selectedAccount = accounts.find(a => a.id === formData.netflix_account_id);
+        const isAutoAssign = formData.netflix_account_id === AUTO_ASSIGN;
+        let selectedAccount = accounts.find(a => a.id === formData.netflix_account_id);
+        let profileNumber = formData.profile_number ? parseInt(formData.profile_number) : null;
+        const selectedReseller = resellers.find(r => r.id === formData.reseller_id);
         
-        const { error } = await supabase
+        const { data: newCustomer, error } = await supabase
           .from("customers")
           .insert({
             name: formData.name,
             access_code: accessCode,
-            netflix_account_id: formData.netflix_account_id || null,
+            netflix_account_id: isAutoAssign ? null : formData.netflix_account_id || null,
             purchase_date: formData.purchase_date,
             subscription_days: parseInt(formData.subscription_days),
+            plan_id: formData.plan_id === "custom" ? null : formData.plan_id,
             is_active: formData.is_active,
             profile_number: formData.profile_number ? parseInt(formData.profile_number) : null,
-            purchased_from: formData.purchased_from || null
-          });
+            reseller_id: formData.reseller_id === "direct" ? null : formData.reseller_id,
+            selling_price: formData.selling_price ? parseFloat(formData.selling_price) : null,
+            promo_code_id: selectedPromo?.id || null,
+            allow_wallet_overdraft: isWalletShort && overrideWalletBalance,
+            daily_verification_limit: parseInt(formData.daily_verification_limit) || 10
+          })
+          .select("id")
+          .single();
 
         if (error) throw error;
+
+        const amountPaid = parseFloat(formData.amount_paid);
+        if (amountPaid > 0) {
+          await recordFirstPayment(newCustomer.id, amountPaid);
+        }
+
+        if (isAutoAssign) {
+          const assigned = await autoAssignSlot(newCustomer.id);
+          if (assigned) {
+            selectedAccount = { id: assigned.netflix_account_id, netflix_email: assigned.netflix_email, netflix_password: assigned.netflix_password, status: "active" };
+            profileNumber = assigned.profile_number;
+          }
+        }
         
         // Prepare data for message dialog
         setNewCustomerData({
           customerName: formData.name,
           netflixEmail: selectedAccount?.netflix_email || "N/A",
           netflixPassword: selectedAccount?.netflix_password || "N/A",
-          profileNumber: formData.profile_number ? parseInt(formData.profile_number) : null,
+          profileNumber,
           subscriptionDays: parseInt(formData.subscription_days),
+          planName: plans.find(p => p.id === formData.plan_id)?.name || null,
           purchaseDate: formData.purchase_date,
           accessCode: accessCode,
-          purchasedFrom: formData.purchased_from || null
+          signature: selectedReseller ? selectedReseller.message_signature || selectedReseller.name : null
         });
         
         setIsDialogOpen(false);
@@ -299,12 +472,60 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
 
       resetForm();
       fetchCustomers();
+      fetchAccounts(); // Profile slots change with the assignment
+      fetchResellers(); // Wallet balances change when a reseller sale is debited
     } catch (error: any) {
       console.error("Error saving customer:", error);
       toast.error(error.message || "Failed to save customer");
     }
   };
 
+  // The customer is already saved at this point, so a failure here is reported
+  // without undoing the creation; the payment can be added from the payments dialog
+  const recordFirstPayment = async (customerId: string, amount: number) => {
+    try {
+      const { data: period, error: periodError } = await supabase
+        .from("subscription_periods")
+        .select("id")
+        .eq("customer_id", customerId)
+        .eq("source", "new")
+        .maybeSingle();
+
+      if (periodError) throw periodError;
+
+      const { error } = await supabase
+        .from("payments")
+        .insert({
+          customer_id: customerId,
+          subscription_period_id: period?.id || null,
+          amount,
+          method: formData.payment_method,
+          reference: formData.payment_reference.trim() || null,
+          paid_on: formData.purchase_date,
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      toast.error("Customer created, but the payment could not be recorded");
+    }
+  };
+
+  // Picks the slot server-side under the assignment lock; as with payments, a
+  // failure leaves the new customer unassigned rather than undoing the creation
+  const autoAssignSlot = async (customerId: string) => {
+    try {
+      const { data, error } = await supabase.rpc("auto_assign_profile_slot", { p_customer_id: customerId });
+
+      if (error) throw new Error(error.message);
+      return data?.[0] ?? null;
+    } catch (error) {
+      console.error("Error auto-assigning slot:", error);
+      toast.error(`Customer created, but no slot was assigned: ${error instanceof Error ? error.message : "unknown error"}`);
+      return null;
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this customer?")) return;
 
@@ -317,6 +538,7 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
       if (error) throw error;
       toast.success("Customer deleted successfully");
       fetchCustomers();
+      fetchAccounts();
     } catch (error) {
       console.error("Error deleting customer:", error);
       toast.error("Failed to delete customer");
@@ -384,17 +606,19 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
 
     try {
       if (bulkAction === "extend") {
-        // Extend subscription for selected customers
-        for (const id of selectedIds) {
-          const customer = customers.find(c => c.id === id);
-          if (customer) {
-            const newDays = customer.subscription_days + parseInt(bulkExtendDays);
-            await supabase
-              .from("customers")
-              .update({ subscription_days: newDays })
-              .eq("id", id);
-          }
-        }
+        // Add an extension period starting where each subscription currently ends
+        const periods = customers
+          .filter(c => selectedCustomers.has(c.id))
+          .map(c => ({
+            customer_id: c.id,
+            start_date: format(addDays(new Date(c.purchase_date), c.subscription_days), "yyyy-MM-dd"),
+            days: parseInt(bulkExtendDays),
+            source: "extension",
+          }));
+
+        const { error } = await supabase.from("subscription_periods").insert(periods);
+
+        if (error) throw error;
         toast.success(`Extended subscription for ${selectedIds.length} customers by ${bulkExtendDays} days`);
       } else if (bulkAction === "deactivate") {
         // Deactivate selected customers
@@ -412,14 +636,45 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
           setIsBulkProcessing(false);
           return;
         }
-        const { error } = await supabase
-          .from("customers")
-          .update({ netflix_account_id: bulkAccountId === "none" ? null : bulkAccountId })
-          .in("id", selectedIds);
-        
-        if (error) throw error;
+        // Active customers take the account's free profiles in order and go
+        // without one once they run out; inactive customers hold no profile.
+        // Each customer is saved on its own so one failure does not stop the rest.
+        const targetId = bulkAccountId === "none" ? null : bulkAccountId;
+        const freeProfiles = (accounts.find(a => a.id === targetId)?.slots || [])
+          .filter(slot => isSlotAvailable(slot))
+          .map(slot => slot.slot_number);
+        const failed: string[] = [];
+        let reassigned = 0;
+        let withoutProfile = 0;
+
+        for (const customer of customers.filter(c => selectedCustomers.has(c.id) && c.netflix_account_id !== targetId)) {
+          const profileNumber = targetId && customer.is_active ? freeProfiles.shift() ?? null : null;
+          const { error } = await supabase
+            .from("customers")
+            .update({ netflix_account_id: targetId, profile_number: profileNumber })
+            .eq("id", customer.id);
+
+          if (error) {
+            console.error(`Error reassigning ${customer.name}:`, error);
+            failed.push(`${customer.name} (${error.message})`);
+            if (profileNumber !== null) freeProfiles.unshift(profileNumber);
+            continue;
+          }
+
+          reassigned++;
+          if (targetId && customer.is_active && profileNumber === null) withoutProfile++;
+        }
+
         const accountEmail = accounts.find(a => a.id === bulkAccountId)?.netflix_email || "None";
-        toast.success(`Reassigned ${selectedIds.length} customers to ${accountEmail}`);
+        if (reassigned > 0) {
+          toast.success(
+            `Reassigned ${reassigned} customers to ${accountEmail}` +
+              (withoutProfile > 0 ? `; ${withoutProfile} without a profile as none were free` : "")
+          );
+        }
+        if (failed.length > 0) {
+          toast.error(`Could not reassign ${failed.join(", ")}`);
+        }
       }
 
       setBulkDialogOpen(false);
@@ -427,6 +682,7 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
       setBulkExtendDays("30");
       setBulkAccountId("");
       fetchCustomers();
+      fetchAccounts();
     } catch (error: any) {
       console.error("Bulk action error:", error);
       toast.error(error.message || "Bulk action failed");
@@ -442,16 +698,24 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
   const resetForm = () => {
     setFormData({
       name: "",
-      netflix_account_id: "",
+      netflix_account_id: AUTO_ASSIGN,
       purchase_date: format(new Date(), "yyyy-MM-dd"),
       subscription_days: "30",
+      plan_id: "custom",
       is_active: true,
       profile_number: "",
-      purchased_from: "",
-      custom_access_code: ""
+      reseller_id: "direct",
+      selling_price: "",
+      daily_verification_limit: "10",
+      custom_access_code: "",
+      amount_paid: "",
+      payment_method: "upi",
+      payment_reference: "",
+      promo_code_id: "none"
     });
     setEditingCustomer(null);
     setOverrideSlotLimit(false);
+    setOverrideWalletBalance(false);
   };
 
   const openEditDialog = (customer: Customer) => {
@@ -461,10 +725,17 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
       netflix_account_id: customer.netflix_account_id || "",
       purchase_date: customer.purchase_date,
       subscription_days: customer.subscription_days.toString(),
+      plan_id: customer.plan_id || "custom",
       is_active: customer.is_active,
       profile_number: customer.profile_number?.toString() || "",
-      purchased_from: customer.purchased_from || "",
-      custom_access_code: "" // Not editable when editing
+      reseller_id: customer.reseller_id || "direct",
+      selling_price: customer.selling_price?.toString() || "",
+      daily_verification_limit: customer.daily_verification_limit.toString(),
+      custom_access_code: "", // Not editable when editing
+      amount_paid: "", // Payments are recorded from the payments dialog once created
+      payment_method: "upi",
+      payment_reference: "",
+      promo_code_id: "none" // Promo codes only apply to new sales and renewals
     });
     setIsDialogOpen(true);
   };
@@ -481,193 +752,386 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
           <h2 className="font-display text-3xl tracking-wide text-foreground">Customers</h2>
           <p className="text-muted-foreground mt-1">Manage customer access and subscriptions</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
-          <DialogTrigger asChild>
-            <Button variant="netflix">
-              <Plus className="w-4 h-4 mr-2" />
-              Add Customer
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="bg-card border-border">
-            <DialogHeader>
-              <DialogTitle className="font-display text-2xl tracking-wide">
-                {editingCustomer ? "Edit Customer" : "Add Customer"}
-              </DialogTitle>
-              <DialogDescription>
-                {editingCustomer ? "Update customer details" : "Create a new customer with access code"}
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {/* Customer Name */}
-              <div className="space-y-2">
-                <Label htmlFor="name">Customer Name</Label>
-                <Input
-                  id="name"
-                  placeholder="John Doe"
-                  value={formData.name}
-                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                  className="bg-input"
-                />
-              </div>
-              
-              {/* Netflix Account Selection - Only show accounts with free slots (unless override) */}
-              <div className="space-y-2">
-                <Label htmlFor="netflix_account">Assign Netflix Account</Label>
-                <Select
-                  value={formData.netflix_account_id || "none"}
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, netflix_account_id: value === "none" ? "" : value }))}
-                >
-                  <SelectTrigger className="bg-input">
-                    <SelectValue placeholder="Select an account" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="none">None</SelectItem>
-                    {accounts
-                      .filter(account => {
-                        // When editing, always show the currently assigned account
-                        if (editingCustomer?.netflix_account_id === account.id) return true;
-                        // Show all accounts if override is enabled
-                        if (overrideSlotLimit) return true;
-                        // Only show accounts with available slots
-                        return (account.customer_count || 0) < MAX_SLOTS;
-                      })
-                      .map(account => {
-                        const slotsUsed = account.customer_count || 0;
-                        const slotsFree = MAX_SLOTS - slotsUsed;
-                        const isFull = slotsFree <= 0;
-                        return (
-                          <SelectItem key={account.id} value={account.id}>
-                            {account.netflix_email} {isFull ? "(FULL)" : `(${slotsFree} slot${slotsFree !== 1 ? 's' : ''} free)`}
-                          </SelectItem>
-                        );
-                      })}
-                  </SelectContent>
-                </Select>
-                <div className="flex items-center gap-2 mt-2">
-                  <Checkbox
-                    id="override_slot_limit"
-                    checked={overrideSlotLimit}
-                    onCheckedChange={(checked) => setOverrideSlotLimit(checked === true)}
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setStatementDialogOpen(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import Statement
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+            <DialogTrigger asChild>
+              <Button variant="netflix">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Customer
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-card border-border">
+              <DialogHeader>
+                <DialogTitle className="font-display text-2xl tracking-wide">
+                  {editingCustomer ? "Edit Customer" : "Add Customer"}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingCustomer ? "Update customer details" : "Create a new customer with access code"}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {/* Customer Name */}
+                <div className="space-y-2">
+                  <Label htmlFor="name">Customer Name</Label>
+                  <Input
+                    id="name"
+                    placeholder="John Doe"
+                    value={formData.name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    className="bg-input"
                   />
-                  <Label htmlFor="override_slot_limit" className="text-xs text-muted-foreground cursor-pointer">
-                    Override slot limit (show all accounts)
-                  </Label>
                 </div>
-                {!overrideSlotLimit && (
-                  <p className="text-xs text-muted-foreground">
-                    Only accounts with available slots (max {MAX_SLOTS} per account) are shown
-                  </p>
+                
+                {/* Netflix Account Selection - Only show accounts with free slots (unless override) */}
+                <div className="space-y-2">
+                  <Label htmlFor="netflix_account">Assign Netflix Account</Label>
+                  <Select
+                    value={formData.netflix_account_id || "none"}
+                    onValueChange={(value) => {
+                      // Start on the account's lowest free profile
+                      const account = accounts.find(a => a.id === value);
+                      const freeSlot = account?.slots?.find(slot => isSlotAvailable(slot, editingCustomer?.id));
+                      setFormData(prev => ({
+                        ...prev,
+                        netflix_account_id: value === "none" ? "" : value,
+                        profile_number: freeSlot ? freeSlot.slot_number.toString() : "",
+                      }));
+                    }}
+                  >
+                    <SelectTrigger className="bg-input">
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!editingCustomer && (
+                        <SelectItem value={AUTO_ASSIGN}>Auto-assign best free slot</SelectItem>
+                      )}
+                      <SelectItem value="none">None</SelectItem>
+                      {accounts
+                        .filter(account => {
+                          // When editing, always show the currently assigned account
+                          if (editingCustomer?.netflix_account_id === account.id) return true;
+                          // Locked, unpaid or retired accounts never take customers
+                          if (account.status !== "active") return false;
+                          // Show all accounts if override is enabled
+                          if (overrideSlotLimit) return true;
+                          // Only show accounts with available slots
+                          return (account.slots || []).some(slot => isSlotAvailable(slot));
+                        })
+                        .map(account => {
+                          const slotsFree = (account.slots || []).filter(slot => isSlotAvailable(slot)).length;
+                          const isFull = slotsFree <= 0;
+                          return (
+                            <SelectItem key={account.id} value={account.id}>
+                              {account.netflix_email} {isFull ? "(FULL)" : `(${slotsFree} slot${slotsFree !== 1 ? 's' : ''} free)`}
+                            </SelectItem>
+                          );
+                        })}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center gap-2 mt-2">
+                    <Checkbox
+                      id="override_slot_limit"
+                      checked={overrideSlotLimit}
+                      onCheckedChange={(checked) => setOverrideSlotLimit(checked === true)}
+                    />
+                    <Label htmlFor="override_slot_limit" className="text-xs text-muted-foreground cursor-pointer">
+                      Show full accounts (customer gets no profile)
+                    </Label>
+                  </div>
+                  {formData.netflix_account_id === AUTO_ASSIGN ? (
+                    <p className="text-xs text-muted-foreground">
+                      The account and profile are picked on save using the assignment rules
+                    </p>
+                  ) : !overrideSlotLimit && (
+                    <p className="text-xs text-muted-foreground">
+                      Only active accounts with a free profile slot are shown
+                    </p>
+                  )}
+                </div>
+
+                {/* Profile Number Selection - slots of the chosen account */}
+                {formData.netflix_account_id !== AUTO_ASSIGN && (
+                  <div className="space-y-2">
+                    <Label htmlFor="profile_number">Profile Number</Label>
+                    <Select
+                      value={formData.profile_number || "none"}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, profile_number: value === "none" ? "" : value }))}
+                    >
+                      <SelectTrigger className="bg-input">
+                        <SelectValue placeholder="Select profile number" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {(accounts.find(a => a.id === formData.netflix_account_id)?.slots || []).map(slot => {
+                          const isTaken = !isSlotAvailable(slot, editingCustomer?.id);
+                          return (
+                            <SelectItem key={slot.slot_number} value={slot.slot_number.toString()} disabled={isTaken}>
+                              Profile {slot.slot_number}{isTaken ? " (taken)" : ""}
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 )}
-              </div>
 
-              {/* Profile Number Selection (1-5) */}
-              <div className="space-y-2">
-                <Label htmlFor="profile_number">Profile Number</Label>
-                <Select
-                  value={formData.profile_number || "none"}
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, profile_number: value === "none" ? "" : value }))}
-                >
-                  <SelectTrigger className="bg-input">
-                    <SelectValue placeholder="Select profile number" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="none">None</SelectItem>
-                    <SelectItem value="1">Profile 1</SelectItem>
-                    <SelectItem value="2">Profile 2</SelectItem>
-                    <SelectItem value="3">Profile 3</SelectItem>
-                    <SelectItem value="4">Profile 4</SelectItem>
-                    <SelectItem value="5">Profile 5</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                {/* Plan - fills in duration and price when creating */}
+                <div className="space-y-2">
+                  <Label>Plan</Label>
+                  <Select
+                    value={formData.plan_id}
+                    onValueChange={(value) => {
+                      const plan = plans.find(p => p.id === value);
+                      setFormData(prev => ({
+                        ...prev,
+                        plan_id: value,
+                        ...(plan && !editingCustomer && {
+                          subscription_days: plan.days.toString(),
+                          selling_price: plan.price?.toString() || "",
+                        }),
+                      }));
+                    }}
+                  >
+                    <SelectTrigger className="bg-input">
+                      <SelectValue placeholder="Select a plan" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {plans
+                        .filter(plan => plan.is_active || plan.id === formData.plan_id)
+                        .map(plan => (
+                          <SelectItem key={plan.id} value={plan.id}>
+                            {plan.name} ({plan.days} days{plan.price !== null ? `, ${formatCurrency(plan.price)}` : ""})
+                          </SelectItem>
+                        ))}
+                      <SelectItem value="custom">Custom duration</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Date and Duration */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="purchase_date">Purchase Date</Label>
+                    <Input
+                      id="purchase_date"
+                      type="date"
+                      value={formData.purchase_date}
+                      onChange={(e) => setFormData(prev => ({ ...prev, purchase_date: e.target.value }))}
+                      disabled={!!editingCustomer}
+                      className="bg-input"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="subscription_days">Duration (days)</Label>
+                    <Input
+                      id="subscription_days"
+                      type="number"
+                      min="1"
+                      value={formData.subscription_days}
+                      onChange={(e) => setFormData(prev => ({ ...prev, subscription_days: e.target.value }))}
+                      disabled={!!editingCustomer || formData.plan_id !== "custom"}
+                      className="bg-input"
+                    />
+                  </div>
+                </div>
+                {editingCustomer && (
+                  <p className="text-xs text-muted-foreground -mt-2">
+                    Dates and prices come from the subscription timeline. Add a renewal or correct a period there.
+                  </p>
+                )}
 
-              {/* Date and Duration */}
-              <div className="grid grid-cols-2 gap-4">
+                {/* Reseller */}
                 <div className="space-y-2">
-                  <Label htmlFor="purchase_date">Purchase Date</Label>
-                  <Input
-                    id="purchase_date"
-                    type="date"
-                    value={formData.purchase_date}
-                    onChange={(e) => setFormData(prev => ({ ...prev, purchase_date: e.target.value }))}
-                    className="bg-input"
-                  />
+                  <Label>Purchased From (Reseller)</Label>
+                  <Select value={formData.reseller_id} onValueChange={(value) => setFormData(prev => ({ ...prev, reseller_id: value }))}>
+                    <SelectTrigger className="bg-input">
+                      <SelectValue placeholder="Select a reseller" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="direct">Direct</SelectItem>
+                      {resellers
+                        .filter(reseller => reseller.is_active || reseller.id === formData.reseller_id)
+                        .map(reseller => (
+                          <SelectItem key={reseller.id} value={reseller.id}>{reseller.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  {!editingCustomer && formData.reseller_id !== "direct" && (
+                    <p className={`text-xs ${isWalletShort ? "text-destructive" : "text-muted-foreground"}`}>
+                      Wallet balance {formatCurrency(walletBalance)}
+                      {walletCharge > 0 && `, this sale charges ${formatCurrency(walletCharge)}`}
+                    </p>
+                  )}
+                  {isWalletShort && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="override_wallet_balance"
+                        checked={overrideWalletBalance}
+                        onCheckedChange={(checked) => setOverrideWalletBalance(checked === true)}
+                      />
+                      <Label htmlFor="override_wallet_balance" className="text-xs text-muted-foreground cursor-pointer">
+                        Create anyway (wallet goes negative)
+                      </Label>
+                    </div>
+                  )}
                 </div>
+
+                {/* Selling Price - recorded on the first subscription period */}
+                {!editingCustomer && (
+                  <div className="space-y-2">
+                    <Label htmlFor="selling_price">Selling Price (Optional)</Label>
+                    <Input
+                      id="selling_price"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Price charged for this subscription"
+                      value={formData.selling_price}
+                      onChange={(e) => setFormData(prev => ({ ...prev, selling_price: e.target.value }))}
+                      className="bg-input"
+                    />
+                  </div>
+                )}
+
+                {/* Promo Code - discounts the selling price of the first period */}
+                {!editingCustomer && availablePromoCodes.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Promo Code (Optional)</Label>
+                    <Select
+                      value={selectedPromo?.id || "none"}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, promo_code_id: value }))}
+                    >
+                      <SelectTrigger className="bg-input">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No promo</SelectItem>
+                        {availablePromoCodes.map((promo) => (
+                          <SelectItem key={promo.id} value={promo.id}>
+                            {promo.code} ({formatPromoValue(promo)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {promoDiscount > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatCurrency(promoDiscount)} off: the customer is charged {formatCurrency(listPrice - promoDiscount)}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* First Payment - leave blank if the customer has not paid yet */}
+                {!editingCustomer && (
+                  <div className="space-y-2">
+                    <Label htmlFor="amount_paid">Amount Received (Optional)</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        id="amount_paid"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="0"
+                        value={formData.amount_paid}
+                        onChange={(e) => setFormData(prev => ({ ...prev, amount_paid: e.target.value }))}
+                        className="bg-input"
+                      />
+                      <Select
+                        value={formData.payment_method}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, payment_method: value }))}
+                      >
+                        <SelectTrigger className="bg-input">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="upi">UPI</SelectItem>
+                          <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                          <SelectItem value="cash">Cash</SelectItem>
+                          <SelectItem value="card">Card</SelectItem>
+                          <SelectItem value="other">Other</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        placeholder="Reference"
+                        value={formData.payment_reference}
+                        onChange={(e) => setFormData(prev => ({ ...prev, payment_reference: e.target.value }))}
+                        className="bg-input"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">Leave blank if unpaid; the customer will show as Unpaid until a payment is recorded</p>
+                  </div>
+                )}
+
+                {/* Daily Verification Limit */}
                 <div className="space-y-2">
-                  <Label htmlFor="subscription_days">Duration (days)</Label>
+                  <Label htmlFor="daily_verification_limit">Daily Verification Limit</Label>
                   <Input
-                    id="subscription_days"
+                    id="daily_verification_limit"
                     type="number"
                     min="1"
-                    value={formData.subscription_days}
-                    onChange={(e) => setFormData(prev => ({ ...prev, subscription_days: e.target.value }))}
+                    value={formData.daily_verification_limit}
+                    onChange={(e) => setFormData(prev => ({ ...prev, daily_verification_limit: e.target.value }))}
                     className="bg-input"
                   />
+                  <p className="text-xs text-muted-foreground">Verification requests allowed per 24 hours</p>
                 </div>
-              </div>
 
-              {/* Purchased From */}
-              <div className="space-y-2">
-                <Label htmlFor="purchased_from">Purchased From (Reseller)</Label>
-                <Input
-                  id="purchased_from"
-                  placeholder="e.g., Reseller name or Direct"
-                  value={formData.purchased_from}
-                  onChange={(e) => setFormData(prev => ({ ...prev, purchased_from: e.target.value }))}
-                  className="bg-input"
-                />
-              </div>
+                {/* Custom Access Code - only show when creating new customer */}
+                {!editingCustomer && (
+                  <div className="space-y-2">
+                    <Label htmlFor="custom_access_code">Access Code (Optional)</Label>
+                    <Input
+                      id="custom_access_code"
+                      placeholder="Leave blank for auto-generated code"
+                      value={formData.custom_access_code}
+                      onChange={(e) => setFormData(prev => ({ ...prev, custom_access_code: e.target.value.replace(/\D/g, '').slice(0, 6) }))}
+                      maxLength={6}
+                      className="bg-input"
+                    />
+                    <p className="text-xs text-muted-foreground">Enter a 6-digit code or leave blank to auto-generate</p>
+                  </div>
+                )}
 
-              {/* Custom Access Code - only show when creating new customer */}
-              {!editingCustomer && (
-                <div className="space-y-2">
-                  <Label htmlFor="custom_access_code">Access Code (Optional)</Label>
-                  <Input
-                    id="custom_access_code"
-                    placeholder="Leave blank for auto-generated code"
-                    value={formData.custom_access_code}
-                    onChange={(e) => setFormData(prev => ({ ...prev, custom_access_code: e.target.value.replace(/\D/g, '').slice(0, 6) }))}
-                    maxLength={6}
-                    className="bg-input"
+                {/* Active Checkbox */}
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="is_active"
+                    checked={formData.is_active}
+                    onChange={(e) => setFormData(prev => ({ ...prev, is_active: e.target.checked }))}
+                    className="rounded border-border"
                   />
-                  <p className="text-xs text-muted-foreground">Enter a 6-digit code or leave blank to auto-generate</p>
+                  <Label htmlFor="is_active" className="cursor-pointer">Active</Label>
                 </div>
-              )}
 
-              {/* Active Checkbox */}
-              <div className="flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  id="is_active"
-                  checked={formData.is_active}
-                  onChange={(e) => setFormData(prev => ({ ...prev, is_active: e.target.checked }))}
-                  className="rounded border-border"
-                />
-                <Label htmlFor="is_active" className="cursor-pointer">Active</Label>
-              </div>
-
-              <DialogFooter>
-                <Button type="button" variant="ghost" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit" variant="netflix">
-                  {editingCustomer ? "Update" : "Create"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <DialogFooter>
+                  <Button type="button" variant="ghost" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" variant="netflix">
+                    {editingCustomer ? "Update" : "Create"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
-      {/* Duration Filter Banner */}
-      {durationFilter && (
+      {/* Plan Filter Banner */}
+      {planFilter && (
         <Card className="bg-primary/10 border-primary/30">
           <CardContent className="py-3">
             <div className="flex items-center justify-between">
               <span className="text-foreground">
-                Showing customers with <strong>{durationFilter}+ days</strong> subscription
+                Showing active customers on{" "}
+                <strong>{planFilter === "custom" ? "a custom duration" : plans.find(p => p.id === planFilter)?.name || "this plan"}</strong>
               </span>
-              <Button variant="ghost" size="sm" onClick={onClearDurationFilter}>
+              <Button variant="ghost" size="sm" onClick={onClearPlanFilter}>
                 <XCircle className="w-4 h-4 mr-2" />
                 Clear Filter
               </Button>
@@ -684,6 +1148,8 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
         onStatusFilterChange={setStatusFilter}
         profileFilter={profileFilter}
         onProfileFilterChange={setProfileFilter}
+        paymentFilter={paymentFilter}
+        onPaymentFilterChange={setPaymentFilter}
       />
 
       {/* Bulk Actions Toolbar */}
@@ -765,7 +1231,7 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="none">Remove Assignment</SelectItem>
-                    {accounts.map(account => (
+                    {accounts.filter(account => account.status === "active").map(account => (
                       <SelectItem key={account.id} value={account.id}>
                         {account.netflix_email}
                       </SelectItem>
@@ -775,6 +1241,7 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
               </div>
               <p className="text-sm text-muted-foreground">
                 Use this to change the Netflix account for customers after monthly rotation.
+                Each active customer gets the next free profile on the new account.
               </p>
             </div>
           )}
@@ -832,12 +1299,14 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
                     <TableHead>End Date</TableHead>
                     <TableHead>Days Left</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>Payment</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {filteredCustomers.map((customer) => {
                     const status = getStatus(customer);
+                    const payment = PAYMENT_BADGES[paymentStatuses[customer.id] || "paid"];
                     const endDate = addDays(new Date(customer.purchase_date), customer.subscription_days);
                     
                     return (
@@ -851,7 +1320,12 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
                         <TableCell className="font-medium">
                           <div className="flex items-center gap-2">
                             <User className="w-4 h-4 text-muted-foreground" />
-                            {customer.name}
+                            <div>
+                              <p>{customer.name}</p>
+                              {customer.plans && (
+                                <p className="text-xs text-muted-foreground font-normal">{customer.plans.name}</p>
+                              )}
+                            </div>
                           </div>
                         </TableCell>
                         <TableCell>
@@ -879,6 +1353,11 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
                         </TableCell>
                         <TableCell className="text-muted-foreground">
                           {customer.netflix_accounts?.netflix_email || "—"}
+                          {customer.netflix_accounts && customer.netflix_accounts.status !== "active" && (
+                            <Badge variant="destructive" className="text-xs ml-2">
+                              {getAccountStatusBadge(customer.netflix_accounts.status).label}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           {customer.profile_number ? (
@@ -888,7 +1367,7 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
                           )}
                         </TableCell>
                         <TableCell className="text-muted-foreground">
-                          {customer.purchased_from || "—"}
+                          {customer.resellers?.name || "—"}
                         </TableCell>
                         <TableCell className="text-muted-foreground">
                           {format(new Date(customer.purchase_date), "MMM d, yyyy")}
@@ -908,8 +1387,43 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
                         <TableCell>
                           <Badge variant={status.variant}>{status.label}</Badge>
                         </TableCell>
+                        <TableCell>
+                          <Badge variant={payment.variant}>{payment.label}</Badge>
+                        </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Payments"
+                              onClick={() => setPaymentsCustomer(customer)}
+                            >
+                              <IndianRupee className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Invoices"
+                              onClick={() => setInvoicesCustomer(customer)}
+                            >
+                              <FileText className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Subscription timeline"
+                              onClick={() => setTimelineCustomer(customer)}
+                            >
+                              <CalendarRange className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Verification history"
+                              onClick={() => setHistoryCustomer(customer)}
+                            >
+                              <History className="w-4 h-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="icon"
@@ -943,6 +1457,43 @@ const CustomersTab = ({ durationFilter, onClearDurationFilter }: CustomersTabPro
         onOpenChange={setMessageDialogOpen}
         data={newCustomerData}
       />
+
+      {/* Verification History Dialog */}
+      <CustomerVerificationHistory
+        open={!!historyCustomer}
+        onOpenChange={(open) => { if (!open) setHistoryCustomer(null); }}
+        customer={historyCustomer}
+      />
+
+      {/* Subscription Timeline Dialog */}
+      <CustomerSubscriptionTimeline
+        open={!!timelineCustomer}
+        onOpenChange={(open) => { if (!open) setTimelineCustomer(null); }}
+        customer={timelineCustomer}
+        onChange={fetchCustomers}
+      />
+
+      {/* Payments Dialog */}
+      <CustomerPaymentsDialog
+        open={!!paymentsCustomer}
+        onOpenChange={(open) => { if (!open) setPaymentsCustomer(null); }}
+        customer={paymentsCustomer}
+        onChange={fetchCustomers}
+      />
+
+      {/* Invoices Dialog */}
+      <CustomerInvoicesDialog
+        open={!!invoicesCustomer}
+        onOpenChange={(open) => { if (!open) setInvoicesCustomer(null); }}
+        customer={invoicesCustomer}
+      />
+
+      {/* Statement Import Dialog */}
+      <StatementImportDialog
+        open={statementDialogOpen}
+        onOpenChange={setStatementDialogOpen}
+        onChange={fetchCustomers}
+      />
     </div>
   );
 };
@@ -6,24 +6,83 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import { getAccountStatusBadge } from "@/lib/accountStatus";
+import { formatPaymentMethod, getNextRenewal, type PaymentMethod } from "@/lib/billing";
 import { toast } from "sonner";
-import { Plus, Edit, Trash2, Mail, Eye, EyeOff, Calendar, CreditCard, Phone, Users } from "lucide-react";
+import { format } from "date-fns";
+import { Plus, Edit, Trash2, Mail, Eye, EyeOff, Calendar, CreditCard, Phone, Users, Link2, RefreshCw, MessageSquare, Copy, ShieldAlert, ArrowRightLeft, Settings2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import AccountStatusDialog from "./AccountStatusDialog";
+import ReplaceAccountDialog from "./ReplaceAccountDialog";
+import ProfileSlotsDialog from "./ProfileSlotsDialog";
+import SlotAssignmentRulesDialog from "./SlotAssignmentRulesDialog";
 
 interface NetflixAccount {
   id: string;
   netflix_email: string;
   netflix_password: string;
   gmail_address: string | null;
+  mailbox_provider: string; // gmail | imap
   account_created_date: string | null;
-  payment_account: string | null;
+  payment_method_id: string | null;
+  payment_methods: PaymentMethod | null;
+  monthly_cost: number | null;
+  paid_through: string | null; // Date the Netflix subscription is paid up to
+  billing_day: number | null; // Day of the month Netflix charges
   phone_number: string | null;
+  status: string; // active | needs_attention | billing_failed | locked | retired
+  status_reason: string | null;
+  status_changed_at: string;
   created_at: string;
+  profile_capacity: number; // Profile slots on this account (1-5)
   customer_count?: number; // Number of customers assigned to this account
+  occupied_slots?: number; // Profile slots held by a customer
 }
 
-const MAX_SLOTS = 6; // Maximum customers per Netflix account
+interface AccountReplacement {
+  id: string;
+  from_account_label: string;
+  to_account_label: string;
+  reason: string | null;
+  moves: unknown[]; // {customer_id, name, from_profile, to_profile} per customer
+  retired_from_account: boolean;
+  created_at: string;
+}
+
+interface MailboxStatus {
+  gmail_address: string;
+  status: string; // connected | expired | revoked | error
+  last_error: string | null;
+  last_checked_at: string | null;
+}
+
+const MAILBOX_STATUS_BADGES: Record<string, { label: string; variant: "default" | "destructive" | "outline" | "secondary" }> = {
+  connected: { label: "Connected", variant: "default" },
+  expired: { label: "Token expired", variant: "destructive" },
+  revoked: { label: "Access revoked", variant: "destructive" },
+  error: { label: "Error", variant: "outline" },
+};
+
+interface SmsForwarder {
+  id: string;
+  phone_number: string; // Digits only
+  label: string | null;
+  is_active: boolean;
+  last_seen_at: string | null;
+}
+
+// Shown once after a device secret is generated; only its hash is stored
+interface SmsForwarderSetup {
+  id: string;
+  phone_number: string;
+  secret: string;
+}
+
+const EMPTY_IMAP_FORM = { host: "", port: "993", use_tls: true, username: "", password: "" };
 
 const NetflixAccountsTab = () => {
   const [accounts, setAccounts] = useState<NetflixAccount[]>([]);
@@ -31,18 +90,40 @@ const NetflixAccountsTab = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingAccount, setEditingAccount] = useState<NetflixAccount | null>(null);
   const [showPasswords, setShowPasswords] = useState<Record<string, boolean>>({});
+  const [mailboxStatuses, setMailboxStatuses] = useState<Record<string, MailboxStatus>>({});
+  const [isCheckingMailboxes, setIsCheckingMailboxes] = useState(false);
+  const [smsForwarders, setSmsForwarders] = useState<Record<string, SmsForwarder>>({});
+  const [smsSetup, setSmsSetup] = useState<SmsForwarderSetup | null>(null);
+  const [statusAccount, setStatusAccount] = useState<NetflixAccount | null>(null);
+  const [replaceAccount, setReplaceAccount] = useState<NetflixAccount | null>(null);
+  const [replacements, setReplacements] = useState<AccountReplacement[]>([]);
+  const [slotsAccount, setSlotsAccount] = useState<NetflixAccount | null>(null);
+  const [rulesDialogOpen, setRulesDialogOpen] = useState(false);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
   
   const [formData, setFormData] = useState({
     netflix_email: "",
     netflix_password: "",
     gmail_address: "",
+    mailbox_provider: "gmail",
     account_created_date: "",
-    payment_account: "",
-    phone_number: ""
+    payment_method_id: "none", // Payment method id, or "none"
+    monthly_cost: "",
+    paid_through: "",
+    billing_day: "",
+    phone_number: "",
+    profile_capacity: "5"
   });
 
+  // IMAP connection settings, saved to imap_mailboxes keyed by the linked mailbox address
+  const [imapForm, setImapForm] = useState(EMPTY_IMAP_FORM);
+
   useEffect(() => {
     fetchAccounts();
+    fetchMailboxStatuses();
+    fetchSmsForwarders();
+    fetchReplacements();
+    fetchPaymentMethods();
   }, []);
 
   const fetchAccounts = async () => {
@@ -50,7 +131,7 @@ const NetflixAccountsTab = () => {
       // Fetch accounts
       const { data: accountsData, error: accountsError } = await supabase
         .from("netflix_accounts")
-        .select("*")
+        .select("*, payment_methods(id, label, method_type, card_last4, card_expiry)")
         .order("created_at", { ascending: false });
 
       if (accountsError) throw accountsError;
@@ -62,6 +143,14 @@ const NetflixAccountsTab = () => {
 
       if (customersError) throw customersError;
 
+      // Fetch occupied profile slots
+      const { data: slotsData, error: slotsError } = await supabase
+        .from("profile_slots")
+        .select("netflix_account_id")
+        .not("customer_id", "is", null);
+
+      if (slotsError) throw slotsError;
+
       // Count customers per account
       const customerCounts: Record<string, number> = {};
       (customersData || []).forEach((customer) => {
@@ -70,10 +159,16 @@ const NetflixAccountsTab = () => {
         }
       });
 
-      // Add customer count to each account
+      const slotCounts: Record<string, number> = {};
+      (slotsData || []).forEach((slot) => {
+        slotCounts[slot.netflix_account_id] = (slotCounts[slot.netflix_account_id] || 0) + 1;
+      });
+
+      // Add customer and slot counts to each account
       const accountsWithCounts = (accountsData || []).map((account) => ({
         ...account,
         customer_count: customerCounts[account.id] || 0,
+        occupied_slots: slotCounts[account.id] || 0,
       }));
 
       setAccounts(accountsWithCounts);
@@ -85,6 +180,181 @@ const NetflixAccountsTab = () => {
     }
   };
 
+  const fetchReplacements = async () => {
+    const { data, error } = await supabase
+      .from("account_replacements")
+      .select("id, from_account_label, to_account_label, reason, moves, retired_from_account, created_at")
+      .order("created_at", { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error("Error fetching account replacements:", error);
+      return;
+    }
+
+    setReplacements((data || []).map((replacement) => ({
+      ...replacement,
+      moves: Array.isArray(replacement.moves) ? replacement.moves : [],
+    })));
+  };
+
+  // Managed in the Billing tab
+  const fetchPaymentMethods = async () => {
+    const { data, error } = await supabase
+      .from("payment_methods")
+      .select("id, label, method_type, card_last4, card_expiry")
+      .order("label");
+
+    if (error) {
+      console.error("Error fetching payment methods:", error);
+      return;
+    }
+    setPaymentMethods(data || []);
+  };
+
+  // Token health for each connected Gmail mailbox (refresh tokens never reach the browser)
+  const fetchMailboxStatuses = async () => {
+    const { data, error } = await supabase.rpc("get_gmail_credential_status");
+
+    if (error) {
+      console.error("Error fetching mailbox status:", error);
+      return;
+    }
+
+    const statuses: Record<string, MailboxStatus> = {};
+    (data || []).forEach((mailbox) => {
+      statuses[mailbox.gmail_address] = mailbox;
+    });
+    setMailboxStatuses(statuses);
+  };
+
+  // Redirects to Google's consent screen; Google sends the admin back to /admin afterwards
+  const connectMailbox = async (gmailAddress: string) => {
+    try {
+      const response = await supabase.functions.invoke("gmail-oauth", {
+        body: {
+          action: "start",
+          gmail_address: gmailAddress,
+          return_to: `${window.location.origin}/admin`,
+        },
+      });
+
+      if (response.error) throw new Error(response.error.message);
+      if (response.data?.error) throw new Error(response.data.error);
+
+      window.location.href = response.data.url;
+    } catch (error) {
+      console.error("Error starting mailbox authorization:", error);
+      toast.error("Failed to start Gmail authorization");
+    }
+  };
+
+  const checkMailboxes = async () => {
+    setIsCheckingMailboxes(true);
+    try {
+      const response = await supabase.functions.invoke("gmail-oauth", {
+        body: { action: "check" },
+      });
+
+      if (response.error) throw new Error(response.error.message);
+      if (response.data?.error) throw new Error(response.data.error);
+
+      const unhealthy = (response.data.mailboxes || []).filter(
+        (mailbox: { status: string }) => mailbox.status !== "connected"
+      );
+      if (unhealthy.length > 0) {
+        toast.warning(`${unhealthy.length} mailbox${unhealthy.length !== 1 ? "es need" : " needs"} re-authorization`);
+      } else {
+        toast.success("All connected mailboxes are healthy");
+      }
+      fetchMailboxStatuses();
+    } catch (error) {
+      console.error("Error checking mailboxes:", error);
+      toast.error("Failed to check mailbox health");
+    } finally {
+      setIsCheckingMailboxes(false);
+    }
+  };
+
+  // SMS forwarder devices keyed by the digits of the phone number they hold
+  const fetchSmsForwarders = async () => {
+    const { data, error } = await supabase
+      .from("sms_forwarders")
+      .select("id, phone_number, label, is_active, last_seen_at");
+
+    if (error) {
+      console.error("Error fetching SMS forwarders:", error);
+      return;
+    }
+
+    const forwarders: Record<string, SmsForwarder> = {};
+    (data || []).forEach((forwarder) => {
+      forwarders[forwarder.phone_number] = forwarder;
+    });
+    setSmsForwarders(forwarders);
+  };
+
+  // Registers the device for this phone number, or rotates its secret
+  const setupSmsForwarder = async (account: NetflixAccount) => {
+    const phoneNumber = (account.phone_number || "").replace(/\D/g, "");
+    if (phoneNumber.length < 7) {
+      toast.error("Enter a valid phone number for this account first");
+      return;
+    }
+
+    try {
+      const secretBytes = crypto.getRandomValues(new Uint8Array(24));
+      const secret = Array.from(secretBytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+      const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+      const secretHash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+      const { data, error } = await supabase
+        .from("sms_forwarders")
+        .upsert(
+          { phone_number: phoneNumber, label: account.netflix_email || null, secret_hash: secretHash, is_active: true },
+          { onConflict: "phone_number" }
+        )
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      setSmsSetup({ id: data.id, phone_number: phoneNumber, secret });
+      fetchSmsForwarders();
+    } catch (error) {
+      console.error("Error setting up SMS forwarder:", error);
+      toast.error("Failed to set up SMS forwarder");
+    }
+  };
+
+  // Reactivates an account flagged by the account-security-monitor and acknowledges its events
+  const resolveSecurityFlag = async (account: NetflixAccount) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error: eventsError } = await supabase
+        .from("account_events")
+        .update({ acknowledged_at: new Date().toISOString(), acknowledged_by: user?.id ?? null })
+        .eq("netflix_account_id", account.id)
+        .is("acknowledged_at", null);
+
+      if (eventsError) throw eventsError;
+
+      const { error } = await supabase
+        .from("netflix_accounts")
+        .update({ status: "active", status_reason: null })
+        .eq("id", account.id);
+
+      if (error) throw error;
+
+      toast.success("Account marked as resolved");
+      fetchAccounts();
+    } catch (error) {
+      console.error("Error resolving security flag:", error);
+      toast.error("Failed to resolve account alert");
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -98,7 +368,22 @@ const NetflixAccountsTab = () => {
       return;
     }
 
+    if (formData.mailbox_provider === "imap" && !formData.gmail_address) {
+      toast.error("Mailbox address is required for IMAP");
+      return;
+    }
+
+    const billingDay = formData.billing_day ? parseInt(formData.billing_day) : null;
+    if (billingDay !== null && !(billingDay >= 1 && billingDay <= 31)) {
+      toast.error("Billing day must be between 1 and 31");
+      return;
+    }
+
     try {
+      if (formData.mailbox_provider === "imap") {
+        await saveImapSettings(formData.gmail_address);
+      }
+
       if (editingAccount) {
         const { error } = await supabase
           .from("netflix_accounts")
@@ -106,9 +391,14 @@ const NetflixAccountsTab = () => {
             netflix_email: formData.netflix_email,
             netflix_password: formData.netflix_password,
             gmail_address: formData.gmail_address || null,
+            mailbox_provider: formData.mailbox_provider,
             account_created_date: formData.account_created_date || null,
-            payment_account: formData.payment_account || null,
-            phone_number: formData.phone_number || null
+            payment_method_id: formData.payment_method_id === "none" ? null : formData.payment_method_id,
+            monthly_cost: formData.monthly_cost ? parseFloat(formData.monthly_cost) : null,
+            paid_through: formData.paid_through || null,
+            billing_day: billingDay,
+            phone_number: formData.phone_number || null,
+            profile_capacity: parseInt(formData.profile_capacity)
           })
           .eq("id", editingAccount.id);
 
@@ -121,9 +411,14 @@ const NetflixAccountsTab = () => {
             netflix_email: formData.netflix_email,
             netflix_password: formData.netflix_password,
             gmail_address: formData.gmail_address || null,
+            mailbox_provider: formData.mailbox_provider,
             account_created_date: formData.account_created_date || null,
-            payment_account: formData.payment_account || null,
-            phone_number: formData.phone_number || null
+            payment_method_id: formData.payment_method_id === "none" ? null : formData.payment_method_id,
+            monthly_cost: formData.monthly_cost ? parseFloat(formData.monthly_cost) : null,
+            paid_through: formData.paid_through || null,
+            billing_day: billingDay,
+            phone_number: formData.phone_number || null,
+            profile_capacity: parseInt(formData.profile_capacity)
           });
 
         if (error) throw error;
@@ -157,22 +452,80 @@ const NetflixAccountsTab = () => {
     }
   };
 
+  // The password column is write-only for admins; leave it blank when editing to keep the stored one
+  const saveImapSettings = async (address: string) => {
+    const normalizedAddress = address.trim().toLowerCase();
+    const settings = {
+      host: imapForm.host.trim(),
+      port: parseInt(imapForm.port),
+      use_tls: imapForm.use_tls,
+      username: imapForm.username.trim() || normalizedAddress,
+    };
+
+    if (!settings.host || !settings.port) {
+      throw new Error("IMAP host and port are required");
+    }
+
+    const { data: existing, error: lookupError } = await supabase
+      .from("imap_mailboxes")
+      .select("id")
+      .eq("address", normalizedAddress)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    if (existing) {
+      const { error } = await supabase
+        .from("imap_mailboxes")
+        .update(imapForm.password ? { ...settings, password: imapForm.password } : settings)
+        .eq("id", existing.id);
+      if (error) throw error;
+    } else {
+      if (!imapForm.password) {
+        throw new Error("IMAP password is required");
+      }
+      const { error } = await supabase
+        .from("imap_mailboxes")
+        .insert({ ...settings, address: normalizedAddress, password: imapForm.password });
+      if (error) throw error;
+    }
+  };
+
   const resetForm = () => {
-    setFormData({ netflix_email: "", netflix_password: "", gmail_address: "", account_created_date: "", payment_account: "", phone_number: "" });
+    setFormData({ netflix_email: "", netflix_password: "", gmail_address: "", mailbox_provider: "gmail", account_created_date: "", payment_method_id: "none", monthly_cost: "", paid_through: "", billing_day: "", phone_number: "", profile_capacity: "5" });
+    setImapForm(EMPTY_IMAP_FORM);
     setEditingAccount(null);
   };
 
-  const openEditDialog = (account: NetflixAccount) => {
+  const openEditDialog = async (account: NetflixAccount) => {
     setEditingAccount(account);
     setFormData({
       netflix_email: account.netflix_email,
       netflix_password: account.netflix_password,
       gmail_address: account.gmail_address || "",
+      mailbox_provider: account.mailbox_provider || "gmail",
       account_created_date: account.account_created_date || "",
-      payment_account: account.payment_account || "",
-      phone_number: account.phone_number || ""
+      payment_method_id: account.payment_method_id || "none",
+      monthly_cost: account.monthly_cost?.toString() || "",
+      paid_through: account.paid_through || "",
+      billing_day: account.billing_day?.toString() || "",
+      phone_number: account.phone_number || "",
+      profile_capacity: account.profile_capacity.toString()
     });
+    setImapForm(EMPTY_IMAP_FORM);
     setIsDialogOpen(true);
+
+    if (account.mailbox_provider === "imap" && account.gmail_address) {
+      const { data } = await supabase
+        .from("imap_mailboxes")
+        .select("host, port, use_tls, username")
+        .eq("address", account.gmail_address.toLowerCase())
+        .maybeSingle();
+
+      if (data) {
+        setImapForm({ host: data.host, port: data.port.toString(), use_tls: data.use_tls, username: data.username, password: "" });
+      }
+    }
   };
 
   const togglePasswordVisibility = (id: string) => {
@@ -186,104 +539,247 @@ const NetflixAccountsTab = () => {
           <h2 className="font-display text-3xl tracking-wide text-foreground">Netflix Accounts</h2>
           <p className="text-muted-foreground mt-1">Manage streaming account credentials</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
-          <DialogTrigger asChild>
-            <Button variant="netflix">
-              <Plus className="w-4 h-4 mr-2" />
-              Add Account
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="bg-card border-border">
-            <DialogHeader>
-              <DialogTitle className="font-display text-2xl tracking-wide">
-                {editingAccount ? "Edit Account" : "Add Netflix Account"}
-              </DialogTitle>
-              <DialogDescription>
-                {editingAccount ? "Update the account details below" : "Enter the Netflix account credentials"}
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="netflix_email">Netflix Email (or Phone)</Label>
-                <Input
-                  id="netflix_email"
-                  type="text"
-                  placeholder="email@example.com or phone number"
-                  value={formData.netflix_email}
-                  onChange={(e) => setFormData(prev => ({ ...prev, netflix_email: e.target.value }))}
-                  className="bg-input"
-                />
-                <p className="text-xs text-muted-foreground">Enter email or phone number below</p>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="netflix_password">Netflix Password</Label>
-                <Input
-                  id="netflix_password"
-                  type="text"
-                  placeholder="Enter password"
-                  value={formData.netflix_password}
-                  onChange={(e) => setFormData(prev => ({ ...prev, netflix_password: e.target.value }))}
-                  className="bg-input"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="gmail_address">Linked Gmail (Optional)</Label>
-                <Input
-                  id="gmail_address"
-                  type="email"
-                  placeholder="linked@gmail.com"
-                  value={formData.gmail_address}
-                  onChange={(e) => setFormData(prev => ({ ...prev, gmail_address: e.target.value }))}
-                  className="bg-input"
-                />
-                <p className="text-xs text-muted-foreground">
-                  Gmail used for Netflix verification emails
-                </p>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="account_created_date">Account Created Date (Optional)</Label>
-                <Input
-                  id="account_created_date"
-                  type="date"
-                  value={formData.account_created_date}
-                  onChange={(e) => setFormData(prev => ({ ...prev, account_created_date: e.target.value }))}
-                  className="bg-input"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="payment_account">Payment Account (Optional)</Label>
-                <Input
-                  id="payment_account"
-                  type="text"
-                  placeholder="e.g., PayPal, Card ending 1234"
-                  value={formData.payment_account}
-                  onChange={(e) => setFormData(prev => ({ ...prev, payment_account: e.target.value }))}
-                  className="bg-input"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="phone_number">Netflix Phone Number (or Email above)</Label>
-                <Input
-                  id="phone_number"
-                  type="tel"
-                  placeholder="e.g., +1234567890"
-                  value={formData.phone_number}
-                  onChange={(e) => setFormData(prev => ({ ...prev, phone_number: e.target.value }))}
-                  className="bg-input"
-                />
-                <p className="text-xs text-muted-foreground">Use this instead of email if account uses phone login</p>
-              </div>
-              <DialogFooter>
-                <Button type="button" variant="ghost" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit" variant="netflix">
-                  {editingAccount ? "Update" : "Create"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setRulesDialogOpen(true)}>
+            <Settings2 className="w-4 h-4 mr-2" />
+            Assignment Rules
+          </Button>
+          <Button variant="outline" onClick={checkMailboxes} disabled={isCheckingMailboxes}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isCheckingMailboxes ? "animate-spin" : ""}`} />
+            Check Mailboxes
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+            <DialogTrigger asChild>
+              <Button variant="netflix">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Account
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-card border-border">
+              <DialogHeader>
+                <DialogTitle className="font-display text-2xl tracking-wide">
+                  {editingAccount ? "Edit Account" : "Add Netflix Account"}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingAccount ? "Update the account details below" : "Enter the Netflix account credentials"}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="netflix_email">Netflix Email (or Phone)</Label>
+                  <Input
+                    id="netflix_email"
+                    type="text"
+                    placeholder="email@example.com or phone number"
+                    value={formData.netflix_email}
+                    onChange={(e) => setFormData(prev => ({ ...prev, netflix_email: e.target.value }))}
+                    className="bg-input"
+                  />
+                  <p className="text-xs text-muted-foreground">Enter email or phone number below</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="netflix_password">Netflix Password</Label>
+                  <Input
+                    id="netflix_password"
+                    type="text"
+                    placeholder="Enter password"
+                    value={formData.netflix_password}
+                    onChange={(e) => setFormData(prev => ({ ...prev, netflix_password: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mailbox_provider">Mailbox Provider</Label>
+                  <Select
+                    value={formData.mailbox_provider}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, mailbox_provider: value }))}
+                  >
+                    <SelectTrigger id="mailbox_provider" className="bg-input">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="gmail">Gmail (OAuth)</SelectItem>
+                      <SelectItem value="imap">IMAP (Outlook, custom domain)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="gmail_address">Linked Mailbox (Optional)</Label>
+                  <Input
+                    id="gmail_address"
+                    type="email"
+                    placeholder={formData.mailbox_provider === "imap" ? "linked@outlook.com" : "linked@gmail.com"}
+                    value={formData.gmail_address}
+                    onChange={(e) => setFormData(prev => ({ ...prev, gmail_address: e.target.value }))}
+                    className="bg-input"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Mailbox used for Netflix verification emails
+                  </p>
+                </div>
+                {formData.mailbox_provider === "imap" && (
+                  <div className="space-y-4 rounded-lg border border-border p-3">
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="col-span-2 space-y-2">
+                        <Label htmlFor="imap_host">IMAP Host</Label>
+                        <Input
+                          id="imap_host"
+                          placeholder="outlook.office365.com"
+                          value={imapForm.host}
+                          onChange={(e) => setImapForm(prev => ({ ...prev, host: e.target.value }))}
+                          className="bg-input"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="imap_port">Port</Label>
+                        <Input
+                          id="imap_port"
+                          type="number"
+                          min="1"
+                          value={imapForm.port}
+                          onChange={(e) => setImapForm(prev => ({ ...prev, port: e.target.value }))}
+                          className="bg-input"
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="imap_username">Username</Label>
+                      <Input
+                        id="imap_username"
+                        placeholder="Defaults to the mailbox address"
+                        value={imapForm.username}
+                        onChange={(e) => setImapForm(prev => ({ ...prev, username: e.target.value }))}
+                        className="bg-input"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="imap_password">Password / App Password</Label>
+                      <Input
+                        id="imap_password"
+                        type="password"
+                        placeholder={editingAccount ? "Leave blank to keep current" : "Enter password"}
+                        value={imapForm.password}
+                        onChange={(e) => setImapForm(prev => ({ ...prev, password: e.target.value }))}
+                        className="bg-input"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="imap_use_tls"
+                        checked={imapForm.use_tls}
+                        onCheckedChange={(checked) => setImapForm(prev => ({ ...prev, use_tls: checked === true }))}
+                      />
+                      <Label htmlFor="imap_use_tls" className="text-xs text-muted-foreground cursor-pointer">
+                        Use TLS (disable only for local test servers)
+                      </Label>
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="account_created_date">Account Created Date (Optional)</Label>
+                  <Input
+                    id="account_created_date"
+                    type="date"
+                    value={formData.account_created_date}
+                    onChange={(e) => setFormData(prev => ({ ...prev, account_created_date: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Payment Method (Optional)</Label>
+                  <Select value={formData.payment_method_id} onValueChange={(value) => setFormData(prev => ({ ...prev, payment_method_id: value }))}>
+                    <SelectTrigger className="bg-input">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not set</SelectItem>
+                      {paymentMethods.map((method) => (
+                        <SelectItem key={method.id} value={method.id}>{formatPaymentMethod(method)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Add cards and autopay mandates in the Billing tab</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="billing_day">Billing Day (Optional)</Label>
+                  <Input
+                    id="billing_day"
+                    type="number"
+                    min="1"
+                    max="31"
+                    placeholder="Day of the month Netflix charges, e.g. 15"
+                    value={formData.billing_day}
+                    onChange={(e) => setFormData(prev => ({ ...prev, billing_day: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="monthly_cost">Monthly Cost (Optional)</Label>
+                  <Input
+                    id="monthly_cost"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Charged to the payment method each month"
+                    value={formData.monthly_cost}
+                    onChange={(e) => setFormData(prev => ({ ...prev, monthly_cost: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="paid_through">Paid Through (Optional)</Label>
+                  <Input
+                    id="paid_through"
+                    type="date"
+                    value={formData.paid_through}
+                    onChange={(e) => setFormData(prev => ({ ...prev, paid_through: e.target.value }))}
+                    className="bg-input"
+                  />
+                  <p className="text-xs text-muted-foreground">Auto-assign matches customers to accounts paid through their expiry</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="phone_number">Netflix Phone Number (or Email above)</Label>
+                  <Input
+                    id="phone_number"
+                    type="tel"
+                    placeholder="e.g., +1234567890"
+                    value={formData.phone_number}
+                    onChange={(e) => setFormData(prev => ({ ...prev, phone_number: e.target.value }))}
+                    className="bg-input"
+                  />
+                  <p className="text-xs text-muted-foreground">Use this instead of email if account uses phone login</p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Profile Slots</Label>
+                  <Select
+                    value={formData.profile_capacity}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, profile_capacity: value }))}
+                  >
+                    <SelectTrigger className="bg-input">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {["1", "2", "3", "4", "5"].map((capacity) => (
+                        <SelectItem key={capacity} value={capacity}>
+                          {capacity} profile{capacity !== "1" ? "s" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">How many customers this account can hold, one per profile</p>
+                </div>
+                <DialogFooter>
+                  <Button type="button" variant="ghost" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" variant="netflix">
+                    {editingAccount ? "Update" : "Create"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Card className="glass">
@@ -301,10 +797,10 @@ const NetflixAccountsTab = () => {
                   <TableHead>Netflix Email</TableHead>
                   <TableHead>Slots Used</TableHead>
                   <TableHead>Password</TableHead>
-                  <TableHead>Linked Gmail</TableHead>
+                  <TableHead>Linked Mailbox</TableHead>
                   <TableHead>Phone</TableHead>
                   <TableHead>Created Date</TableHead>
-                  <TableHead>Payment Account</TableHead>
+                  <TableHead>Billing</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -316,28 +812,73 @@ const NetflixAccountsTab = () => {
                         <Mail className="w-4 h-4 text-muted-foreground" />
                         {account.netflix_email || account.phone_number}
                       </div>
+                      {account.status !== "active" && (() => {
+                        const badge = getAccountStatusBadge(account.status);
+                        return (
+                          <div className="mt-1 space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Badge
+                                variant={badge.variant}
+                                className="text-xs"
+                                title={`Since ${new Date(account.status_changed_at).toLocaleString()}`}
+                              >
+                                <ShieldAlert className="w-3 h-3 mr-1" />
+                                {badge.label}
+                              </Badge>
+                              {(account.status === "needs_attention" || account.status === "billing_failed") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={() => resolveSecurityFlag(account)}
+                                >
+                                  Mark resolved
+                                </Button>
+                              )}
+                            </div>
+                            {account.status_reason && (
+                              <p className="text-xs text-muted-foreground font-normal">{account.status_reason}</p>
+                            )}
+                          </div>
+                        );
+                      })()}
                     </TableCell>
                     <TableCell>
-                      <div className="flex flex-col gap-1 min-w-[100px]">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-1">
-                            <Users className="w-4 h-4 text-muted-foreground" />
-                            <span className="text-sm font-medium">
-                              {account.customer_count || 0}/{MAX_SLOTS}
-                            </span>
+                      {(() => {
+                        const used = account.occupied_slots || 0;
+                        const free = account.profile_capacity - used;
+                        const withoutProfile = (account.customer_count || 0) - used;
+                        return (
+                          <div className="flex flex-col gap-1 min-w-[100px]">
+                            <div className="flex items-center justify-between">
+                              <button
+                                type="button"
+                                className="flex items-center gap-1 hover:text-primary"
+                                title="Manage profiles"
+                                onClick={() => setSlotsAccount(account)}
+                              >
+                                <Users className="w-4 h-4 text-muted-foreground" />
+                                <span className="text-sm font-medium">
+                                  {used}/{account.profile_capacity}
+                                </span>
+                              </button>
+                              <Badge
+                                variant={free <= 0 ? "destructive" : free === 1 ? "outline" : "default"}
+                                className="text-xs"
+                              >
+                                {free <= 0 ? "Full" : `${free} free`}
+                              </Badge>
+                            </div>
+                            <Progress
+                              value={(used / account.profile_capacity) * 100}
+                              className="h-1.5"
+                            />
+                            {withoutProfile > 0 && (
+                              <p className="text-xs text-muted-foreground">+{withoutProfile} without a profile</p>
+                            )}
                           </div>
-                          <Badge 
-                            variant={(account.customer_count || 0) >= MAX_SLOTS ? "destructive" : (account.customer_count || 0) >= 5 ? "outline" : "default"}
-                            className="text-xs"
-                          >
-                            {(account.customer_count || 0) >= MAX_SLOTS ? "Full" : `${MAX_SLOTS - (account.customer_count || 0)} free`}
-                          </Badge>
-                        </div>
-                        <Progress 
-                          value={((account.customer_count || 0) / MAX_SLOTS) * 100} 
-                          className="h-1.5"
-                        />
-                      </div>
+                        );
+                      })()}
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
@@ -359,13 +900,69 @@ const NetflixAccountsTab = () => {
                       </div>
                     </TableCell>
                     <TableCell className="text-muted-foreground">
-                      {account.gmail_address || "—"}
+                      {account.gmail_address && account.mailbox_provider === "imap" ? (
+                        <div className="flex flex-col gap-1">
+                          <span>{account.gmail_address}</span>
+                          <Badge variant="outline" className="text-xs w-fit">IMAP</Badge>
+                        </div>
+                      ) : account.gmail_address ? (() => {
+                        const mailbox = mailboxStatuses[account.gmail_address.toLowerCase()];
+                        const badge = mailbox ? MAILBOX_STATUS_BADGES[mailbox.status] : null;
+                        return (
+                          <div className="flex flex-col gap-1">
+                            <span>{account.gmail_address}</span>
+                            <div className="flex items-center gap-2">
+                              <Badge
+                                variant={badge?.variant || "secondary"}
+                                className="text-xs"
+                                title={mailbox?.last_error || undefined}
+                              >
+                                {badge?.label || "Not connected"}
+                              </Badge>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={() => connectMailbox(account.gmail_address!)}
+                              >
+                                <Link2 className="w-3 h-3 mr-1" />
+                                {mailbox ? "Re-authorize" : "Connect"}
+                              </Button>
+                            </div>
+                          </div>
+                        );
+                      })() : "—"}
                     </TableCell>
                     <TableCell className="text-muted-foreground">
                       <div className="flex items-center gap-2">
                         <Phone className="w-4 h-4" />
                         {account.phone_number || "—"}
                       </div>
+                      {account.phone_number && (() => {
+                        const forwarder = smsForwarders[account.phone_number.replace(/\D/g, "")];
+                        return (
+                          <div className="flex items-center gap-2 mt-1">
+                            {forwarder && (
+                              <Badge
+                                variant={forwarder.last_seen_at ? "default" : "secondary"}
+                                className="text-xs"
+                                title={forwarder.last_seen_at ? `Last SMS ${new Date(forwarder.last_seen_at).toLocaleString()}` : undefined}
+                              >
+                                {forwarder.last_seen_at ? "SMS active" : "SMS waiting"}
+                              </Badge>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => setupSmsForwarder(account)}
+                            >
+                              <MessageSquare className="w-3 h-3 mr-1" />
+                              {forwarder ? "New secret" : "Set up SMS"}
+                            </Button>
+                          </div>
+                        );
+                      })()}
                     </TableCell>
                     <TableCell className="text-muted-foreground">
                       <div className="flex items-center gap-2">
@@ -376,11 +973,39 @@ const NetflixAccountsTab = () => {
                     <TableCell className="text-muted-foreground">
                       <div className="flex items-center gap-2">
                         <CreditCard className="w-4 h-4" />
-                        {account.payment_account || "—"}
+                        {account.payment_methods ? formatPaymentMethod(account.payment_methods) : "—"}
                       </div>
+                      {account.monthly_cost !== null && (
+                        <p className="text-xs mt-1">{formatCurrency(account.monthly_cost)}/month</p>
+                      )}
+                      {account.paid_through && (
+                        <p className="text-xs mt-1">Paid through {account.paid_through}</p>
+                      )}
+                      {(() => {
+                        const renewal = getNextRenewal(account);
+                        return renewal && <p className="text-xs mt-1">Renews {format(renewal, "dd MMM yyyy")}</p>;
+                      })()}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Change status"
+                          onClick={() => setStatusAccount(account)}
+                        >
+                          <ShieldAlert className="w-4 h-4" />
+                        </Button>
+                        {(account.customer_count || 0) > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Replace account"
+                            onClick={() => setReplaceAccount(account)}
+                          >
+                            <ArrowRightLeft className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -405,6 +1030,97 @@ const NetflixAccountsTab = () => {
           )}
         </CardContent>
       </Card>
+
+      {replacements.length > 0 && (
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle className="font-display text-xl tracking-wide">Recent Replacements</CardTitle>
+            <CardDescription>Customers moved off failing accounts</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {replacements.map((replacement) => (
+              <div key={replacement.id} className="bg-muted/30 rounded-lg p-3 border border-border/50 text-sm">
+                <p className="font-medium">
+                  {replacement.from_account_label} → {replacement.to_account_label}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(replacement.created_at).toLocaleString()} · {replacement.moves.length} customer{replacement.moves.length !== 1 ? "s" : ""} moved
+                  {replacement.retired_from_account && " · old account retired"}
+                  {replacement.reason && ` · ${replacement.reason}`}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <AccountStatusDialog
+        open={!!statusAccount}
+        onOpenChange={(open) => { if (!open) setStatusAccount(null); }}
+        account={statusAccount}
+        onChange={fetchAccounts}
+      />
+
+      <SlotAssignmentRulesDialog open={rulesDialogOpen} onOpenChange={setRulesDialogOpen} />
+
+      <ProfileSlotsDialog
+        open={!!slotsAccount}
+        onOpenChange={(open) => { if (!open) setSlotsAccount(null); }}
+        account={slotsAccount}
+      />
+
+      <ReplaceAccountDialog
+        open={!!replaceAccount}
+        onOpenChange={(open) => { if (!open) setReplaceAccount(null); }}
+        account={replaceAccount}
+        onChange={() => {
+          fetchAccounts();
+          fetchReplacements();
+        }}
+      />
+
+      <Dialog open={!!smsSetup} onOpenChange={(open) => { if (!open) setSmsSetup(null); }}>
+        <DialogContent className="bg-card border-border">
+          <DialogHeader>
+            <DialogTitle className="font-display text-2xl tracking-wide">SMS Forwarder</DialogTitle>
+            <DialogDescription>
+              Configure the SMS-forwarder app on the phone holding +{smsSetup?.phone_number}. The secret is shown only once.
+            </DialogDescription>
+          </DialogHeader>
+          {smsSetup && (
+            <div className="space-y-3 text-sm">
+              {[
+                { label: "Webhook URL (POST)", value: `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sms-webhook` },
+                { label: "Header X-Forwarder-Id", value: smsSetup.id },
+                { label: "Header X-Forwarder-Secret", value: smsSetup.secret },
+                { label: "JSON body", value: '{"from":"%from%","text":"%text%"}' },
+              ].map((field) => (
+                <div key={field.label} className="space-y-1">
+                  <Label>{field.label}</Label>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 break-all rounded bg-muted px-2 py-1 text-xs">{field.value}</code>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        navigator.clipboard.writeText(field.value);
+                        toast.success(`${field.label} copied`);
+                      }}
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="netflix" onClick={() => setSmsSetup(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -9,7 +9,15 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
-import { differenceInDays, addDays, parseISO } from "date-fns";
+import { getRotationDue, formatRotationDue, rotationKey } from "@/lib/rotation";
+import {
+  CARD_EXPIRY_ALERT_DAYS,
+  RENEWAL_ALERT_DAYS,
+  formatPaymentMethod,
+  getCardExpiryEnd,
+  getNextRenewal,
+} from "@/lib/billing";
+import { differenceInDays, addDays, parseISO, format, formatDistanceToNow, startOfDay } from "date-fns";
 
 interface Customer {
   id: string;
@@ -17,21 +25,50 @@ interface Customer {
   subscription_days: number;
   purchase_date: string;
   is_active: boolean;
+  netflix_account_id: string | null;
 }
 
 interface Notification {
   id: string;
-  type: "rotation" | "expiring";
+  type: "rotation" | "expiring" | "security" | "billing" | "renewal" | "card";
   customerName: string;
   message: string;
   daysLeft: number;
+  accountId?: string;
+}
+
+interface AccountEvent {
+  id: string;
+  netflix_account_id: string | null;
+  mailbox_address: string;
+  event_type: string;
+  occurred_at: string;
+  netflix_accounts: { netflix_email: string | null } | null;
 }
 
+const EVENT_MESSAGES: Record<string, string> = {
+  new_sign_in: "New sign-in detected",
+  password_changed: "Password was changed",
+  payment_failed: "Netflix payment failed",
+};
+
+const NOTIFICATION_LABELS: Record<Notification["type"], string> = {
+  rotation: "Rotation",
+  expiring: "Expiring",
+  security: "Security",
+  billing: "Billing",
+  renewal: "Renewal",
+  card: "Card",
+};
+
 interface NotificationBellProps {
   onCustomerClick?: (customerId: string) => void;
+  onAccountClick?: (accountId: string | null) => void;
+  onRotationClick?: () => void;
+  onBillingClick?: () => void;
 }
 
-const NotificationBell = ({ onCustomerClick }: NotificationBellProps) => {
+const NotificationBell = ({ onCustomerClick, onAccountClick, onRotationClick, onBillingClick }: NotificationBellProps) => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isOpen, setIsOpen] = useState(false);
 
@@ -50,6 +87,15 @@ const NotificationBell = ({ onCustomerClick }: NotificationBellProps) => {
       return;
     }
 
+    const { data: rotations, error: rotationsError } = await supabase
+      .from("account_rotations")
+      .select("customer_id, cycle_number");
+
+    if (rotationsError) {
+      console.error("Error fetching account rotations for notifications:", rotationsError);
+    }
+
+    const completedRotations = new Set((rotations || []).map((row) => rotationKey(row.customer_id, row.cycle_number)));
     const today = new Date();
     const newNotifications: Notification[] = [];
 
@@ -58,21 +104,16 @@ const NotificationBell = ({ onCustomerClick }: NotificationBellProps) => {
       const expiryDate = addDays(purchaseDate, customer.subscription_days);
       const daysUntilExpiry = differenceInDays(expiryDate, today);
 
-      // For 30+ day subscribers, check if they're within 7 days of their monthly rotation
-      if (customer.subscription_days >= 30) {
-        const daysSincePurchase = differenceInDays(today, purchaseDate);
-        const daysInCurrentMonth = daysSincePurchase % 30;
-        const daysUntilRotation = 30 - daysInCurrentMonth;
-
-        if (daysUntilRotation <= 7 && daysUntilRotation > 0) {
-          newNotifications.push({
-            id: `rotation-${customer.id}`,
-            type: "rotation",
-            customerName: customer.name,
-            message: `Account rotation needed in ${daysUntilRotation} day${daysUntilRotation !== 1 ? "s" : ""}`,
-            daysLeft: daysUntilRotation,
-          });
-        }
+      // Rotations already applied for this cycle are skipped
+      const rotation = getRotationDue(customer, completedRotations, today);
+      if (rotation) {
+        newNotifications.push({
+          id: `rotation-${customer.id}`,
+          type: "rotation",
+          customerName: customer.name,
+          message: `Account rotation ${formatRotationDue(rotation.daysLeft)}`,
+          daysLeft: rotation.daysLeft,
+        });
       }
 
       // Check for subscriptions expiring soon (within 7 days)
@@ -87,6 +128,87 @@ const NotificationBell = ({ onCustomerClick }: NotificationBellProps) => {
       }
     });
 
+    // Unresolved security notices from the account-security-monitor are always urgent
+    const { data: events, error: eventsError } = await supabase
+      .from("account_events")
+      .select("id, netflix_account_id, mailbox_address, event_type, occurred_at, netflix_accounts(netflix_email)")
+      .is("acknowledged_at", null)
+      .order("occurred_at", { ascending: false });
+
+    if (eventsError) {
+      console.error("Error fetching account events for notifications:", eventsError);
+    }
+
+    (events as AccountEvent[] | null)?.forEach((event) => {
+      newNotifications.push({
+        id: `event-${event.id}`,
+        type: event.event_type === "payment_failed" ? "billing" : "security",
+        customerName: event.netflix_accounts?.netflix_email || event.mailbox_address,
+        message: `${EVENT_MESSAGES[event.event_type] || "Account alert"} ${formatDistanceToNow(parseISO(event.occurred_at), { addSuffix: true })}`,
+        daysLeft: 0,
+        accountId: event.netflix_account_id ?? undefined,
+      });
+    });
+
+    // Accounts renewing soon that customers still need after the renewal date
+    const { data: accounts, error: accountsError } = await supabase
+      .from("netflix_accounts")
+      .select("id, netflix_email, phone_number, billing_day, paid_through, status, payment_methods(id, label, method_type, card_last4, card_expiry)")
+      .neq("status", "retired");
+
+    if (accountsError) {
+      console.error("Error fetching accounts for notifications:", accountsError);
+    }
+
+    const startOfToday = startOfDay(today);
+    accounts?.forEach((account) => {
+      const renewal = getNextRenewal(account, today);
+      if (!renewal) return;
+
+      const daysUntilRenewal = differenceInDays(renewal, startOfToday);
+      if (daysUntilRenewal > RENEWAL_ALERT_DAYS) return;
+
+      const customersAfter = (customers || []).filter(
+        (customer: Customer) =>
+          customer.netflix_account_id === account.id &&
+          addDays(parseISO(customer.purchase_date), customer.subscription_days) > renewal
+      ).length;
+      if (customersAfter === 0) return;
+
+      newNotifications.push({
+        id: `renewal-${account.id}`,
+        type: "renewal",
+        customerName: account.netflix_email || account.phone_number || "Netflix account",
+        message: `Renews ${format(renewal, "dd MMM")} while ${customersAfter} customer${customersAfter !== 1 ? "s are" : " is"} still active`,
+        daysLeft: daysUntilRenewal,
+        accountId: account.id,
+      });
+    });
+
+    // Cards that expire soon while still paying for an account
+    const cardsInUse = new Map(
+      (accounts || [])
+        .flatMap((account) => (account.payment_methods ? [account.payment_methods] : []))
+        .map((method) => [method.id, method])
+    );
+    cardsInUse.forEach((method) => {
+      const expiryEnd = getCardExpiryEnd(method);
+      if (!expiryEnd) return;
+
+      const daysUntilCardExpiry = differenceInDays(expiryEnd, startOfToday);
+      if (daysUntilCardExpiry > CARD_EXPIRY_ALERT_DAYS) return;
+
+      newNotifications.push({
+        id: `card-${method.id}`,
+        type: "card",
+        customerName: formatPaymentMethod(method),
+        message: daysUntilCardExpiry < 0
+          ? `Card expired ${format(expiryEnd, "MMM yyyy")}; update it before the next renewal`
+          : `Card expires at the end of ${format(expiryEnd, "MMM yyyy")}`,
+        daysLeft: daysUntilCardExpiry,
+      });
+    });
+
     // Sort by urgency (days left ascending)
     newNotifications.sort((a, b) => a.daysLeft - b.daysLeft);
     setNotifications(newNotifications);
@@ -129,6 +251,21 @@ const NotificationBell = ({ onCustomerClick }: NotificationBellProps) => {
                   key={notification.id}
                   className="p-3 hover:bg-muted/50 cursor-pointer transition-colors"
                   onClick={() => {
+                    if (notification.type === "security" || notification.type === "billing") {
+                      onAccountClick?.(notification.accountId ?? null);
+                      setIsOpen(false);
+                      return;
+                    }
+                    if ((notification.type === "renewal" || notification.type === "card") && onBillingClick) {
+                      onBillingClick();
+                      setIsOpen(false);
+                      return;
+                    }
+                    if (notification.type === "rotation" && onRotationClick) {
+                      onRotationClick();
+                      setIsOpen(false);
+                      return;
+                    }
                     const customerId = notification.id.split("-").slice(1).join("-");
                     onCustomerClick?.(customerId);
                     setIsOpen(false);
@@ -138,7 +275,7 @@ const NotificationBell = ({ onCustomerClick }: NotificationBellProps) => {
                     <Badge
                       className={`${getNotificationColor(notification.daysLeft)} shrink-0 mt-0.5`}
                     >
-                      {notification.type === "rotation" ? "Rotation" : "Expiring"}
+                      {NOTIFICATION_LABELS[notification.type]}
                     </Badge>
                     <div className="flex-1 min-w-0">
                       <p className="font-medium text-sm truncate">
@@ -5,6 +5,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { Users, CreditCard, CheckCircle, AlertCircle, Calendar, RotateCw, Clock, Zap, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { differenceInDays, addDays, format } from "date-fns";
+import { getRotationDue, formatRotationDue, rotationKey } from "@/lib/rotation";
+import ProfitLedger from "./ProfitLedger";
 
 interface Stats {
   totalAccounts: number;
@@ -13,12 +15,11 @@ interface Stats {
   expiredSubscriptions: number;
 }
 
-interface DurationStats {
-  days30Plus: number;
-  days60Plus: number;
-  days90Plus: number;
-  days180Plus: number;
-  days365Plus: number;
+interface PlanStat {
+  planId: string; // Plan id, or "custom" for customers without a plan
+  name: string;
+  description: string;
+  count: number;
 }
 
 interface RotationCustomer {
@@ -28,23 +29,18 @@ interface RotationCustomer {
 }
 
 interface OverviewTabProps {
-  onDurationClick?: (days: number) => void;
+  onPlanClick?: (planId: string) => void;
+  onRotationClick?: () => void;
 }
 
-const OverviewTab = ({ onDurationClick }: OverviewTabProps) => {
+const OverviewTab = ({ onPlanClick, onRotationClick }: OverviewTabProps) => {
   const [stats, setStats] = useState<Stats>({
     totalAccounts: 0,
     totalCustomers: 0,
     activeSubscriptions: 0,
     expiredSubscriptions: 0
   });
-  const [durationStats, setDurationStats] = useState<DurationStats>({
-    days30Plus: 0,
-    days60Plus: 0,
-    days90Plus: 0,
-    days180Plus: 0,
-    days365Plus: 0
-  });
+  const [planStats, setPlanStats] = useState<PlanStat[]>([]);
   const [rotationCustomers, setRotationCustomers] = useState<RotationCustomer[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDeactivating, setIsDeactivating] = useState(false);
@@ -107,20 +103,27 @@ const OverviewTab = ({ onDurationClick }: OverviewTabProps) => {
       // Fetch all customers with subscription info
       const { data: customers } = await supabase
         .from("customers")
-        .select("name, purchase_date, subscription_days, is_active");
+        .select("id, name, purchase_date, subscription_days, is_active, plan_id");
+
+      const { data: rotations } = await supabase
+        .from("account_rotations")
+        .select("customer_id, cycle_number");
+      const completedRotations = new Set((rotations || []).map((row) => rotationKey(row.customer_id, row.cycle_number)));
+
+      // Inactive plans are still listed while customers are on them
+      const { data: plans } = await supabase
+        .from("plans")
+        .select("id, name, days, is_active")
+        .order("days", { ascending: true });
 
       const now = new Date();
       let activeCount = 0;
       let expiredCount = 0;
       
-      // Duration-based counts
-      let days30Plus = 0;
-      let days60Plus = 0;
-      let days90Plus = 0;
-      let days180Plus = 0;
-      let days365Plus = 0;
+      // Plan-based counts
+      const planCounts: Record<string, number> = {};
       
-      // Rotation tracking - customers with 30+ day plans approaching renewal
+      // Rotation tracking - customers with 30+ day plans around their monthly rotation
       const needsRotation: RotationCustomer[] = [];
 
       customers?.forEach(customer => {
@@ -133,28 +136,19 @@ const OverviewTab = ({ onDurationClick }: OverviewTabProps) => {
           expiredCount++;
         }
         
-        // Count by subscription duration (active customers only)
+        // Count by plan (active customers only)
         if (customer.is_active && daysRemaining > 0) {
-          if (customer.subscription_days >= 30) days30Plus++;
-          if (customer.subscription_days >= 60) days60Plus++;
-          if (customer.subscription_days >= 90) days90Plus++;
-          if (customer.subscription_days >= 180) days180Plus++;
-          if (customer.subscription_days >= 365) days365Plus++;
+          const planKey = customer.plan_id || "custom";
+          planCounts[planKey] = (planCounts[planKey] || 0) + 1;
           
-          // Check if 30+ day subscriber needs rotation (within 7 days of monthly cycle)
-          // Monthly rotation happens every 30 days from purchase
-          if (customer.subscription_days >= 30) {
-            const daysSincePurchase = differenceInDays(now, new Date(customer.purchase_date));
-            const daysIntoCurrentMonth = daysSincePurchase % 30;
-            const daysUntilNextRotation = 30 - daysIntoCurrentMonth;
-            
-            if (daysUntilNextRotation <= 7 && daysRemaining > 0) {
-              needsRotation.push({
-                name: customer.name,
-                daysLeft: daysUntilNextRotation,
-                subscriptionDays: customer.subscription_days
-              });
-            }
+          // Rotations already applied for this cycle are skipped
+          const rotation = getRotationDue(customer, completedRotations, now);
+          if (rotation) {
+            needsRotation.push({
+              name: customer.name,
+              daysLeft: rotation.daysLeft,
+              subscriptionDays: customer.subscription_days
+            });
           }
         }
       });
@@ -169,13 +163,13 @@ const OverviewTab = ({ onDurationClick }: OverviewTabProps) => {
         expiredSubscriptions: expiredCount
       });
       
-      setDurationStats({
-        days30Plus,
-        days60Plus,
-        days90Plus,
-        days180Plus,
-        days365Plus
-      });
+      const planBreakdown: PlanStat[] = (plans || [])
+        .filter(plan => plan.is_active || planCounts[plan.id])
+        .map(plan => ({ planId: plan.id, name: plan.name, description: `${plan.days} days`, count: planCounts[plan.id] || 0 }));
+      if (planCounts.custom) {
+        planBreakdown.push({ planId: "custom", name: "Custom", description: "No plan selected", count: planCounts.custom });
+      }
+      setPlanStats(planBreakdown);
       
       setRotationCustomers(needsRotation);
     } catch (error) {
@@ -216,14 +210,6 @@ const OverviewTab = ({ onDurationClick }: OverviewTabProps) => {
     }
   ];
 
-  const durationCards = [
-    { title: "30+ Days", value: durationStats.days30Plus, description: "Monthly subscribers", days: 30 },
-    { title: "60+ Days", value: durationStats.days60Plus, description: "2-month plans", days: 60 },
-    { title: "90+ Days", value: durationStats.days90Plus, description: "Quarterly plans", days: 90 },
-    { title: "180+ Days", value: durationStats.days180Plus, description: "Half-yearly plans", days: 180 },
-    { title: "365+ Days", value: durationStats.days365Plus, description: "Annual subscribers", days: 365 }
-  ];
-
   return (
     <div className="space-y-6">
       <div>
@@ -260,7 +246,7 @@ const OverviewTab = ({ onDurationClick }: OverviewTabProps) => {
               Account Rotation Needed ({rotationCustomers.length})
             </CardTitle>
             <CardDescription>
-              30+ day subscribers approaching their monthly account rotation
+              30+ day subscribers within a week of their monthly account rotation
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -277,7 +263,7 @@ const OverviewTab = ({ onDurationClick }: OverviewTabProps) => {
                   <div className="flex items-center gap-1 text-warning">
                     <Clock className="w-4 h-4" />
                     <span className="text-sm font-medium">
-                      {customer.daysLeft === 0 ? "Today" : `${customer.daysLeft}d`}
+                      {formatRotationDue(customer.daysLeft)}
                     </span>
                   </div>
                 </div>
@@ -288,30 +274,38 @@ const OverviewTab = ({ onDurationClick }: OverviewTabProps) => {
                 +{rotationCustomers.length - 6} more customers need rotation
               </p>
             )}
+            {onRotationClick && (
+              <div className="flex justify-center mt-4">
+                <Button variant="outline" size="sm" onClick={onRotationClick}>
+                  <RotateCw className="w-4 h-4 mr-2" />
+                  Plan Rotation
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
 
-      {/* Subscription Duration Stats */}
+      {/* Subscription Plan Stats */}
       <Card className="glass">
         <CardHeader>
           <CardTitle className="font-display text-xl tracking-wide flex items-center gap-2">
             <Calendar className="w-5 h-5 text-primary" />
-            Subscription Duration Breakdown
+            Subscription Plan Breakdown
           </CardTitle>
-          <CardDescription>Active customers grouped by subscription length (click to filter)</CardDescription>
+          <CardDescription>Active customers grouped by plan (click to filter)</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4">
-            {durationCards.map((item, index) => (
+            {planStats.map((item, index) => (
               <div 
-                key={item.title} 
+                key={item.planId} 
                 className="bg-muted/30 rounded-lg p-4 border border-border/50 text-center animate-slide-up cursor-pointer hover:bg-muted/50 hover:border-primary/50 transition-all"
                 style={{ animationDelay: `${index * 0.1}s` }}
-                onClick={() => onDurationClick?.(item.days)}
+                onClick={() => onPlanClick?.(item.planId)}
               >
-                <p className="text-3xl font-bold text-primary">{isLoading ? "..." : item.value}</p>
-                <p className="font-medium text-foreground mt-1">{item.title}</p>
+                <p className="text-3xl font-bold text-primary">{isLoading ? "..." : item.count}</p>
+                <p className="font-medium text-foreground mt-1">{item.name}</p>
                 <p className="text-xs text-muted-foreground mt-1">{item.description}</p>
               </div>
             ))}
@@ -319,6 +313,9 @@ const OverviewTab = ({ onDurationClick }: OverviewTabProps) => {
         </CardContent>
       </Card>
 
+      {/* Revenue, cost and margin */}
+      <ProfitLedger />
+
       <Card className="glass">
         <CardHeader>
           <CardTitle className="font-display text-xl tracking-wide">Quick Actions</CardTitle>
@@ -0,0 +1,179 @@
+// ============================================
+// PAYMENT METHOD DIALOG
+// Adds or edits a card or autopay mandate that pays for Netflix accounts;
+// only the last four digits and the expiry month are stored
+// ============================================
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { PAYMENT_METHOD_TYPES, type PaymentMethod } from "@/lib/billing";
+import { toast } from "sonner";
+
+interface PaymentMethodDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  method: (PaymentMethod & { notes: string | null }) | null; // null to add a new one
+  onChange?: () => void;
+}
+
+const EMPTY_FORM = { label: "", method_type: "card", card_last4: "", card_expiry: "", notes: "" };
+
+const PaymentMethodDialog = ({ open, onOpenChange, method, onChange }: PaymentMethodDialogProps) => {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(
+      method
+        ? {
+            label: method.label,
+            method_type: method.method_type,
+            card_last4: method.card_last4 || "",
+            card_expiry: method.card_expiry?.slice(0, 7) || "", // yyyy-MM for the month input
+            notes: method.notes || "",
+          }
+        : EMPTY_FORM
+    );
+  }, [open, method]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const isCard = formData.method_type === "card";
+    if (!formData.label.trim()) {
+      toast.error("Give the payment method a name");
+      return;
+    }
+    if (isCard && formData.card_last4 && !/^\d{4}$/.test(formData.card_last4)) {
+      toast.error("Enter the last 4 digits of the card");
+      return;
+    }
+
+    const payload = {
+      label: formData.label.trim(),
+      method_type: formData.method_type,
+      card_last4: isCard ? formData.card_last4 || null : null,
+      card_expiry: isCard && formData.card_expiry ? `${formData.card_expiry}-01` : null,
+      notes: formData.notes.trim() || null,
+    };
+
+    setIsSaving(true);
+    try {
+      const { error } = method
+        ? await supabase.from("payment_methods").update(payload).eq("id", method.id)
+        : await supabase.from("payment_methods").insert(payload);
+
+      if (error) throw error;
+
+      toast.success(method ? "Payment method updated" : "Payment method added");
+      onOpenChange(false);
+      onChange?.();
+    } catch (error) {
+      console.error("Error saving payment method:", error);
+      toast.error("Failed to save payment method");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">
+            {method ? "Edit Payment Method" : "Add Payment Method"}
+          </DialogTitle>
+          <DialogDescription>
+            Never store the full card number; the last 4 digits are enough to recognise it
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="method_label">Name</Label>
+              <Input
+                id="method_label"
+                placeholder="e.g., HDFC Millennia"
+                value={formData.label}
+                onChange={(e) => setFormData(prev => ({ ...prev, label: e.target.value }))}
+                className="bg-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={formData.method_type} onValueChange={(value) => setFormData(prev => ({ ...prev, method_type: value }))}>
+                <SelectTrigger className="bg-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHOD_TYPES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {formData.method_type === "card" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="card_last4">Last 4 Digits</Label>
+                <Input
+                  id="card_last4"
+                  inputMode="numeric"
+                  maxLength={4}
+                  placeholder="4242"
+                  value={formData.card_last4}
+                  onChange={(e) => setFormData(prev => ({ ...prev, card_last4: e.target.value.replace(/\D/g, "") }))}
+                  className="bg-input"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="card_expiry">Expiry Month</Label>
+                <Input
+                  id="card_expiry"
+                  type="month"
+                  value={formData.card_expiry}
+                  onChange={(e) => setFormData(prev => ({ ...prev, card_expiry: e.target.value }))}
+                  className="bg-input"
+                />
+              </div>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="method_notes">Notes (Optional)</Label>
+            <Input
+              id="method_notes"
+              placeholder="e.g., Business card, autopay mandate ID"
+              value={formData.notes}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              className="bg-input"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="netflix" disabled={isSaving}>
+              {isSaving ? "Saving..." : method ? "Save Changes" : "Add Method"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentMethodDialog;
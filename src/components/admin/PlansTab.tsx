@@ -0,0 +1,321 @@
+// ============================================
+// PLANS TAB COMPONENT
+// Admin-managed catalog of subscription plans (duration, price, profile type)
+// offered when creating customers
+// ============================================
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import { toast } from "sonner";
+import { Plus, Edit, Trash2, Package } from "lucide-react";
+
+interface Plan {
+  id: string;
+  name: string;
+  days: number;
+  price: number | null;
+  wholesale_price: number | null; // Charged to the reseller's wallet per sale
+  profile_type: string; // shared_profile | full_account
+  is_active: boolean;
+}
+
+const PROFILE_TYPE_LABELS: Record<string, string> = {
+  shared_profile: "Shared Profile",
+  full_account: "Full Account",
+};
+
+const EMPTY_FORM = { name: "", days: "30", price: "", wholesale_price: "", profile_type: "shared_profile", is_active: true };
+
+const PlansTab = () => {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<Plan | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchPlans();
+  }, []);
+
+  const fetchPlans = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("plans")
+        .select("id, name, days, price, wholesale_price, profile_type, is_active")
+        .order("days", { ascending: true });
+
+      if (error) throw error;
+      setPlans(data || []);
+    } catch (error) {
+      console.error("Error fetching plans:", error);
+      toast.error("Failed to load plans");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const days = parseInt(formData.days);
+    if (!formData.name.trim() || !days || days < 1) {
+      toast.error("Plan name and duration are required");
+      return;
+    }
+
+    const plan = {
+      name: formData.name.trim(),
+      days,
+      price: formData.price ? parseFloat(formData.price) : null,
+      wholesale_price: formData.wholesale_price ? parseFloat(formData.wholesale_price) : null,
+      profile_type: formData.profile_type,
+      is_active: formData.is_active,
+    };
+
+    try {
+      if (editingPlan) {
+        const { error } = await supabase.from("plans").update(plan).eq("id", editingPlan.id);
+        if (error) throw error;
+        toast.success("Plan updated successfully");
+      } else {
+        const { error } = await supabase.from("plans").insert(plan);
+        if (error) throw error;
+        toast.success("Plan created successfully");
+      }
+
+      setIsDialogOpen(false);
+      resetForm();
+      fetchPlans();
+    } catch (error) {
+      console.error("Error saving plan:", error);
+      toast.error("Failed to save plan");
+    }
+  };
+
+  const toggleActive = async (plan: Plan) => {
+    try {
+      const { error } = await supabase.from("plans").update({ is_active: !plan.is_active }).eq("id", plan.id);
+      if (error) throw error;
+      fetchPlans();
+    } catch (error) {
+      console.error("Error updating plan:", error);
+      toast.error("Failed to update plan");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this plan? Customers on it keep their subscription but lose the plan name.")) return;
+
+    try {
+      const { error } = await supabase.from("plans").delete().eq("id", id);
+      if (error) throw error;
+      toast.success("Plan deleted successfully");
+      fetchPlans();
+    } catch (error) {
+      console.error("Error deleting plan:", error);
+      toast.error("Failed to delete plan");
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingPlan(null);
+  };
+
+  const openEditDialog = (plan: Plan) => {
+    setEditingPlan(plan);
+    setFormData({
+      name: plan.name,
+      days: plan.days.toString(),
+      price: plan.price?.toString() || "",
+      wholesale_price: plan.wholesale_price?.toString() || "",
+      profile_type: plan.profile_type,
+      is_active: plan.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="font-display text-3xl tracking-wide text-foreground">Plans</h2>
+          <p className="text-muted-foreground mt-1">Standard durations and prices offered to customers</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+          <DialogTrigger asChild>
+            <Button variant="netflix">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Plan
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-card border-border">
+            <DialogHeader>
+              <DialogTitle className="font-display text-2xl tracking-wide">
+                {editingPlan ? "Edit Plan" : "Add Plan"}
+              </DialogTitle>
+              <DialogDescription>
+                Changing a plan does not affect customers who already bought it
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan_name">Name</Label>
+                <Input
+                  id="plan_name"
+                  placeholder="e.g., 3 Months"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  className="bg-input"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="plan_days">Duration (days)</Label>
+                  <Input
+                    id="plan_days"
+                    type="number"
+                    min="1"
+                    value={formData.days}
+                    onChange={(e) => setFormData(prev => ({ ...prev, days: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Profile Type</Label>
+                  <Select value={formData.profile_type} onValueChange={(value) => setFormData(prev => ({ ...prev, profile_type: value }))}>
+                    <SelectTrigger className="bg-input">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PROFILE_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="plan_price">Price (Optional)</Label>
+                  <Input
+                    id="plan_price"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.price}
+                    onChange={(e) => setFormData(prev => ({ ...prev, price: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="plan_wholesale_price">Wholesale Price (Optional)</Label>
+                  <Input
+                    id="plan_wholesale_price"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Reseller wallet charge"
+                    value={formData.wholesale_price}
+                    onChange={(e) => setFormData(prev => ({ ...prev, wholesale_price: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="plan_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="plan_active" className="cursor-pointer">Offered to new customers</Label>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="ghost" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="netflix">
+                  {editingPlan ? "Update" : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card className="glass">
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : plans.length === 0 ? (
+            <div className="text-center py-12">
+              <Package className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No plans yet. Add your first plan!</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border">
+                  <TableHead>Name</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Wholesale</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plans.map((plan) => (
+                  <TableRow key={plan.id} className="border-border">
+                    <TableCell className="font-medium">{plan.name}</TableCell>
+                    <TableCell className="text-muted-foreground">{plan.days} days</TableCell>
+                    <TableCell>{plan.price !== null ? formatCurrency(plan.price) : "—"}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {plan.wholesale_price !== null ? formatCurrency(plan.wholesale_price) : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={plan.profile_type === "full_account" ? "default" : "outline"}>
+                        {PROFILE_TYPE_LABELS[plan.profile_type] || plan.profile_type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={plan.is_active} onCheckedChange={() => toggleActive(plan)} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => openEditDialog(plan)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(plan.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PlansTab;
@@ -0,0 +1,167 @@
+// ============================================
+// PROFILE SLOTS DIALOG
+// The profile slots of a Netflix account: who holds each one, and the
+// profile name and PIN shown to that customer on their dashboard
+// ============================================
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+interface ProfileSlot {
+  id: string;
+  slot_number: number;
+  profile_name: string;
+  profile_pin: string;
+  customers: { name: string; is_active: boolean } | null;
+}
+
+interface ProfileSlotsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: { id: string; netflix_email: string | null; phone_number: string | null } | null;
+}
+
+const ProfileSlotsDialog = ({ open, onOpenChange, account }: ProfileSlotsDialogProps) => {
+  const [slots, setSlots] = useState<ProfileSlot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSlots = useCallback(async () => {
+    if (!account) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("profile_slots")
+        .select("id, slot_number, profile_name, profile_pin, customers(name, is_active)")
+        .eq("netflix_account_id", account.id)
+        .order("slot_number");
+
+      if (error) throw error;
+
+      setSlots((data || []).map((slot) => ({
+        ...slot,
+        profile_name: slot.profile_name || "",
+        profile_pin: slot.profile_pin || "",
+      })));
+    } catch (error) {
+      console.error("Error fetching profile slots:", error);
+      toast.error("Failed to load profile slots");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account]);
+
+  useEffect(() => {
+    if (open) fetchSlots();
+  }, [open, fetchSlots]);
+
+  const updateSlot = (id: string, field: "profile_name" | "profile_pin", value: string) => {
+    setSlots((prev) => prev.map((slot) => (slot.id === id ? { ...slot, [field]: value } : slot)));
+  };
+
+  const handleSave = async () => {
+    const invalidPin = slots.find((slot) => slot.profile_pin && !/^\d{4}$/.test(slot.profile_pin));
+    if (invalidPin) {
+      toast.error(`Profile ${invalidPin.slot_number}: PIN must be 4 digits`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      for (const slot of slots) {
+        const { error } = await supabase
+          .from("profile_slots")
+          .update({
+            profile_name: slot.profile_name.trim() || null,
+            profile_pin: slot.profile_pin || null,
+          })
+          .eq("id", slot.id);
+
+        if (error) throw error;
+      }
+
+      toast.success("Profiles saved");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving profile slots:", error);
+      toast.error("Failed to save profiles");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">Profiles</DialogTitle>
+          <DialogDescription>
+            {account?.netflix_email || account?.phone_number}: one customer per profile
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-2">
+            {slots.map((slot) => (
+              <div key={slot.id} className="bg-muted/30 rounded-lg p-3 border border-border/50 space-y-2">
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline">P{slot.slot_number}</Badge>
+                  {slot.customers ? (
+                    <span className="text-sm">
+                      {slot.customers.name}
+                      {!slot.customers.is_active && <span className="text-muted-foreground"> (inactive)</span>}
+                    </span>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Free</span>
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    placeholder="Profile name"
+                    value={slot.profile_name}
+                    onChange={(e) => updateSlot(slot.id, "profile_name", e.target.value)}
+                    className="bg-input col-span-2"
+                  />
+                  <Input
+                    placeholder="PIN"
+                    inputMode="numeric"
+                    maxLength={4}
+                    value={slot.profile_pin}
+                    onChange={(e) => updateSlot(slot.id, "profile_pin", e.target.value.replace(/\D/g, ""))}
+                    className="bg-input"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="netflix" onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving ? "Saving..." : "Save Profiles"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProfileSlotsDialog;
@@ -0,0 +1,214 @@
+// ============================================
+// PROFIT LEDGER
+// Revenue (customer selling prices), cost (account monthly costs) and margin
+// per Netflix account, per reseller and per month
+// ============================================
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import { IndianRupee } from "lucide-react";
+import { differenceInMonths, endOfMonth, format, isSameMonth, startOfMonth, subMonths } from "date-fns";
+
+interface LedgerCustomer {
+  netflix_account_id: string | null;
+  resellers: { id: string; name: string } | null;
+  selling_price: number | null; // Total paid across all subscription periods
+}
+
+interface LedgerPeriod {
+  start_date: string;
+  price: number | null;
+}
+
+interface LedgerAccount {
+  id: string;
+  netflix_email: string | null;
+  phone_number: string | null;
+  payment_methods: { label: string } | null;
+  monthly_cost: number | null;
+  account_created_date: string | null;
+  created_at: string;
+}
+
+interface LedgerRow {
+  key: string;
+  label: string;
+  detail?: string;
+  revenue: number;
+  cost: number;
+}
+
+const MONTHS_SHOWN = 6;
+
+// Billing starts on the account's creation date and every started month is charged
+const billingStart = (account: LedgerAccount) => new Date(account.account_created_date || account.created_at);
+
+const monthsBilled = (account: LedgerAccount, until: Date) => {
+  const start = billingStart(account);
+  return start > until ? 0 : differenceInMonths(until, start) + 1;
+};
+
+const buildLedger = (customers: LedgerCustomer[], accounts: LedgerAccount[], periods: LedgerPeriod[]) => {
+  const now = new Date();
+
+  const byAccount: LedgerRow[] = accounts.map((account) => ({
+    key: account.id,
+    label: account.netflix_email || account.phone_number || "—",
+    detail: account.payment_methods?.label,
+    revenue: customers
+      .filter((customer) => customer.netflix_account_id === account.id)
+      .reduce((sum, customer) => sum + (customer.selling_price || 0), 0),
+    cost: (account.monthly_cost || 0) * monthsBilled(account, now),
+  }));
+
+  // Resellers have no cost of their own; each account's cost is split evenly across its customers
+  const costPerCustomer: Record<string, number> = {};
+  byAccount.forEach((row) => {
+    const assigned = customers.filter((customer) => customer.netflix_account_id === row.key).length;
+    costPerCustomer[row.key] = assigned > 0 ? row.cost / assigned : 0;
+  });
+
+  const resellers: Record<string, LedgerRow> = {};
+  customers.forEach((customer) => {
+    const key = customer.resellers?.id || "direct";
+    const row = resellers[key] ||= { key, label: customer.resellers?.name || "Direct", revenue: 0, cost: 0 };
+    row.revenue += customer.selling_price || 0;
+    row.cost += customer.netflix_account_id ? costPerCustomer[customer.netflix_account_id] || 0 : 0;
+  });
+
+  // Revenue is counted in the month each period starts, cost for every account billed that month
+  const byMonth: LedgerRow[] = Array.from({ length: MONTHS_SHOWN }, (_, index) => {
+    const month = startOfMonth(subMonths(now, index));
+    return {
+      key: format(month, "yyyy-MM"),
+      label: format(month, "MMMM yyyy"),
+      revenue: periods
+        .filter((period) => isSameMonth(new Date(period.start_date), month))
+        .reduce((sum, period) => sum + (period.price || 0), 0),
+      cost: accounts
+        .filter((account) => billingStart(account) <= endOfMonth(month))
+        .reduce((sum, account) => sum + (account.monthly_cost || 0), 0),
+    };
+  });
+
+  return {
+    byAccount: byAccount.sort((a, b) => (b.revenue - b.cost) - (a.revenue - a.cost)),
+    byReseller: Object.values(resellers).sort((a, b) => b.revenue - a.revenue),
+    byMonth,
+  };
+};
+
+const LedgerTable = ({ rows, labelHeading }: { rows: LedgerRow[]; labelHeading: string }) => {
+  if (rows.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground">No data yet</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-border">
+          <TableHead>{labelHeading}</TableHead>
+          <TableHead className="text-right">Revenue</TableHead>
+          <TableHead className="text-right">Cost</TableHead>
+          <TableHead className="text-right">Margin</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => {
+          const margin = row.revenue - row.cost;
+          return (
+            <TableRow key={row.key} className="border-border">
+              <TableCell>
+                <p className="font-medium">{row.label}</p>
+                {row.detail && <p className="text-xs text-muted-foreground">{row.detail}</p>}
+              </TableCell>
+              <TableCell className="text-right">{formatCurrency(row.revenue)}</TableCell>
+              <TableCell className="text-right text-muted-foreground">{formatCurrency(row.cost)}</TableCell>
+              <TableCell className={`text-right font-medium ${margin < 0 ? "text-destructive" : "text-success"}`}>
+                {formatCurrency(margin)}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+const ProfitLedger = () => {
+  const [ledger, setLedger] = useState<ReturnType<typeof buildLedger> | null>(null);
+
+  useEffect(() => {
+    fetchLedger();
+  }, []);
+
+  const fetchLedger = async () => {
+    try {
+      const [customersResult, accountsResult, periodsResult] = await Promise.all([
+        supabase.from("customers").select("netflix_account_id, selling_price, resellers(id, name)"),
+        supabase
+          .from("netflix_accounts")
+          .select("id, netflix_email, phone_number, payment_methods(label), monthly_cost, account_created_date, created_at"),
+        supabase.from("subscription_periods").select("start_date, price"),
+      ]);
+
+      if (customersResult.error) throw customersResult.error;
+      if (accountsResult.error) throw accountsResult.error;
+      if (periodsResult.error) throw periodsResult.error;
+
+      setLedger(buildLedger(customersResult.data || [], accountsResult.data || [], periodsResult.data || []));
+    } catch (error) {
+      console.error("Error fetching profit ledger:", error);
+    }
+  };
+
+  // Reseller rows cover every customer, including those without an account
+  const totals = ledger && {
+    revenue: ledger.byReseller.reduce((sum, row) => sum + row.revenue, 0),
+    cost: ledger.byAccount.reduce((sum, row) => sum + row.cost, 0),
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="font-display text-xl tracking-wide flex items-center gap-2">
+          <IndianRupee className="w-5 h-5 text-primary" />
+          Revenue & Profit
+        </CardTitle>
+        <CardDescription>
+          {totals
+            ? `${formatCurrency(totals.revenue)} revenue, ${formatCurrency(totals.cost)} cost, ${formatCurrency(totals.revenue - totals.cost)} margin to date`
+            : "Selling prices against Netflix account costs"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!ledger ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <Tabs defaultValue="account">
+            <TabsList>
+              <TabsTrigger value="account">By Account</TabsTrigger>
+              <TabsTrigger value="reseller">By Reseller</TabsTrigger>
+              <TabsTrigger value="month">By Month</TabsTrigger>
+            </TabsList>
+            <TabsContent value="account">
+              <LedgerTable rows={ledger.byAccount} labelHeading="Netflix Account" />
+            </TabsContent>
+            <TabsContent value="reseller">
+              <LedgerTable rows={ledger.byReseller} labelHeading="Reseller" />
+            </TabsContent>
+            <TabsContent value="month">
+              <LedgerTable rows={ledger.byMonth} labelHeading="Month" />
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProfitLedger;
@@ -0,0 +1,446 @@
+// ============================================
+// PROMO CODES TAB COMPONENT
+// Discount codes for festival offers and referrals, with redemptions and
+// revenue impact per code
+// ============================================
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import { formatPromoValue, type PromoCode } from "@/lib/promoCodes";
+import { toast } from "sonner";
+import { Plus, Edit, Trash2, Ticket } from "lucide-react";
+import { format } from "date-fns";
+
+interface PromoCodeRow extends PromoCode {
+  description: string | null;
+  max_redemptions: number | null;
+  resellers: { name: string } | null;
+}
+
+interface Reseller {
+  id: string;
+  name: string;
+}
+
+interface PromoStats {
+  redemptions: number;
+  revenue: number; // Discounted prices actually charged
+  discount: number; // Revenue given up
+}
+
+const EMPTY_FORM = {
+  code: "",
+  description: "",
+  discount_type: "percent",
+  discount_value: "",
+  valid_from: "",
+  valid_until: "",
+  max_redemptions: "",
+  reseller_id: "any", // Reseller id, or "any" for every sale
+  is_active: true,
+};
+
+const PromoCodesTab = () => {
+  const [promoCodes, setPromoCodes] = useState<PromoCodeRow[]>([]);
+  const [stats, setStats] = useState<Record<string, PromoStats>>({});
+  const [resellers, setResellers] = useState<Reseller[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPromo, setEditingPromo] = useState<PromoCodeRow | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchPromoCodes();
+    fetchResellers();
+  }, []);
+
+  const fetchPromoCodes = async () => {
+    try {
+      const [promoResult, periodsResult] = await Promise.all([
+        supabase
+          .from("promo_codes")
+          .select("id, code, description, discount_type, discount_value, valid_from, valid_until, max_redemptions, reseller_id, is_active, resellers(name)")
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("subscription_periods")
+          .select("promo_code_id, price, discount_amount")
+          .not("promo_code_id", "is", null),
+      ]);
+
+      if (promoResult.error) throw promoResult.error;
+      if (periodsResult.error) throw periodsResult.error;
+
+      const nextStats: Record<string, PromoStats> = {};
+      for (const period of periodsResult.data || []) {
+        if (!period.promo_code_id) continue;
+        const row = nextStats[period.promo_code_id] ||= { redemptions: 0, revenue: 0, discount: 0 };
+        row.redemptions += 1;
+        row.revenue += period.price || 0;
+        row.discount += period.discount_amount;
+      }
+
+      setPromoCodes(promoResult.data || []);
+      setStats(nextStats);
+    } catch (error) {
+      console.error("Error fetching promo codes:", error);
+      toast.error("Failed to load promo codes");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchResellers = async () => {
+    const { data, error } = await supabase
+      .from("resellers")
+      .select("id, name")
+      .eq("is_active", true)
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching resellers:", error);
+      return;
+    }
+    setResellers(data || []);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const code = formData.code.trim().toUpperCase();
+    const discountValue = parseFloat(formData.discount_value);
+    if (!/^[A-Z0-9_-]+$/.test(code)) {
+      toast.error("Codes may only use letters, digits, - and _");
+      return;
+    }
+    if (!discountValue || discountValue <= 0 || (formData.discount_type === "percent" && discountValue > 100)) {
+      toast.error("Enter a discount greater than zero (at most 100%)");
+      return;
+    }
+    if (formData.valid_from && formData.valid_until && formData.valid_from > formData.valid_until) {
+      toast.error("The validity window ends before it starts");
+      return;
+    }
+
+    const promo = {
+      code,
+      description: formData.description.trim() || null,
+      discount_type: formData.discount_type,
+      discount_value: discountValue,
+      valid_from: formData.valid_from || null,
+      valid_until: formData.valid_until || null,
+      max_redemptions: formData.max_redemptions ? parseInt(formData.max_redemptions) : null,
+      reseller_id: formData.reseller_id === "any" ? null : formData.reseller_id,
+      is_active: formData.is_active,
+    };
+
+    try {
+      if (editingPromo) {
+        const { error } = await supabase.from("promo_codes").update(promo).eq("id", editingPromo.id);
+        if (error) throw error;
+        toast.success("Promo code updated successfully");
+      } else {
+        const { error } = await supabase.from("promo_codes").insert(promo);
+        if (error) throw error;
+        toast.success("Promo code created successfully");
+      }
+
+      setIsDialogOpen(false);
+      resetForm();
+      fetchPromoCodes();
+    } catch (error) {
+      console.error("Error saving promo code:", error);
+      toast.error("Failed to save promo code (is the code already taken?)");
+    }
+  };
+
+  const toggleActive = async (promo: PromoCodeRow) => {
+    try {
+      const { error } = await supabase.from("promo_codes").update({ is_active: !promo.is_active }).eq("id", promo.id);
+      if (error) throw error;
+      fetchPromoCodes();
+    } catch (error) {
+      console.error("Error updating promo code:", error);
+      toast.error("Failed to update promo code");
+    }
+  };
+
+  const handleDelete = async (promo: PromoCodeRow) => {
+    if (stats[promo.id]?.redemptions) {
+      toast.error("This code has been redeemed; deactivate it instead");
+      return;
+    }
+    if (!confirm(`Delete promo code ${promo.code}?`)) return;
+
+    try {
+      const { error } = await supabase.from("promo_codes").delete().eq("id", promo.id);
+      if (error) throw error;
+      toast.success("Promo code deleted successfully");
+      fetchPromoCodes();
+    } catch (error) {
+      console.error("Error deleting promo code:", error);
+      toast.error("Failed to delete promo code");
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingPromo(null);
+  };
+
+  const openEditDialog = (promo: PromoCodeRow) => {
+    setEditingPromo(promo);
+    setFormData({
+      code: promo.code,
+      description: promo.description || "",
+      discount_type: promo.discount_type,
+      discount_value: promo.discount_value.toString(),
+      valid_from: promo.valid_from || "",
+      valid_until: promo.valid_until || "",
+      max_redemptions: promo.max_redemptions?.toString() || "",
+      reseller_id: promo.reseller_id || "any",
+      is_active: promo.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const formatWindow = (promo: PromoCodeRow) => {
+    if (!promo.valid_from && !promo.valid_until) return "Always";
+    const from = promo.valid_from ? format(new Date(promo.valid_from), "MMM d") : "…";
+    const until = promo.valid_until ? format(new Date(promo.valid_until), "MMM d, yyyy") : "…";
+    return `${from} – ${until}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="font-display text-3xl tracking-wide text-foreground">Promo Codes</h2>
+          <p className="text-muted-foreground mt-1">Discounts applied when creating or renewing customers</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+          <DialogTrigger asChild>
+            <Button variant="netflix">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Promo Code
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-card border-border">
+            <DialogHeader>
+              <DialogTitle className="font-display text-2xl tracking-wide">
+                {editingPromo ? "Edit Promo Code" : "Add Promo Code"}
+              </DialogTitle>
+              <DialogDescription>
+                Changes apply to future sales; past redemptions keep their discount
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo_code">Code</Label>
+                  <Input
+                    id="promo_code"
+                    placeholder="e.g., DIWALI25"
+                    value={formData.code}
+                    onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                    className="bg-input font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo_description">Description (Optional)</Label>
+                  <Input
+                    id="promo_description"
+                    placeholder="e.g., Diwali offer"
+                    value={formData.description}
+                    onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Discount Type</Label>
+                  <Select value={formData.discount_type} onValueChange={(value) => setFormData(prev => ({ ...prev, discount_type: value }))}>
+                    <SelectTrigger className="bg-input">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percent">Percentage</SelectItem>
+                      <SelectItem value="flat">Flat Amount</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo_value">{formData.discount_type === "percent" ? "Discount (%)" : "Discount (₹)"}</Label>
+                  <Input
+                    id="promo_value"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.discount_value}
+                    onChange={(e) => setFormData(prev => ({ ...prev, discount_value: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo_from">Valid From (Optional)</Label>
+                  <Input
+                    id="promo_from"
+                    type="date"
+                    value={formData.valid_from}
+                    onChange={(e) => setFormData(prev => ({ ...prev, valid_from: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo_until">Valid Until (Optional)</Label>
+                  <Input
+                    id="promo_until"
+                    type="date"
+                    value={formData.valid_until}
+                    onChange={(e) => setFormData(prev => ({ ...prev, valid_until: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo_cap">Usage Cap (Optional)</Label>
+                  <Input
+                    id="promo_cap"
+                    type="number"
+                    min="1"
+                    placeholder="Unlimited"
+                    value={formData.max_redemptions}
+                    onChange={(e) => setFormData(prev => ({ ...prev, max_redemptions: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Restricted To</Label>
+                  <Select value={formData.reseller_id} onValueChange={(value) => setFormData(prev => ({ ...prev, reseller_id: value }))}>
+                    <SelectTrigger className="bg-input">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any sale</SelectItem>
+                      {resellers.map((reseller) => (
+                        <SelectItem key={reseller.id} value={reseller.id}>{reseller.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="promo_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="promo_active" className="cursor-pointer">Active</Label>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="ghost" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="netflix">
+                  {editingPromo ? "Update" : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card className="glass">
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : promoCodes.length === 0 ? (
+            <div className="text-center py-12">
+              <Ticket className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No promo codes yet. Add your first offer!</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border">
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Valid</TableHead>
+                  <TableHead>Restricted To</TableHead>
+                  <TableHead>Redemptions</TableHead>
+                  <TableHead>Revenue</TableHead>
+                  <TableHead>Discount Given</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promoCodes.map((promo) => {
+                  const promoStats = stats[promo.id] || { redemptions: 0, revenue: 0, discount: 0 };
+                  return (
+                    <TableRow key={promo.id} className="border-border">
+                      <TableCell>
+                        <code className="bg-primary/10 text-primary px-2 py-1 rounded font-mono">{promo.code}</code>
+                        {promo.description && (
+                          <p className="text-xs text-muted-foreground mt-1">{promo.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{formatPromoValue(promo)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{formatWindow(promo)}</TableCell>
+                      <TableCell className="text-muted-foreground">{promo.resellers?.name || "Any sale"}</TableCell>
+                      <TableCell>
+                        {promoStats.redemptions}
+                        {promo.max_redemptions !== null && (
+                          <span className="text-muted-foreground"> / {promo.max_redemptions}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatCurrency(promoStats.revenue)}</TableCell>
+                      <TableCell className="text-destructive">
+                        {promoStats.discount > 0 ? `−${formatCurrency(promoStats.discount)}` : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Switch checked={promo.is_active} onCheckedChange={() => toggleActive(promo)} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="icon" onClick={() => openEditDialog(promo)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => handleDelete(promo)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PromoCodesTab;
@@ -0,0 +1,277 @@
+// ============================================
+// REPLACE ACCOUNT DIALOG
+// Moves every customer on a failing Netflix account to a chosen active
+// account in one step via replace_netflix_account(), which keeps profile
+// numbers where possible and logs the move
+// ============================================
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { ArrowRight } from "lucide-react";
+
+interface AssignedCustomer {
+  id: string;
+  name: string;
+  profile_number: number | null;
+}
+
+interface TargetAccount {
+  id: string;
+  label: string;
+  freeProfiles: number[]; // Empty profile slots, lowest first
+}
+
+interface PlannedMove {
+  customer: AssignedCustomer;
+  toProfile: number | null;
+}
+
+interface ReplaceAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: { id: string; netflix_email: string | null; phone_number: string | null } | null;
+  onChange?: () => void;
+}
+
+// Mirrors replace_netflix_account(): customers whose profile is free on the
+// target keep it, the rest take the lowest free one; null when profiles run out
+const planMoves = (customers: AssignedCustomer[], freeProfiles: number[]): PlannedMove[] | null => {
+  let free = [...freeProfiles];
+  const keeps = (customer: AssignedCustomer) => customer.profile_number !== null && free.includes(customer.profile_number);
+  const ordered = [...customers].sort((a, b) =>
+    Number(keeps(b)) - Number(keeps(a)) || (a.profile_number ?? 99) - (b.profile_number ?? 99)
+  );
+  const moves: PlannedMove[] = [];
+
+  for (const customer of ordered) {
+    let toProfile: number | null = null;
+    if (customer.profile_number !== null) {
+      toProfile = free.includes(customer.profile_number) ? customer.profile_number : free[0] ?? null;
+      if (toProfile === null) return null;
+      free = free.filter((profile) => profile !== toProfile);
+    }
+    moves.push({ customer, toProfile });
+  }
+
+  return moves;
+};
+
+const ReplaceAccountDialog = ({ open, onOpenChange, account, onChange }: ReplaceAccountDialogProps) => {
+  const [customers, setCustomers] = useState<AssignedCustomer[]>([]);
+  const [targets, setTargets] = useState<TargetAccount[]>([]);
+  const [targetId, setTargetId] = useState("");
+  const [reason, setReason] = useState("");
+  const [retire, setRetire] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const accountLabel = account?.netflix_email || account?.phone_number;
+
+  const fetchData = useCallback(async () => {
+    if (!account) return;
+
+    setIsLoading(true);
+    try {
+      const [accountsResult, customersResult, slotsResult] = await Promise.all([
+        supabase
+          .from("netflix_accounts")
+          .select("id, netflix_email, phone_number")
+          .eq("status", "active")
+          .neq("id", account.id)
+          .order("created_at"),
+        supabase
+          .from("customers")
+          .select("id, name, profile_number")
+          .eq("netflix_account_id", account.id),
+        supabase
+          .from("profile_slots")
+          .select("netflix_account_id, slot_number")
+          .is("customer_id", null)
+          .order("slot_number"),
+      ]);
+
+      if (accountsResult.error) throw accountsResult.error;
+      if (customersResult.error) throw customersResult.error;
+      if (slotsResult.error) throw slotsResult.error;
+
+      const freeSlots = slotsResult.data || [];
+      setCustomers(customersResult.data || []);
+      setTargets(
+        (accountsResult.data || []).map((target) => ({
+          id: target.id,
+          label: target.netflix_email || target.phone_number || "—",
+          freeProfiles: freeSlots
+            .filter((slot) => slot.netflix_account_id === target.id)
+            .map((slot) => slot.slot_number),
+        }))
+      );
+    } catch (error) {
+      console.error("Error loading replacement accounts:", error);
+      toast.error("Failed to load accounts");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account]);
+
+  useEffect(() => {
+    if (open) {
+      setTargetId("");
+      setReason("");
+      setRetire(true);
+      fetchData();
+    }
+  }, [open, fetchData]);
+
+  const target = targets.find((candidate) => candidate.id === targetId);
+  const plannedMoves = useMemo(
+    () => (target ? planMoves(customers, target.freeProfiles) : []),
+    [customers, target]
+  );
+
+  const handleReplace = async () => {
+    if (!account || !target) return;
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("replace_netflix_account", {
+        p_from_account_id: account.id,
+        p_to_account_id: target.id,
+        p_reason: reason.trim() || undefined,
+        p_retire: retire,
+      });
+
+      if (error) throw new Error(error.message);
+
+      toast.success(`Moved ${data} customer${data !== 1 ? "s" : ""} to ${target.label}`);
+      onOpenChange(false);
+      onChange?.();
+    } catch (error) {
+      console.error("Error replacing account:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to replace account");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">Replace Account</DialogTitle>
+          <DialogDescription>
+            Move everyone on {accountLabel} to another active account
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Replacement Account</Label>
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger className="bg-input">
+                  <SelectValue placeholder="Choose an active account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map((candidate) => {
+                    const free = candidate.freeProfiles.length;
+                    return (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.label} ({free} profile{free !== 1 ? "s" : ""} free)
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+              {targets.length === 0 && (
+                <p className="text-xs text-muted-foreground">No other active accounts. Add or reactivate one first.</p>
+              )}
+            </div>
+
+            {target && (
+              plannedMoves === null ? (
+                <p className="text-sm text-destructive">
+                  {target.label} does not have enough free profiles for these customers.
+                </p>
+              ) : plannedMoves.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No customers are assigned to this account.</p>
+              ) : (
+                <ScrollArea className="max-h-[220px]">
+                  <div className="space-y-1 pr-3">
+                    {plannedMoves.map(({ customer, toProfile }) => (
+                      <div key={customer.id} className="flex items-center justify-between text-sm bg-muted/30 rounded px-3 py-2">
+                        <span>{customer.name}</span>
+                        <span className="flex items-center gap-2 text-muted-foreground">
+                          Profile {customer.profile_number ?? "—"}
+                          <ArrowRight className="w-3 h-3" />
+                          <span className={toProfile !== customer.profile_number ? "text-foreground font-medium" : undefined}>
+                            {toProfile ?? "—"}
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="replace_reason">Reason</Label>
+              <Input
+                id="replace_reason"
+                placeholder="e.g., Account locked after password reset"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="bg-input"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="retire_account"
+                checked={retire}
+                onCheckedChange={(checked) => setRetire(checked === true)}
+              />
+              <Label htmlFor="retire_account" className="text-sm font-normal">
+                Mark {accountLabel} as retired afterwards
+              </Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Remember to send moved customers the new login details.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="netflix"
+            onClick={handleReplace}
+            disabled={isSaving || !target || plannedMoves === null}
+          >
+            {isSaving ? "Moving..." : "Move Customers"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReplaceAccountDialog;
@@ -0,0 +1,119 @@
+// ============================================
+// RESELLER LOGIN DIALOG
+// Creates a reseller's portal login, or resets its password once it exists
+// ============================================
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+interface ResellerLoginDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reseller: { id: string; name: string; contact_email: string | null; user_id: string | null } | null;
+  onChange?: () => void;
+}
+
+const ResellerLoginDialog = ({ open, onOpenChange, reseller, onChange }: ResellerLoginDialogProps) => {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const hasLogin = !!reseller?.user_id;
+
+  useEffect(() => {
+    if (!open) return;
+    setEmail(reseller?.contact_email || "");
+    setPassword("");
+  }, [open, reseller]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reseller) return;
+
+    if (password.length < 8) {
+      toast.error("Password must be at least 8 characters");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("reseller-login", {
+        body: { resellerId: reseller.id, email: email.trim(), password },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast.success(hasLogin ? "Password reset" : `Portal login created for ${reseller.name}`);
+      onOpenChange(false);
+      onChange?.();
+    } catch (error) {
+      console.error("Error saving reseller login:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save reseller login");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">
+            {hasLogin ? "Reset Portal Password" : "Create Portal Login"}
+          </DialogTitle>
+          <DialogDescription>
+            {reseller?.name} signs in at {window.location.origin}/reseller
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!hasLogin && (
+            <div className="space-y-2">
+              <Label htmlFor="reseller_login_email">Email</Label>
+              <Input
+                id="reseller_login_email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="bg-input"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="reseller_login_password">{hasLogin ? "New Password" : "Password"}</Label>
+            <Input
+              id="reseller_login_password"
+              type="password"
+              placeholder="At least 8 characters"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="bg-input"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="netflix" disabled={isSaving}>
+              {isSaving ? "Saving..." : hasLogin ? "Reset Password" : "Create Login"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResellerLoginDialog;
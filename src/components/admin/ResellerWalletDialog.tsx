@@ -0,0 +1,297 @@
+// ============================================
+// RESELLER WALLET DIALOG
+// Prepaid balance ledger for one reseller: top-ups and manual adjustments,
+// the debits posted automatically for each sale, and a statement export
+// ============================================
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import { toast } from "sonner";
+import { Download, Plus } from "lucide-react";
+import { endOfDay, format, startOfDay, startOfMonth } from "date-fns";
+import * as XLSX from "xlsx";
+
+interface WalletTransaction {
+  id: string;
+  kind: string; // credit | debit
+  amount: number;
+  note: string | null;
+  created_at: string;
+  customers: { name: string } | null;
+}
+
+interface ResellerWalletDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reseller: { id: string; name: string } | null;
+  onChange?: () => void;
+}
+
+const EMPTY_ENTRY_FORM = { kind: "credit", amount: "", note: "" };
+
+const signedAmount = (transaction: WalletTransaction) =>
+  transaction.kind === "credit" ? transaction.amount : -transaction.amount;
+
+const ResellerWalletDialog = ({ open, onOpenChange, reseller, onChange }: ResellerWalletDialogProps) => {
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [entryForm, setEntryForm] = useState(EMPTY_ENTRY_FORM);
+  const [statementFrom, setStatementFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [statementTo, setStatementTo] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const fetchTransactions = useCallback(async () => {
+    if (!reseller) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("reseller_wallet_transactions")
+        .select("id, kind, amount, note, created_at, customers(name)")
+        .eq("reseller_id", reseller.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setTransactions(data || []);
+    } catch (error) {
+      console.error("Error fetching wallet transactions:", error);
+      toast.error("Failed to load wallet");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reseller]);
+
+  useEffect(() => {
+    if (open) {
+      setEntryForm(EMPTY_ENTRY_FORM);
+      fetchTransactions();
+    }
+  }, [open, fetchTransactions]);
+
+  const addEntry = async () => {
+    if (!reseller) return;
+
+    const amount = parseFloat(entryForm.amount);
+    if (!amount || amount <= 0) {
+      toast.error("Enter an amount greater than zero");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("reseller_wallet_transactions")
+        .insert({
+          reseller_id: reseller.id,
+          kind: entryForm.kind,
+          amount,
+          note: entryForm.note.trim() || (entryForm.kind === "credit" ? "Top-up" : "Adjustment"),
+        });
+
+      if (error) throw error;
+
+      toast.success(`${entryForm.kind === "credit" ? "Credited" : "Debited"} ${formatCurrency(amount)}`);
+      setEntryForm(EMPTY_ENTRY_FORM);
+      fetchTransactions();
+      onChange?.();
+    } catch (error) {
+      console.error("Error adding wallet transaction:", error);
+      toast.error("Failed to update wallet");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const exportStatement = () => {
+    if (!reseller) return;
+
+    const from = startOfDay(new Date(statementFrom));
+    const to = endOfDay(new Date(statementTo));
+    if (from > to) {
+      toast.error("The statement start must be before its end");
+      return;
+    }
+
+    const chronological = [...transactions].reverse();
+    const openingBalance = chronological
+      .filter((transaction) => new Date(transaction.created_at) < from)
+      .reduce((sum, transaction) => sum + signedAmount(transaction), 0);
+
+    let balance = openingBalance;
+    const rows = chronological
+      .filter((transaction) => {
+        const createdAt = new Date(transaction.created_at);
+        return createdAt >= from && createdAt <= to;
+      })
+      .map((transaction) => {
+        balance += signedAmount(transaction);
+        return {
+          "Date": format(new Date(transaction.created_at), "yyyy-MM-dd HH:mm"),
+          "Description": transaction.note || "",
+          "Customer": transaction.customers?.name || "",
+          "Credit": transaction.kind === "credit" ? transaction.amount : "",
+          "Debit": transaction.kind === "debit" ? transaction.amount : "",
+          "Balance": balance,
+        };
+      });
+
+    const sheet = XLSX.utils.json_to_sheet([
+      { "Date": statementFrom, "Description": "Opening balance", "Customer": "", "Credit": "", "Debit": "", "Balance": openingBalance },
+      ...rows,
+      { "Date": statementTo, "Description": "Closing balance", "Customer": "", "Credit": "", "Debit": "", "Balance": balance },
+    ]);
+    sheet["!cols"] = [
+      { wch: 18 }, // Date
+      { wch: 24 }, // Description
+      { wch: 20 }, // Customer
+      { wch: 10 }, // Credit
+      { wch: 10 }, // Debit
+      { wch: 12 }, // Balance
+    ];
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Statement");
+
+    const safeName = reseller.name.replace(/[^a-z0-9]+/gi, "_");
+    XLSX.writeFile(workbook, `wallet_${safeName}_${statementFrom}_${statementTo}.xlsx`);
+    toast.success(`Statement exported with ${rows.length} transaction${rows.length !== 1 ? "s" : ""}`);
+  };
+
+  const balance = transactions.reduce((sum, transaction) => sum + signedAmount(transaction), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">
+            Wallet
+          </DialogTitle>
+          <DialogDescription>
+            {reseller?.name}: balance{" "}
+            <span className={balance < 0 ? "text-destructive font-medium" : "text-foreground font-medium"}>
+              {formatCurrency(balance)}
+            </span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : transactions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No wallet transactions yet</div>
+        ) : (
+          <ScrollArea className="max-h-[260px]">
+            <div className="space-y-2 pr-3">
+              {transactions.map((transaction) => (
+                <div key={transaction.id} className="bg-muted/30 rounded-lg p-3 border border-border/50 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm">
+                      {transaction.note || (transaction.kind === "credit" ? "Credit" : "Debit")}
+                      {transaction.customers && (
+                        <span className="text-muted-foreground font-normal"> · {transaction.customers.name}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(transaction.created_at), "MMM d, yyyy HH:mm")}
+                    </p>
+                  </div>
+                  <span className={`font-medium ${transaction.kind === "credit" ? "text-success" : "text-destructive"}`}>
+                    {transaction.kind === "credit" ? "+" : "−"}{formatCurrency(transaction.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {/* Top-up / Adjustment */}
+        <div className="border-t border-border pt-4 space-y-3">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={entryForm.kind} onValueChange={(value) => setEntryForm(prev => ({ ...prev, kind: value }))}>
+                <SelectTrigger className="bg-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="credit">Top-up</SelectItem>
+                  <SelectItem value="debit">Adjustment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wallet_amount">Amount</Label>
+              <Input
+                id="wallet_amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={entryForm.amount}
+                onChange={(e) => setEntryForm(prev => ({ ...prev, amount: e.target.value }))}
+                className="bg-input"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="wallet_note">Note</Label>
+              <Input
+                id="wallet_note"
+                placeholder="Optional"
+                value={entryForm.note}
+                onChange={(e) => setEntryForm(prev => ({ ...prev, note: e.target.value }))}
+                className="bg-input"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button variant="netflix" onClick={addEntry} disabled={isSaving || !reseller}>
+              <Plus className="w-4 h-4 mr-2" />
+              {isSaving ? "Saving..." : "Add Transaction"}
+            </Button>
+          </div>
+        </div>
+
+        {/* Statement Export */}
+        <div className="border-t border-border pt-4 flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="statement_from">Statement From</Label>
+            <Input
+              id="statement_from"
+              type="date"
+              value={statementFrom}
+              onChange={(e) => setStatementFrom(e.target.value)}
+              className="bg-input"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statement_to">To</Label>
+            <Input
+              id="statement_to"
+              type="date"
+              value={statementTo}
+              onChange={(e) => setStatementTo(e.target.value)}
+              className="bg-input"
+            />
+          </div>
+          <Button variant="outline" onClick={exportStatement} disabled={!statementFrom || !statementTo}>
+            <Download className="w-4 h-4 mr-2" />
+            Export Statement
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResellerWalletDialog;
@@ -0,0 +1,402 @@
+// ============================================
+// RESELLERS TAB COMPONENT
+// Resellers who sell on our behalf: contact details, commission rate and the
+// signature used in customer messages, with a per-reseller sales summary
+// ============================================
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import { toast } from "sonner";
+import { Plus, Edit, Trash2, Store, KeyRound, Wallet } from "lucide-react";
+import { addDays } from "date-fns";
+import ResellerLoginDialog from "./ResellerLoginDialog";
+import ResellerWalletDialog from "./ResellerWalletDialog";
+
+interface Reseller {
+  id: string;
+  name: string;
+  contact_phone: string | null;
+  contact_email: string | null;
+  commission_rate: number; // Percent of revenue
+  message_signature: string | null;
+  is_active: boolean;
+  user_id: string | null; // Portal login, if one was created
+}
+
+interface ResellerSales {
+  activeCustomers: number;
+  revenue: number;
+  walletBalance: number;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  contact_phone: "",
+  contact_email: "",
+  commission_rate: "0",
+  message_signature: "",
+  is_active: true,
+};
+
+const ResellersTab = () => {
+  const [resellers, setResellers] = useState<Reseller[]>([]);
+  const [sales, setSales] = useState<Record<string, ResellerSales>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingReseller, setEditingReseller] = useState<Reseller | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [loginReseller, setLoginReseller] = useState<Reseller | null>(null);
+  const [walletReseller, setWalletReseller] = useState<Reseller | null>(null);
+
+  useEffect(() => {
+    fetchResellers();
+  }, []);
+
+  const fetchResellers = async () => {
+    try {
+      const [resellersResult, customersResult, walletResult] = await Promise.all([
+        supabase
+          .from("resellers")
+          .select("id, name, contact_phone, contact_email, commission_rate, message_signature, is_active, user_id")
+          .order("name", { ascending: true }),
+        supabase
+          .from("customers")
+          .select("reseller_id, selling_price, purchase_date, subscription_days, is_active")
+          .not("reseller_id", "is", null),
+        supabase.from("reseller_wallet_transactions").select("reseller_id, kind, amount"),
+      ]);
+
+      if (resellersResult.error) throw resellersResult.error;
+      if (customersResult.error) throw customersResult.error;
+      if (walletResult.error) throw walletResult.error;
+
+      // Revenue counts everything the reseller's customers have paid, active or not
+      const now = new Date();
+      const totals: Record<string, ResellerSales> = {};
+      (customersResult.data || []).forEach((customer) => {
+        if (!customer.reseller_id) return;
+        const row = totals[customer.reseller_id] ||= { activeCustomers: 0, revenue: 0, walletBalance: 0 };
+        row.revenue += customer.selling_price || 0;
+        if (customer.is_active && addDays(new Date(customer.purchase_date), customer.subscription_days) > now) {
+          row.activeCustomers++;
+        }
+      });
+      (walletResult.data || []).forEach((transaction) => {
+        const row = totals[transaction.reseller_id] ||= { activeCustomers: 0, revenue: 0, walletBalance: 0 };
+        row.walletBalance += transaction.kind === "credit" ? transaction.amount : -transaction.amount;
+      });
+
+      setResellers(resellersResult.data || []);
+      setSales(totals);
+    } catch (error) {
+      console.error("Error fetching resellers:", error);
+      toast.error("Failed to load resellers");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const commissionRate = parseFloat(formData.commission_rate) || 0;
+    if (!formData.name.trim()) {
+      toast.error("Reseller name is required");
+      return;
+    }
+    if (commissionRate < 0 || commissionRate > 100) {
+      toast.error("Commission rate must be between 0 and 100%");
+      return;
+    }
+
+    const reseller = {
+      name: formData.name.trim(),
+      contact_phone: formData.contact_phone.trim() || null,
+      contact_email: formData.contact_email.trim() || null,
+      commission_rate: commissionRate,
+      message_signature: formData.message_signature.trim() || null,
+      is_active: formData.is_active,
+    };
+
+    try {
+      if (editingReseller) {
+        const { error } = await supabase.from("resellers").update(reseller).eq("id", editingReseller.id);
+        if (error) throw error;
+        toast.success("Reseller updated successfully");
+      } else {
+        const { error } = await supabase.from("resellers").insert(reseller);
+        if (error) throw error;
+        toast.success("Reseller created successfully");
+      }
+
+      setIsDialogOpen(false);
+      resetForm();
+      fetchResellers();
+    } catch (error) {
+      console.error("Error saving reseller:", error);
+      toast.error("Failed to save reseller (names must be unique)");
+    }
+  };
+
+  const toggleActive = async (reseller: Reseller) => {
+    try {
+      const { error } = await supabase.from("resellers").update({ is_active: !reseller.is_active }).eq("id", reseller.id);
+      if (error) throw error;
+      fetchResellers();
+    } catch (error) {
+      console.error("Error updating reseller:", error);
+      toast.error("Failed to update reseller");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this reseller? Their customers will be marked as direct sales.")) return;
+
+    try {
+      const { error } = await supabase.from("resellers").delete().eq("id", id);
+      if (error) throw error;
+      toast.success("Reseller deleted successfully");
+      fetchResellers();
+    } catch (error) {
+      console.error("Error deleting reseller:", error);
+      toast.error("Failed to delete reseller");
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingReseller(null);
+  };
+
+  const openEditDialog = (reseller: Reseller) => {
+    setEditingReseller(reseller);
+    setFormData({
+      name: reseller.name,
+      contact_phone: reseller.contact_phone || "",
+      contact_email: reseller.contact_email || "",
+      commission_rate: reseller.commission_rate.toString(),
+      message_signature: reseller.message_signature || "",
+      is_active: reseller.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const commissionOwed = (reseller: Reseller) => ((sales[reseller.id]?.revenue || 0) * reseller.commission_rate) / 100;
+
+  const totalCommission = resellers.reduce((sum, reseller) => sum + commissionOwed(reseller), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="font-display text-3xl tracking-wide text-foreground">Resellers</h2>
+          <p className="text-muted-foreground mt-1">
+            {isLoading ? "Partners who sell subscriptions for you" : `${formatCurrency(totalCommission)} commission owed in total`}
+          </p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+          <DialogTrigger asChild>
+            <Button variant="netflix">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Reseller
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-card border-border">
+            <DialogHeader>
+              <DialogTitle className="font-display text-2xl tracking-wide">
+                {editingReseller ? "Edit Reseller" : "Add Reseller"}
+              </DialogTitle>
+              <DialogDescription>
+                The signature closes the WhatsApp message sent to their customers
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reseller_name">Name</Label>
+                <Input
+                  id="reseller_name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  className="bg-input"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reseller_phone">Phone (Optional)</Label>
+                  <Input
+                    id="reseller_phone"
+                    value={formData.contact_phone}
+                    onChange={(e) => setFormData(prev => ({ ...prev, contact_phone: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reseller_email">Email (Optional)</Label>
+                  <Input
+                    id="reseller_email"
+                    type="email"
+                    value={formData.contact_email}
+                    onChange={(e) => setFormData(prev => ({ ...prev, contact_email: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reseller_commission">Commission (%)</Label>
+                  <Input
+                    id="reseller_commission"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.commission_rate}
+                    onChange={(e) => setFormData(prev => ({ ...prev, commission_rate: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reseller_signature">Message Signature</Label>
+                  <Input
+                    id="reseller_signature"
+                    placeholder={formData.name || "Defaults to name"}
+                    value={formData.message_signature}
+                    onChange={(e) => setFormData(prev => ({ ...prev, message_signature: e.target.value }))}
+                    className="bg-input"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="reseller_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="reseller_active" className="cursor-pointer">Available for new customers</Label>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="ghost" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="netflix">
+                  {editingReseller ? "Update" : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card className="glass">
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : resellers.length === 0 ? (
+            <div className="text-center py-12">
+              <Store className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No resellers yet. Add your first reseller!</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border">
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead className="text-right">Active Customers</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Commission</TableHead>
+                  <TableHead className="text-right">Wallet</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {resellers.map((reseller) => (
+                  <TableRow key={reseller.id} className="border-border">
+                    <TableCell>
+                      <p className="font-medium flex items-center gap-2">
+                        {reseller.name}
+                        {reseller.user_id && <Badge variant="outline">Portal</Badge>}
+                      </p>
+                      {reseller.message_signature && (
+                        <p className="text-xs text-muted-foreground">Signs as {reseller.message_signature}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {reseller.contact_phone && <p>{reseller.contact_phone}</p>}
+                      {reseller.contact_email && <p>{reseller.contact_email}</p>}
+                      {!reseller.contact_phone && !reseller.contact_email && "—"}
+                    </TableCell>
+                    <TableCell className="text-right">{sales[reseller.id]?.activeCustomers || 0}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(sales[reseller.id]?.revenue || 0)}</TableCell>
+                    <TableCell className="text-right">
+                      <p className="font-medium">{formatCurrency(commissionOwed(reseller))}</p>
+                      <p className="text-xs text-muted-foreground">{reseller.commission_rate}%</p>
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${(sales[reseller.id]?.walletBalance || 0) < 0 ? "text-destructive" : ""}`}>
+                      {formatCurrency(sales[reseller.id]?.walletBalance || 0)}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={reseller.is_active} onCheckedChange={() => toggleActive(reseller)} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" title="Wallet" onClick={() => setWalletReseller(reseller)}>
+                          <Wallet className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={reseller.user_id ? "Reset portal password" : "Create portal login"}
+                          onClick={() => setLoginReseller(reseller)}
+                        >
+                          <KeyRound className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => openEditDialog(reseller)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(reseller.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ResellerLoginDialog
+        open={!!loginReseller}
+        onOpenChange={(open) => !open && setLoginReseller(null)}
+        reseller={loginReseller}
+        onChange={fetchResellers}
+      />
+
+      <ResellerWalletDialog
+        open={!!walletReseller}
+        onOpenChange={(open) => !open && setWalletReseller(null)}
+        reseller={walletReseller}
+        onChange={fetchResellers}
+      />
+    </div>
+  );
+};
+
+export default ResellersTab;
@@ -0,0 +1,92 @@
+// ============================================
+// ROTATION MESSAGES DIALOG
+// "Your account details changed" messages for customers moved in a
+// rotation batch, ready to copy into WhatsApp one by one
+// ============================================
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Copy, Check } from "lucide-react";
+
+interface RotationMessage {
+  customerId: string;
+  customerName: string;
+  message: string;
+}
+
+interface RotationMessagesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  messages: RotationMessage[];
+}
+
+const RotationMessagesDialog = ({ open, onOpenChange, messages }: RotationMessagesDialogProps) => {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const handleCopy = async (entry: RotationMessage) => {
+    try {
+      await navigator.clipboard.writeText(entry.message);
+      setCopiedId(entry.customerId);
+      toast.success(`Message for ${entry.customerName} copied`);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      toast.error("Failed to copy message");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl tracking-wide">Notify Moved Customers</DialogTitle>
+          <DialogDescription>
+            Send each customer their message via WhatsApp
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {messages.map((entry) => (
+            <div key={entry.customerId} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="font-medium text-sm">{entry.customerName}</p>
+                <Button variant="outline" size="sm" onClick={() => handleCopy(entry)}>
+                  {copiedId === entry.customerId ? (
+                    <>
+                      <Check className="w-4 h-4 mr-2" />
+                      Copied!
+                    </>
+                  ) : (
+                    <>
+                      <Copy className="w-4 h-4 mr-2" />
+                      Copy
+                    </>
+                  )}
+                </Button>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-4 font-mono text-sm whitespace-pre-wrap break-words">
+                {entry.message}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RotationMessagesDialog;
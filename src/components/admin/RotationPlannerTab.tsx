@@ -0,0 +1,419 @@
+// ============================================
+// ROTATION PLANNER TAB
+// Customers due for their monthly account rotation, each with a proposed
+// account and profile; the approved batch is applied in one step via
+// apply_account_rotations() and moved customers get a ready-made message
+// ============================================
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  assignProfiles,
+  formatRotationDue,
+  generateRotationMessage,
+  getRotationDue,
+  planRotation,
+  rotationKey,
+  ROTATION_INTERVAL_DAYS,
+  type RotationAccount,
+  type RotationDue,
+} from "@/lib/rotation";
+import { toast } from "sonner";
+import { RotateCw, History } from "lucide-react";
+import { addDays, format, parseISO } from "date-fns";
+import RotationMessagesDialog from "./RotationMessagesDialog";
+
+const KEEP = "keep"; // Leave the customer where they are and only mark the cycle done
+
+interface DueCustomer {
+  id: string;
+  name: string;
+  access_code: string;
+  netflix_account_id: string | null;
+  profile_number: number | null;
+  signature: string | null;
+  expiresOn: Date;
+  due: RotationDue;
+}
+
+interface Choice {
+  approved: boolean;
+  target: string; // Account id, or KEEP
+}
+
+interface RotationRecord {
+  id: string;
+  cycle_number: number;
+  due_on: string;
+  from_account_id: string | null;
+  from_profile: number | null;
+  to_account_id: string | null;
+  to_profile: number | null;
+  created_at: string;
+  customers: { name: string } | null;
+}
+
+interface RotationMessage {
+  customerId: string;
+  customerName: string;
+  message: string;
+}
+
+const RotationPlannerTab = () => {
+  const [dueCustomers, setDueCustomers] = useState<DueCustomer[]>([]);
+  const [targets, setTargets] = useState<RotationAccount[]>([]);
+  const [accountLabels, setAccountLabels] = useState<Record<string, string>>({});
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [history, setHistory] = useState<RotationRecord[]>([]);
+  const [messages, setMessages] = useState<RotationMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [customersResult, rotationsResult, accountsResult, slotsResult, historyResult] = await Promise.all([
+        supabase
+          .from("customers")
+          .select("id, name, access_code, netflix_account_id, profile_number, purchase_date, subscription_days, resellers(name, message_signature)")
+          .eq("is_active", true)
+          .gte("subscription_days", ROTATION_INTERVAL_DAYS),
+        supabase
+          .from("account_rotations")
+          .select("customer_id, cycle_number"),
+        supabase
+          .from("netflix_accounts")
+          .select("id, netflix_email, phone_number, status, paid_through, created_at")
+          .order("created_at"),
+        supabase
+          .from("profile_slots")
+          .select("netflix_account_id, slot_number")
+          .is("customer_id", null)
+          .order("slot_number"),
+        supabase
+          .from("account_rotations")
+          .select("id, cycle_number, due_on, from_account_id, from_profile, to_account_id, to_profile, created_at, customers(name)")
+          .order("created_at", { ascending: false })
+          .limit(20),
+      ]);
+
+      if (customersResult.error) throw customersResult.error;
+      if (rotationsResult.error) throw rotationsResult.error;
+      if (accountsResult.error) throw accountsResult.error;
+      if (slotsResult.error) throw slotsResult.error;
+      if (historyResult.error) throw historyResult.error;
+
+      const completed = new Set((rotationsResult.data || []).map((row) => rotationKey(row.customer_id, row.cycle_number)));
+      const accounts = accountsResult.data || [];
+      const freeSlots = slotsResult.data || [];
+
+      const nextTargets: RotationAccount[] = accounts
+        .filter((account) => account.status === "active")
+        .map((account) => ({
+          id: account.id,
+          label: account.netflix_email || account.phone_number || "—",
+          created_at: account.created_at,
+          paid_through: account.paid_through,
+          freeProfiles: freeSlots
+            .filter((slot) => slot.netflix_account_id === account.id)
+            .map((slot) => slot.slot_number),
+        }));
+
+      const nextDue: DueCustomer[] = [];
+      for (const customer of customersResult.data || []) {
+        const due = getRotationDue(customer, completed);
+        if (!due) continue;
+        nextDue.push({
+          id: customer.id,
+          name: customer.name,
+          access_code: customer.access_code,
+          netflix_account_id: customer.netflix_account_id,
+          profile_number: customer.profile_number,
+          signature: customer.resellers ? customer.resellers.message_signature || customer.resellers.name : null,
+          expiresOn: addDays(parseISO(customer.purchase_date), customer.subscription_days),
+          due,
+        });
+      }
+      nextDue.sort((a, b) => a.due.daysLeft - b.due.daysLeft);
+
+      // Each customer needs the new account until their next rotation or expiry
+      const plan = planRotation(
+        nextDue.map((customer) => {
+          const nextRotation = addDays(customer.due.dueOn, ROTATION_INTERVAL_DAYS);
+          return {
+            customerId: customer.id,
+            currentAccountId: customer.netflix_account_id,
+            servesUntil: nextRotation < customer.expiresOn ? nextRotation : customer.expiresOn,
+          };
+        }),
+        nextTargets
+      );
+
+      const nextChoices: Record<string, Choice> = {};
+      for (const customer of nextDue) {
+        const proposed = plan.get(customer.id);
+        nextChoices[customer.id] = { approved: !!proposed, target: proposed || KEEP };
+      }
+
+      setTargets(nextTargets);
+      setAccountLabels(Object.fromEntries(accounts.map((account) => [account.id, account.netflix_email || account.phone_number || "—"])));
+      setDueCustomers(nextDue);
+      setChoices(nextChoices);
+      setHistory(historyResult.data || []);
+    } catch (error) {
+      console.error("Error loading rotation plan:", error);
+      toast.error("Failed to load rotation plan");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const approvedCustomers = dueCustomers.filter((customer) => choices[customer.id]?.approved);
+
+  // Profiles are handed out in table order, so two customers never share one
+  const profiles = useMemo(
+    () =>
+      assignProfiles(
+        dueCustomers
+          .filter((customer) => choices[customer.id]?.approved && choices[customer.id].target !== KEEP)
+          .map((customer) => ({ customerId: customer.id, accountId: choices[customer.id].target })),
+        targets
+      ),
+    [dueCustomers, choices, targets]
+  );
+
+  const hasConflict = Object.values(profiles).some((profile) => profile === null);
+
+  const updateChoice = (customerId: string, change: Partial<Choice>) => {
+    setChoices((prev) => ({ ...prev, [customerId]: { ...prev[customerId], ...change } }));
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setChoices((prev) =>
+      Object.fromEntries(Object.entries(prev).map(([id, choice]) => [id, { ...choice, approved: checked }]))
+    );
+  };
+
+  const handleApply = async () => {
+    if (approvedCustomers.length === 0) return;
+
+    setIsApplying(true);
+    try {
+      const moves = approvedCustomers.map((customer) => {
+        const target = choices[customer.id].target;
+        return {
+          customer_id: customer.id,
+          cycle_number: customer.due.cycle,
+          due_on: format(customer.due.dueOn, "yyyy-MM-dd"),
+          to_account_id: target === KEEP ? null : target,
+          to_profile: target === KEEP ? null : profiles[customer.id],
+        };
+      });
+
+      const { data, error } = await supabase.rpc("apply_account_rotations", { p_moves: moves });
+
+      if (error) throw new Error(error.message);
+
+      const moved = approvedCustomers.filter((customer) => choices[customer.id].target !== KEEP);
+      toast.success(`Rotation applied for ${data} customer${data !== 1 ? "s" : ""}`);
+      setMessages(
+        moved.map((customer) => ({
+          customerId: customer.id,
+          customerName: customer.name,
+          message: generateRotationMessage({
+            customerName: customer.name,
+            profileNumber: profiles[customer.id],
+            accessCode: customer.access_code,
+            signature: customer.signature,
+          }),
+        }))
+      );
+      fetchData();
+    } catch (error) {
+      console.error("Error applying rotation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to apply rotation");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const describeSide = (accountId: string | null, profile: number | null) =>
+    accountId ? `${accountLabels[accountId] || "Deleted account"}${profile ? ` · P${profile}` : ""}` : "—";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="font-display text-3xl tracking-wide text-foreground">Rotation Planner</h2>
+          <p className="text-muted-foreground mt-1">
+            Monthly account moves for 30+ day subscribers, due every {ROTATION_INTERVAL_DAYS} days from purchase
+          </p>
+        </div>
+        <Button
+          variant="netflix"
+          onClick={handleApply}
+          disabled={isApplying || approvedCustomers.length === 0 || hasConflict}
+        >
+          <RotateCw className="w-4 h-4 mr-2" />
+          {isApplying ? "Applying..." : `Apply ${approvedCustomers.length} Approved`}
+        </Button>
+      </div>
+
+      <Card className="glass">
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : dueCustomers.length === 0 ? (
+            <div className="text-center py-12">
+              <RotateCw className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No rotations due this week.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border">
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={approvedCustomers.length === dueCustomers.length}
+                      onCheckedChange={(checked) => toggleAll(checked === true)}
+                    />
+                  </TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Current</TableHead>
+                  <TableHead>Move To</TableHead>
+                  <TableHead>New Profile</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dueCustomers.map((customer) => {
+                  const choice = choices[customer.id];
+                  if (!choice) return null;
+                  const profile = profiles[customer.id];
+
+                  return (
+                    <TableRow key={customer.id} className="border-border">
+                      <TableCell>
+                        <Checkbox
+                          checked={choice.approved}
+                          onCheckedChange={(checked) => updateChoice(customer.id, { approved: checked === true })}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{customer.name}</TableCell>
+                      <TableCell>
+                        <p>{format(customer.due.dueOn, "dd MMM yyyy")}</p>
+                        <Badge
+                          variant="outline"
+                          className={customer.due.daysLeft < 0 ? "text-destructive border-destructive/50" : "text-warning border-warning/50"}
+                        >
+                          {formatRotationDue(customer.due.daysLeft)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {describeSide(customer.netflix_account_id, customer.profile_number)}
+                      </TableCell>
+                      <TableCell>
+                        <Select value={choice.target} onValueChange={(value) => updateChoice(customer.id, { target: value })}>
+                          <SelectTrigger className="bg-input w-[240px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={KEEP}>Keep current account</SelectItem>
+                            {targets
+                              .filter((target) => target.id !== customer.netflix_account_id)
+                              .map((target) => {
+                                const free = target.freeProfiles.length;
+                                return (
+                                  <SelectItem key={target.id} value={target.id} disabled={free === 0}>
+                                    {target.label} ({free} free)
+                                  </SelectItem>
+                                );
+                              })}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {choice.target === KEEP ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : !choice.approved ? (
+                          <span className="text-muted-foreground">Not approved</span>
+                        ) : profile ? (
+                          <Badge variant="outline">P{profile}</Badge>
+                        ) : (
+                          <span className="text-sm text-destructive">No free profile left</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {history.length > 0 && (
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle className="font-display text-xl tracking-wide flex items-center gap-2">
+              <History className="w-5 h-5 text-primary" />
+              Recent Rotations
+            </CardTitle>
+            <CardDescription>The last 20 rotations applied</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border">
+                  <TableHead>Applied</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Cycle</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>To</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((record) => (
+                  <TableRow key={record.id} className="border-border">
+                    <TableCell className="text-muted-foreground">
+                      {format(parseISO(record.created_at), "dd MMM yyyy")}
+                    </TableCell>
+                    <TableCell>{record.customers?.name || "—"}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      #{record.cycle_number} ({format(parseISO(record.due_on), "dd MMM")})
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {describeSide(record.from_account_id, record.from_profile)}
+                    </TableCell>
+                    <TableCell>
+                      {record.from_account_id === record.to_account_id && record.from_profile === record.to_profile
+                        ? <span className="text-muted-foreground">Kept</span>
+                        : describeSide(record.to_account_id, record.to_profile)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <RotationMessagesDialog
+        open={messages.length > 0}
+        onOpenChange={(open) => { if (!open) setMessages([]); }}
+        messages={messages}
+      />
+    </div>
+  );
+};
+
+export default RotationPlannerTab;
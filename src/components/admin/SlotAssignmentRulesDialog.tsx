@@ -0,0 +1,156 @@
+// ============================================
+// SLOT ASSIGNMENT RULES DIALOG
+// How find_free_profile_slot() ranks free slots for auto-assigned and
+// reseller customers; unhealthy accounts are always skipped
+// ============================================
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+interface SlotAssignmentRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FILL_ORDERS: Record<string, string> = {
+  oldest_first: "Oldest accounts first",
+  fullest_first: "Fullest accounts first",
+  emptiest_first: "Emptiest accounts first (spread customers)",
+};
+
+const SlotAssignmentRulesDialog = ({ open, onOpenChange }: SlotAssignmentRulesDialogProps) => {
+  const [rules, setRules] = useState({
+    fill_order: "oldest_first",
+    match_paid_through: true,
+    require_paid_through: false,
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchRules = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from("slot_assignment_settings")
+          .select("fill_order, match_paid_through, require_paid_through")
+          .single();
+
+        if (error) throw error;
+        setRules(data);
+      } catch (error) {
+        console.error("Error fetching assignment rules:", error);
+        toast.error("Failed to load assignment rules");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchRules();
+  }, [open]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("slot_assignment_settings")
+        .update(rules)
+        .eq("id", true);
+
+      if (error) throw error;
+
+      toast.success("Assignment rules saved");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving assignment rules:", error);
+      toast.error("Failed to save assignment rules");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">Assignment Rules</DialogTitle>
+          <DialogDescription>
+            Used by auto-assign and reseller sales. Only active accounts are ever picked.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label>Fill Order</Label>
+              <Select value={rules.fill_order} onValueChange={(value) => setRules(prev => ({ ...prev, fill_order: value }))}>
+                <SelectTrigger className="bg-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FILL_ORDERS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="match_paid_through">Match plan to paid-through date</Label>
+                <p className="text-xs text-muted-foreground">
+                  Prefer the account paid through the closest date after the customer's expiry
+                </p>
+              </div>
+              <Switch
+                id="match_paid_through"
+                checked={rules.match_paid_through}
+                onCheckedChange={(checked) => setRules(prev => ({ ...prev, match_paid_through: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="require_paid_through">Only accounts paid through expiry</Label>
+                <p className="text-xs text-muted-foreground">
+                  Skip accounts without a paid-through date covering the whole subscription
+                </p>
+              </div>
+              <Switch
+                id="require_paid_through"
+                checked={rules.require_paid_through}
+                onCheckedChange={(checked) => setRules(prev => ({ ...prev, require_paid_through: checked }))}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="netflix" onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving ? "Saving..." : "Save Rules"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SlotAssignmentRulesDialog;
@@ -0,0 +1,322 @@
+// ============================================
+// STATEMENT IMPORT DIALOG
+// Upload a bank/UPI statement CSV, review the proposed customer for each
+// credit, and record the confirmed ones as payments
+// ============================================
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency, settlePeriods } from "@/lib/utils";
+import { matchCredits, parseStatementCsv, type OpenPeriod, type StatementCredit } from "@/lib/bankStatement";
+import { toast } from "sonner";
+import { CheckCircle } from "lucide-react";
+import { format } from "date-fns";
+
+interface StatementImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange?: () => void;
+}
+
+const SKIP = "skip";
+
+const StatementImportDialog = ({ open, onOpenChange, onChange }: StatementImportDialogProps) => {
+  const [periods, setPeriods] = useState<OpenPeriod[]>([]);
+  const [recordedReferences, setRecordedReferences] = useState<Set<string>>(new Set());
+  const [credits, setCredits] = useState<StatementCredit[]>([]);
+  const [selections, setSelections] = useState<Record<number, string>>({}); // Credit row -> period id or SKIP
+  const [reasons, setReasons] = useState<Record<number, string[]>>({});
+  const [windowDays, setWindowDays] = useState("7");
+  const [fileName, setFileName] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchOpenPeriods = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [periodsResult, paymentsResult] = await Promise.all([
+        supabase
+          .from("subscription_periods")
+          .select("id, customer_id, start_date, price, customers(name, access_code)")
+          .gt("price", 0)
+          .order("start_date", { ascending: true })
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("payments")
+          .select("customer_id, amount, reference"),
+      ]);
+
+      if (periodsResult.error) throw periodsResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+
+      // Payments are pooled per customer and settle their periods oldest first
+      const paidByCustomer: Record<string, number> = {};
+      for (const payment of paymentsResult.data || []) {
+        paidByCustomer[payment.customer_id] = (paidByCustomer[payment.customer_id] || 0) + payment.amount;
+      }
+
+      const periodsByCustomer: Record<string, NonNullable<typeof periodsResult.data>> = {};
+      for (const period of periodsResult.data || []) {
+        (periodsByCustomer[period.customer_id] ||= []).push(period);
+      }
+
+      const openPeriods: OpenPeriod[] = [];
+      for (const [customerId, customerPeriods] of Object.entries(periodsByCustomer)) {
+        const settled = settlePeriods(customerPeriods, paidByCustomer[customerId] || 0);
+        customerPeriods.forEach((period, index) => {
+          const outstanding = (period.price || 0) - settled[index];
+          if (outstanding > 0 && period.customers) {
+            openPeriods.push({
+              id: period.id,
+              customer_id: period.customer_id,
+              customer_name: period.customers.name,
+              access_code: period.customers.access_code,
+              start_date: period.start_date,
+              outstanding,
+            });
+          }
+        });
+      }
+      openPeriods.sort((a, b) => a.customer_name.localeCompare(b.customer_name));
+
+      setPeriods(openPeriods);
+      setRecordedReferences(new Set(
+        (paymentsResult.data || []).flatMap((payment) => (payment.reference ? [payment.reference] : []))
+      ));
+    } catch (error) {
+      console.error("Error fetching open periods:", error);
+      toast.error("Failed to load open subscriptions");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setCredits([]);
+      setSelections({});
+      setReasons({});
+      setFileName("");
+      fetchOpenPeriods();
+    }
+  }, [open, fetchOpenPeriods]);
+
+  // Proposals are recomputed from scratch, replacing any manual picks
+  const propose = (statementCredits: StatementCredit[], days: number) => {
+    const fresh = statementCredits.filter((credit) => !credit.reference || !recordedReferences.has(credit.reference));
+    const matches = matchCredits(fresh, periods, days);
+
+    setSelections(Object.fromEntries(matches.map((match) => [match.credit.row, match.period?.id || SKIP])));
+    setReasons(Object.fromEntries(matches.map((match) => [match.credit.row, match.reasons])));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseStatementCsv(await file.text());
+      if (parsed.length === 0) {
+        toast.error("No credits found in this statement");
+        return;
+      }
+
+      setFileName(file.name);
+      setCredits(parsed);
+      propose(parsed, parseInt(windowDays));
+    } catch (error) {
+      console.error("Error parsing statement:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to read statement");
+    } finally {
+      e.target.value = ""; // Allow picking the same file again
+    }
+  };
+
+  const handleWindowChange = (value: string) => {
+    setWindowDays(value);
+    propose(credits, parseInt(value));
+  };
+
+  const confirmedCredits = credits.filter((credit) => selections[credit.row] && selections[credit.row] !== SKIP);
+
+  const recordPayments = async () => {
+    if (confirmedCredits.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("payments")
+        .insert(confirmedCredits.flatMap((credit) => {
+          const period = periods.find((p) => p.id === selections[credit.row]);
+          return period ? [{
+            customer_id: period.customer_id,
+            subscription_period_id: period.id,
+            amount: credit.amount,
+            method: credit.method,
+            reference: credit.reference,
+            paid_on: format(credit.date, "yyyy-MM-dd"),
+            note: `Statement import: ${fileName}`,
+          }] : [];
+        }));
+
+      if (error) throw error;
+
+      toast.success(`Recorded ${confirmedCredits.length} payment${confirmedCredits.length !== 1 ? "s" : ""}`);
+      onChange?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error recording statement payments:", error);
+      toast.error("Failed to record payments");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const matchedCount = Object.values(reasons).filter((list) => list.length > 0).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wide">
+            Import Statement
+          </DialogTitle>
+          <DialogDescription>
+            Upload a bank or UPI statement CSV. Credits are matched to unpaid subscriptions by amount,
+            customer name or access code in the narration, and date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2 flex-1 min-w-[240px]">
+            <Label htmlFor="statement_file">Statement CSV</Label>
+            <Input
+              id="statement_file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFile}
+              disabled={isLoading}
+              className="bg-input"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Date Window</Label>
+            <Select value={windowDays} onValueChange={handleWindowChange}>
+              <SelectTrigger className="bg-input w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="3">± 3 days</SelectItem>
+                <SelectItem value="7">± 7 days</SelectItem>
+                <SelectItem value="14">± 14 days</SelectItem>
+                <SelectItem value="30">± 30 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : credits.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            {periods.length} unpaid subscription{periods.length !== 1 ? "s" : ""} waiting for a payment
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {credits.length} credit{credits.length !== 1 ? "s" : ""} in {fileName}, {matchedCount} matched
+            </p>
+            <ScrollArea className="max-h-[420px]">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border">
+                    <TableHead>Date</TableHead>
+                    <TableHead>Narration</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Matched On</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {credits.map((credit) => {
+                    const alreadyRecorded = !!credit.reference && recordedReferences.has(credit.reference);
+                    return (
+                      <TableRow key={credit.row} className="border-border">
+                        <TableCell className="text-muted-foreground whitespace-nowrap">
+                          {format(credit.date, "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell className="max-w-[280px]">
+                          <p className="truncate text-sm" title={credit.description}>{credit.description || "—"}</p>
+                          {credit.reference && (
+                            <code className="text-xs text-muted-foreground">{credit.reference}</code>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(credit.amount)}</TableCell>
+                        <TableCell className="min-w-[220px]">
+                          {alreadyRecorded ? (
+                            <span className="text-sm text-muted-foreground">Already recorded</span>
+                          ) : (
+                            <Select
+                              value={selections[credit.row] || SKIP}
+                              onValueChange={(value) => setSelections(prev => ({ ...prev, [credit.row]: value }))}
+                            >
+                              <SelectTrigger className="bg-input h-9">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={SKIP}>Don't record</SelectItem>
+                                {periods.map((period) => (
+                                  <SelectItem key={period.id} value={period.id}>
+                                    {period.customer_name} · {format(new Date(period.start_date), "MMM d")} · {formatCurrency(period.outstanding)} due
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {(reasons[credit.row] || []).map((reason) => (
+                              <Badge key={reason} variant="outline" className="text-xs">{reason}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="netflix" onClick={recordPayments} disabled={isSaving || confirmedCredits.length === 0}>
+            <CheckCircle className="w-4 h-4 mr-2" />
+            {isSaving ? "Recording..." : `Record ${confirmedCredits.length} Payment${confirmedCredits.length !== 1 ? "s" : ""}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StatementImportDialog;
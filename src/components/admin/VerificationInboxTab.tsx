@@ -0,0 +1,369 @@
+// ============================================
+// VERIFICATION INBOX TAB COMPONENT
+// Recent Netflix emails in every linked mailbox, what the parser made of them,
+// who fetched them, and manual push of a link/code to a customer
+// ============================================
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Inbox, RefreshCw, Send, ExternalLink, Loader2 } from "lucide-react";
+import { format, subDays } from "date-fns";
+
+interface InboxEmail {
+  id: string;
+  received_at: string;
+  subject: string;
+  kind: string; // temporary_access | household_update | sign_in_code | unknown
+  recipients: string[];
+  verification_link: string | null;
+  otp_code: string | null;
+  matched_account_id: string | null;
+  ambiguous: boolean;
+}
+
+interface InboxMailbox {
+  address: string;
+  provider: string; // gmail | imap
+  status: string; // connected | expired | revoked | error | not_configured
+  emails: InboxEmail[];
+}
+
+interface AccountSummary {
+  id: string;
+  netflix_email: string;
+  phone_number: string | null;
+}
+
+interface CustomerSummary {
+  id: string;
+  name: string;
+  netflix_account_id: string | null;
+  is_active: boolean;
+}
+
+interface OtpLogEntry {
+  otp_code: string;
+  customer_id: string | null;
+  source: string; // email | admin
+}
+
+const KIND_BADGES: Record<string, { label: string; variant: "default" | "secondary" | "outline" }> = {
+  temporary_access: { label: "Temporary Access", variant: "default" },
+  household_update: { label: "Household Update", variant: "secondary" },
+  sign_in_code: { label: "Sign-in Code", variant: "outline" },
+  unknown: { label: "Other", variant: "outline" },
+};
+
+const VerificationInboxTab = () => {
+  const [mailboxes, setMailboxes] = useState<InboxMailbox[]>([]);
+  const [accounts, setAccounts] = useState<Record<string, AccountSummary>>({});
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [otpLogs, setOtpLogs] = useState<OtpLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Manual push dialog
+  const [pushTarget, setPushTarget] = useState<{ value: string; accountId: string | null } | null>(null);
+  const [pushCustomerId, setPushCustomerId] = useState("");
+  const [isPushing, setIsPushing] = useState(false);
+
+  useEffect(() => {
+    fetchInbox();
+    fetchLookups();
+  }, []);
+
+  // Mailboxes are read server-side; credentials never reach the browser
+  const fetchInbox = async () => {
+    setIsLoading(true);
+    try {
+      const response = await supabase.functions.invoke("verification-inbox", {
+        body: { action: "list" },
+      });
+
+      if (response.error) throw new Error(response.error.message);
+      if (response.data?.error) throw new Error(response.data.error);
+
+      setMailboxes(response.data.mailboxes || []);
+    } catch (error) {
+      console.error("Error fetching verification inbox:", error);
+      toast.error("Failed to load verification inbox");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Accounts, customers and the last day of otp_logs, to label each email
+  const fetchLookups = async () => {
+    try {
+      const [accountsResult, customersResult, logsResult] = await Promise.all([
+        supabase.from("netflix_accounts").select("id, netflix_email, phone_number"),
+        supabase.from("customers").select("id, name, netflix_account_id, is_active").order("name"),
+        supabase
+          .from("otp_logs")
+          .select("otp_code, customer_id, source")
+          .gte("fetched_at", subDays(new Date(), 1).toISOString()),
+      ]);
+
+      if (accountsResult.error) throw accountsResult.error;
+      if (customersResult.error) throw customersResult.error;
+      if (logsResult.error) throw logsResult.error;
+
+      const accountMap: Record<string, AccountSummary> = {};
+      (accountsResult.data || []).forEach((account) => {
+        accountMap[account.id] = account;
+      });
+      setAccounts(accountMap);
+      setCustomers(customersResult.data || []);
+      setOtpLogs(logsResult.data || []);
+    } catch (error) {
+      console.error("Error fetching inbox lookups:", error);
+      toast.error("Failed to load accounts and customers");
+    }
+  };
+
+  const refresh = () => {
+    fetchInbox();
+    fetchLookups();
+  };
+
+  // Customers whose otp_logs entry carried this link/code
+  const getFetchedBy = (email: InboxEmail) => {
+    const value = email.verification_link || email.otp_code;
+    if (!value) return [];
+
+    const names = otpLogs
+      .filter((log) => log.otp_code === value)
+      .map((log) => {
+        const name = customers.find((customer) => customer.id === log.customer_id)?.name || "Unknown";
+        return log.source === "admin" ? `${name} (pushed)` : name;
+      });
+    return [...new Set(names)];
+  };
+
+  // Customers of the matched account, or everyone with an account when unmatched
+  const pushCandidates = customers.filter((customer) =>
+    customer.is_active &&
+    customer.netflix_account_id &&
+    (!pushTarget?.accountId || customer.netflix_account_id === pushTarget.accountId)
+  );
+
+  const openPushDialog = (email: InboxEmail) => {
+    setPushTarget({
+      value: email.verification_link || email.otp_code || "",
+      accountId: email.matched_account_id,
+    });
+    setPushCustomerId("");
+  };
+
+  const handlePush = async () => {
+    if (!pushTarget || !pushCustomerId || !pushTarget.value.trim()) {
+      toast.error("Choose a customer and enter a link or code");
+      return;
+    }
+
+    setIsPushing(true);
+    try {
+      const response = await supabase.functions.invoke("verification-inbox", {
+        body: { action: "push", customer_id: pushCustomerId, value: pushTarget.value },
+      });
+
+      if (response.error) throw new Error(response.error.message);
+      if (response.data?.error) throw new Error(response.data.error);
+
+      toast.success("Verification pushed to the customer's dashboard");
+      setPushTarget(null);
+      fetchLookups();
+    } catch (error) {
+      console.error("Error pushing verification:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to push verification");
+    } finally {
+      setIsPushing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-display text-3xl tracking-wide text-foreground">Verification Inbox</h2>
+          <p className="text-muted-foreground mt-1">Netflix emails received in the last 24 hours</p>
+        </div>
+        <Button variant="outline" onClick={refresh} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Card className="glass">
+          <CardContent className="p-8 text-center text-muted-foreground">Loading mailboxes...</CardContent>
+        </Card>
+      ) : mailboxes.length === 0 ? (
+        <Card className="glass">
+          <CardContent className="p-8 text-center text-muted-foreground">
+            No linked mailboxes yet. Link a mailbox to a Netflix account first.
+          </CardContent>
+        </Card>
+      ) : (
+        mailboxes.map((mailbox) => (
+          <Card key={mailbox.address} className="glass">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Inbox className="w-5 h-5 text-primary" />
+                {mailbox.address}
+                <Badge variant="outline" className="text-xs uppercase">{mailbox.provider}</Badge>
+                {mailbox.status !== "connected" && (
+                  <Badge variant="destructive" className="text-xs">{mailbox.status.replace("_", " ")}</Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                {mailbox.emails.length} Netflix email{mailbox.emails.length !== 1 ? "s" : ""}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {mailbox.emails.length === 0 ? (
+                <div className="px-6 pb-6 text-sm text-muted-foreground">
+                  {mailbox.status === "connected" ? "No Netflix emails in the last 24 hours" : "Mailbox could not be read"}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-border">
+                      <TableHead>Received</TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Link / Code</TableHead>
+                      <TableHead>Matched Account</TableHead>
+                      <TableHead>Fetched By</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {mailbox.emails.map((email) => {
+                      const kindBadge = KIND_BADGES[email.kind] || KIND_BADGES.unknown;
+                      const account = email.matched_account_id ? accounts[email.matched_account_id] : null;
+                      const fetchedBy = getFetchedBy(email);
+
+                      return (
+                        <TableRow key={email.id} className="border-border">
+                          <TableCell className="whitespace-nowrap text-sm">
+                            {format(new Date(email.received_at), "MMM d, h:mm a")}
+                          </TableCell>
+                          <TableCell className="max-w-[220px] truncate text-sm" title={email.subject}>
+                            {email.subject || "(no subject)"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={kindBadge.variant} className="text-xs whitespace-nowrap">{kindBadge.label}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            {email.verification_link ? (
+                              <a
+                                href={email.verification_link}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                              >
+                                <ExternalLink className="w-3 h-3" />
+                                Open link
+                              </a>
+                            ) : email.otp_code ? (
+                              <code className="font-mono text-sm">{email.otp_code}</code>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">None found</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {account ? (
+                              account.netflix_email || account.phone_number
+                            ) : (
+                              <span className="text-xs text-muted-foreground">
+                                {email.ambiguous ? "Ambiguous (several accounts)" : "Unmatched"}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {fetchedBy.length > 0 ? fetchedBy.join(", ") : <span className="text-xs text-muted-foreground">—</span>}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openPushDialog(email)}
+                              disabled={!email.verification_link && !email.otp_code}
+                            >
+                              <Send className="w-4 h-4 mr-1" />
+                              Push
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={!!pushTarget} onOpenChange={(open) => { if (!open) setPushTarget(null); }}>
+        <DialogContent className="bg-card border-border">
+          <DialogHeader>
+            <DialogTitle className="font-display text-2xl tracking-wide">Push Verification</DialogTitle>
+            <DialogDescription>
+              The customer sees this on their dashboard right away, or the next time they open it
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={pushCustomerId} onValueChange={setPushCustomerId}>
+                <SelectTrigger className="bg-input">
+                  <SelectValue placeholder="Select a customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pushCandidates.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {pushCandidates.length === 0 && (
+                <p className="text-xs text-muted-foreground">No active customers on this account</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="push_value">Link or Code</Label>
+              <Input
+                id="push_value"
+                value={pushTarget?.value || ""}
+                onChange={(e) => setPushTarget((prev) => prev && { ...prev, value: e.target.value })}
+                className="bg-input font-mono text-xs"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => setPushTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="netflix" onClick={handlePush} disabled={isPushing}>
+              {isPushing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              Push
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default VerificationInboxTab;
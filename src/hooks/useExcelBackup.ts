@@ -18,13 +18,15 @@ interface Customer {
   subscription_days: number;
   is_active: boolean;
   profile_number: number | null;
-  purchased_from: string | null;
+  reseller_id: string | null;
   selling_price: number | null;
   created_at: string;
   netflix_accounts: {
     netflix_email: string;
     netflix_password: string;
   } | null;
+  plans: { name: string } | null;
+  resellers: { name: string } | null;
 }
 
 interface NetflixAccount {
@@ -33,7 +35,9 @@ interface NetflixAccount {
   netflix_password: string;
   gmail_address: string | null;
   account_created_date: string | null;
-  payment_account: string | null;
+  payment_methods: { label: string } | null;
+  monthly_cost: number | null;
+  billing_day: number | null;
   created_at: string;
 }
 
@@ -47,7 +51,7 @@ export const useExcelBackup = () => {
       // Fetch all customers with their Netflix accounts
       const { data: customers, error: customersError } = await supabase
         .from("customers")
-        .select("*, netflix_accounts(netflix_email, netflix_password)")
+        .select("*, netflix_accounts(netflix_email, netflix_password), plans(name), resellers(name)")
         .order("created_at", { ascending: false });
 
       if (customersError) throw customersError;
@@ -55,7 +59,7 @@ export const useExcelBackup = () => {
       // Fetch all Netflix accounts
       const { data: accounts, error: accountsError } = await supabase
         .from("netflix_accounts")
-        .select("*")
+        .select("*, payment_methods(label)")
         .order("created_at", { ascending: false });
 
       if (accountsError) throw accountsError;
@@ -71,13 +75,14 @@ export const useExcelBackup = () => {
           "Netflix Email": customer.netflix_accounts?.netflix_email || "Not Assigned",
           "Netflix Password": customer.netflix_accounts?.netflix_password || "N/A",
           "Profile Number": customer.profile_number || "N/A",
+          "Plan": customer.plans?.name || `Custom (${customer.subscription_days} days)`,
           "Purchase Date": customer.purchase_date,
           "Subscription Days": customer.subscription_days,
           "End Date": format(endDate, "yyyy-MM-dd"),
           "Days Remaining": daysRemaining,
           "Status": !customer.is_active ? "Inactive" : (daysRemaining <= 0 ? "Expired" : "Active"),
-          "Purchased From": customer.purchased_from || "N/A",
-          "Selling Price": customer.selling_price || "N/A",
+          "Purchased From": customer.resellers?.name || "Direct",
+          "Selling Price": customer.selling_price ?? "N/A",
           "Created At": format(new Date(customer.created_at), "yyyy-MM-dd HH:mm"),
         };
       });
@@ -88,7 +93,9 @@ export const useExcelBackup = () => {
         "Netflix Password": account.netflix_password,
         "Linked Gmail": account.gmail_address || "N/A",
         "Account Created Date": account.account_created_date || "N/A",
-        "Payment Account": account.payment_account || "N/A",
+        "Payment Method": account.payment_methods?.label || "N/A",
+        "Monthly Cost": account.monthly_cost ?? "N/A",
+        "Billing Day": account.billing_day ?? "N/A",
         "Added On": format(new Date(account.created_at), "yyyy-MM-dd HH:mm"),
       }));
 
@@ -105,6 +112,7 @@ export const useExcelBackup = () => {
         { wch: 30 }, // Netflix Email
         { wch: 18 }, // Netflix Password
         { wch: 14 }, // Profile Number
+        { wch: 20 }, // Plan
         { wch: 14 }, // Purchase Date
         { wch: 16 }, // Subscription Days
         { wch: 14 }, // End Date
@@ -126,7 +134,9 @@ export const useExcelBackup = () => {
         { wch: 18 }, // Netflix Password
         { wch: 30 }, // Linked Gmail
         { wch: 20 }, // Account Created Date
-        { wch: 20 }, // Payment Account
+        { wch: 20 }, // Payment Method
+        { wch: 14 }, // Monthly Cost
+        { wch: 12 }, // Billing Day
         { wch: 18 }, // Added On
       ];
       
@@ -14,6 +14,168 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_events: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          created_at: string
+          event_type: string
+          id: string
+          mailbox_address: string
+          message_id: string
+          netflix_account_id: string | null
+          occurred_at: string
+          subject: string | null
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          created_at?: string
+          event_type: string
+          id?: string
+          mailbox_address: string
+          message_id: string
+          netflix_account_id?: string | null
+          occurred_at: string
+          subject?: string | null
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          created_at?: string
+          event_type?: string
+          id?: string
+          mailbox_address?: string
+          message_id?: string
+          netflix_account_id?: string | null
+          occurred_at?: string
+          subject?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_events_netflix_account_id_fkey"
+            columns: ["netflix_account_id"]
+            isOneToOne: false
+            referencedRelation: "netflix_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      account_replacements: {
+        Row: {
+          created_at: string
+          from_account_id: string | null
+          from_account_label: string
+          id: string
+          moves: Json
+          performed_by: string | null
+          reason: string | null
+          retired_from_account: boolean
+          to_account_id: string | null
+          to_account_label: string
+        }
+        Insert: {
+          created_at?: string
+          from_account_id?: string | null
+          from_account_label: string
+          id?: string
+          moves?: Json
+          performed_by?: string | null
+          reason?: string | null
+          retired_from_account?: boolean
+          to_account_id?: string | null
+          to_account_label: string
+        }
+        Update: {
+          created_at?: string
+          from_account_id?: string | null
+          from_account_label?: string
+          id?: string
+          moves?: Json
+          performed_by?: string | null
+          reason?: string | null
+          retired_from_account?: boolean
+          to_account_id?: string | null
+          to_account_label?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_replacements_from_account_id_fkey"
+            columns: ["from_account_id"]
+            isOneToOne: false
+            referencedRelation: "netflix_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_replacements_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "netflix_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      account_rotations: {
+        Row: {
+          created_at: string
+          customer_id: string
+          cycle_number: number
+          due_on: string
+          from_account_id: string | null
+          from_profile: number | null
+          id: string
+          performed_by: string | null
+          to_account_id: string | null
+          to_profile: number | null
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          cycle_number: number
+          due_on: string
+          from_account_id?: string | null
+          from_profile?: number | null
+          id?: string
+          performed_by?: string | null
+          to_account_id?: string | null
+          to_profile?: number | null
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          cycle_number?: number
+          due_on?: string
+          from_account_id?: string | null
+          from_profile?: number | null
+          id?: string
+          performed_by?: string | null
+          to_account_id?: string | null
+          to_profile?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_rotations_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_rotations_from_account_id_fkey"
+            columns: ["from_account_id"]
+            isOneToOne: false
+            referencedRelation: "netflix_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_rotations_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "netflix_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       admin_users: {
         Row: {
           created_at: string
@@ -32,50 +194,128 @@ export type Database = {
         }
         Relationships: []
       }
+      business_settings: {
+        Row: {
+          address: string | null
+          business_name: string
+          email: string | null
+          id: boolean
+          invoice_footer: string | null
+          invoice_prefix: string
+          next_invoice_number: number
+          phone: string | null
+          tax_id: string | null
+          tax_label: string
+          tax_rate: number
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          business_name?: string
+          email?: string | null
+          id?: boolean
+          invoice_footer?: string | null
+          invoice_prefix?: string
+          next_invoice_number?: number
+          phone?: string | null
+          tax_id?: string | null
+          tax_label?: string
+          tax_rate?: number
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          business_name?: string
+          email?: string | null
+          id?: boolean
+          invoice_footer?: string | null
+          invoice_prefix?: string
+          next_invoice_number?: number
+          phone?: string | null
+          tax_id?: string | null
+          tax_label?: string
+          tax_rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       customers: {
         Row: {
           access_code: string
+          allow_wallet_overdraft: boolean
           created_at: string
+          daily_verification_limit: number
           id: string
           is_active: boolean
           name: string
           netflix_account_id: string | null
+          plan_id: string | null
           profile_number: number | null
+          promo_code_id: string | null
           purchase_date: string
-          purchased_from: string | null
+          reseller_id: string | null
           selling_price: number | null
           subscription_days: number
           updated_at: string
         }
         Insert: {
           access_code: string
+          allow_wallet_overdraft?: boolean
           created_at?: string
+          daily_verification_limit?: number
           id?: string
           is_active?: boolean
           name: string
           netflix_account_id?: string | null
+          plan_id?: string | null
           profile_number?: number | null
+          promo_code_id?: string | null
           purchase_date?: string
-          purchased_from?: string | null
+          reseller_id?: string | null
           selling_price?: number | null
           subscription_days?: number
           updated_at?: string
         }
         Update: {
           access_code?: string
+          allow_wallet_overdraft?: boolean
           created_at?: string
+          daily_verification_limit?: number
           id?: string
           is_active?: boolean
           name?: string
           netflix_account_id?: string | null
+          plan_id?: string | null
           profile_number?: number | null
+          promo_code_id?: string | null
           purchase_date?: string
-          purchased_from?: string | null
+          reseller_id?: string | null
           selling_price?: number | null
           subscription_days?: number
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "customers_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customers_reseller_id_fkey"
+            columns: ["reseller_id"]
+            isOneToOne: false
+            referencedRelation: "resellers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customers_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "customers_netflix_account_id_fkey"
             columns: ["netflix_account_id"]
@@ -85,65 +325,257 @@ export type Database = {
           },
         ]
       }
+      gmail_credentials: {
+        Row: {
+          connected_by: string | null
+          created_at: string
+          gmail_address: string
+          id: string
+          last_checked_at: string | null
+          last_error: string | null
+          refresh_token: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          connected_by?: string | null
+          created_at?: string
+          gmail_address: string
+          id?: string
+          last_checked_at?: string | null
+          last_error?: string | null
+          refresh_token: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          connected_by?: string | null
+          created_at?: string
+          gmail_address?: string
+          id?: string
+          last_checked_at?: string | null
+          last_error?: string | null
+          refresh_token?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      imap_mailboxes: {
+        Row: {
+          address: string
+          created_at: string
+          host: string
+          id: string
+          mailbox: string
+          password: string
+          port: number
+          updated_at: string
+          use_tls: boolean
+          username: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          host: string
+          id?: string
+          mailbox?: string
+          password: string
+          port?: number
+          updated_at?: string
+          use_tls?: boolean
+          username: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          host?: string
+          id?: string
+          mailbox?: string
+          password?: string
+          port?: number
+          updated_at?: string
+          use_tls?: boolean
+          username?: string
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          created_at: string
+          customer_id: string | null
+          customer_name: string
+          id: string
+          invoice_number: string
+          issued_on: string
+          period_days: number
+          period_start: string
+          plan_name: string | null
+          source: string
+          subscription_period_id: string | null
+          subtotal: number
+          tax_amount: number
+          tax_label: string | null
+          tax_rate: number
+          total: number
+        }
+        Insert: {
+          created_at?: string
+          customer_id?: string | null
+          customer_name: string
+          id?: string
+          invoice_number: string
+          issued_on: string
+          period_days: number
+          period_start: string
+          plan_name?: string | null
+          source: string
+          subscription_period_id?: string | null
+          subtotal: number
+          tax_amount?: number
+          tax_label?: string | null
+          tax_rate?: number
+          total: number
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string | null
+          customer_name?: string
+          id?: string
+          invoice_number?: string
+          issued_on?: string
+          period_days?: number
+          period_start?: string
+          plan_name?: string | null
+          source?: string
+          subscription_period_id?: string | null
+          subtotal?: number
+          tax_amount?: number
+          tax_label?: string | null
+          tax_rate?: number
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_subscription_period_id_fkey"
+            columns: ["subscription_period_id"]
+            isOneToOne: true
+            referencedRelation: "subscription_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       netflix_accounts: {
         Row: {
           account_created_date: string | null
+          billing_day: number | null
           created_at: string
           gmail_address: string | null
           id: string
+          mailbox_provider: string
+          monthly_cost: number | null
           netflix_email: string | null
           netflix_password: string
-          payment_account: string | null
+          paid_through: string | null
+          payment_method_id: string | null
           phone_number: string | null
+          profile_capacity: number
+          status: string
+          status_changed_at: string
+          status_reason: string | null
           updated_at: string
         }
         Insert: {
           account_created_date?: string | null
+          billing_day?: number | null
           created_at?: string
           gmail_address?: string | null
           id?: string
+          mailbox_provider?: string
+          monthly_cost?: number | null
           netflix_email?: string | null
           netflix_password: string
-          payment_account?: string | null
+          paid_through?: string | null
+          payment_method_id?: string | null
           phone_number?: string | null
+          profile_capacity?: number
+          status?: string
+          status_changed_at?: string
+          status_reason?: string | null
           updated_at?: string
         }
         Update: {
           account_created_date?: string | null
+          billing_day?: number | null
           created_at?: string
           gmail_address?: string | null
           id?: string
+          mailbox_provider?: string
+          monthly_cost?: number | null
           netflix_email?: string | null
           netflix_password?: string
-          payment_account?: string | null
+          paid_through?: string | null
+          payment_method_id?: string | null
           phone_number?: string | null
+          profile_capacity?: number
+          status?: string
+          status_changed_at?: string
+          status_reason?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "netflix_accounts_payment_method_id_fkey"
+            columns: ["payment_method_id"]
+            isOneToOne: false
+            referencedRelation: "payment_methods"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       otp_logs: {
         Row: {
+          customer_id: string | null
           expires_at: string
           fetched_at: string
           id: string
           netflix_account_id: string | null
           otp_code: string
+          source: string
         }
         Insert: {
+          customer_id?: string | null
           expires_at?: string
           fetched_at?: string
           id?: string
           netflix_account_id?: string | null
           otp_code: string
+          source?: string
         }
         Update: {
+          customer_id?: string | null
           expires_at?: string
           fetched_at?: string
           id?: string
           netflix_account_id?: string | null
           otp_code?: string
+          source?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "otp_logs_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "otp_logs_netflix_account_id_fkey"
             columns: ["netflix_account_id"]
@@ -153,11 +585,594 @@ export type Database = {
           },
         ]
       }
+      payment_methods: {
+        Row: {
+          card_expiry: string | null
+          card_last4: string | null
+          created_at: string
+          id: string
+          label: string
+          method_type: string
+          notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          card_expiry?: string | null
+          card_last4?: string | null
+          created_at?: string
+          id?: string
+          label: string
+          method_type?: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          card_expiry?: string | null
+          card_last4?: string | null
+          created_at?: string
+          id?: string
+          label?: string
+          method_type?: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          id: string
+          method: string
+          note: string | null
+          paid_on: string
+          reference: string | null
+          subscription_period_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          id?: string
+          method?: string
+          note?: string | null
+          paid_on?: string
+          reference?: string | null
+          subscription_period_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          id?: string
+          method?: string
+          note?: string | null
+          paid_on?: string
+          reference?: string | null
+          subscription_period_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_subscription_period_id_fkey"
+            columns: ["subscription_period_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plans: {
+        Row: {
+          created_at: string
+          days: number
+          id: string
+          is_active: boolean
+          name: string
+          price: number | null
+          profile_type: string
+          updated_at: string
+          wholesale_price: number | null
+        }
+        Insert: {
+          created_at?: string
+          days: number
+          id?: string
+          is_active?: boolean
+          name: string
+          price?: number | null
+          profile_type?: string
+          updated_at?: string
+          wholesale_price?: number | null
+        }
+        Update: {
+          created_at?: string
+          days?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          price?: number | null
+          profile_type?: string
+          updated_at?: string
+          wholesale_price?: number | null
+        }
+        Relationships: []
+      }
+      profile_slots: {
+        Row: {
+          created_at: string
+          customer_id: string | null
+          id: string
+          netflix_account_id: string
+          profile_name: string | null
+          profile_pin: string | null
+          slot_number: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id?: string | null
+          id?: string
+          netflix_account_id: string
+          profile_name?: string | null
+          profile_pin?: string | null
+          slot_number: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string | null
+          id?: string
+          netflix_account_id?: string
+          profile_name?: string | null
+          profile_pin?: string | null
+          slot_number?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_slots_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: true
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profile_slots_netflix_account_id_fkey"
+            columns: ["netflix_account_id"]
+            isOneToOne: false
+            referencedRelation: "netflix_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promo_codes: {
+        Row: {
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          id: string
+          is_active: boolean
+          max_redemptions: number | null
+          reseller_id: string | null
+          updated_at: string
+          valid_from: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value: number
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          reseller_id?: string | null
+          updated_at?: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          reseller_id?: string | null
+          updated_at?: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_codes_reseller_id_fkey"
+            columns: ["reseller_id"]
+            isOneToOne: false
+            referencedRelation: "resellers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reseller_wallet_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          customer_id: string | null
+          id: string
+          kind: string
+          note: string | null
+          reseller_id: string
+          subscription_period_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string | null
+          id?: string
+          kind: string
+          note?: string | null
+          reseller_id: string
+          subscription_period_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string | null
+          id?: string
+          kind?: string
+          note?: string | null
+          reseller_id?: string
+          subscription_period_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reseller_wallet_transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reseller_wallet_transactions_reseller_id_fkey"
+            columns: ["reseller_id"]
+            isOneToOne: false
+            referencedRelation: "resellers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reseller_wallet_transactions_subscription_period_id_fkey"
+            columns: ["subscription_period_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resellers: {
+        Row: {
+          commission_rate: number
+          contact_email: string | null
+          contact_phone: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          message_signature: string | null
+          name: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          commission_rate?: number
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          message_signature?: string | null
+          name: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          commission_rate?: number
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          message_signature?: string | null
+          name?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      slot_assignment_settings: {
+        Row: {
+          fill_order: string
+          id: boolean
+          match_paid_through: boolean
+          require_paid_through: boolean
+          updated_at: string
+        }
+        Insert: {
+          fill_order?: string
+          id?: boolean
+          match_paid_through?: boolean
+          require_paid_through?: boolean
+          updated_at?: string
+        }
+        Update: {
+          fill_order?: string
+          id?: boolean
+          match_paid_through?: boolean
+          require_paid_through?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sms_forwarders: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          label: string | null
+          last_seen_at: string | null
+          phone_number: string
+          secret_hash: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          label?: string | null
+          last_seen_at?: string | null
+          phone_number: string
+          secret_hash: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          label?: string | null
+          last_seen_at?: string | null
+          phone_number?: string
+          secret_hash?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      subscription_periods: {
+        Row: {
+          allow_wallet_overdraft: boolean
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          days: number
+          discount_amount: number
+          end_date: string | null
+          id: string
+          note: string | null
+          plan_id: string | null
+          price: number | null
+          promo_code_id: string | null
+          source: string
+          start_date: string
+        }
+        Insert: {
+          allow_wallet_overdraft?: boolean
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          days: number
+          discount_amount?: number
+          end_date?: never
+          id?: string
+          note?: string | null
+          plan_id?: string | null
+          price?: number | null
+          promo_code_id?: string | null
+          source: string
+          start_date: string
+        }
+        Update: {
+          allow_wallet_overdraft?: boolean
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          days?: number
+          discount_amount?: number
+          end_date?: never
+          id?: string
+          note?: string | null
+          plan_id?: string | null
+          price?: number | null
+          promo_code_id?: string | null
+          source?: string
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscription_periods_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_periods_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_periods_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verification_requests: {
+        Row: {
+          created_at: string
+          customer_id: string
+          detail: string | null
+          id: string
+          ip_address: string | null
+          latency_ms: number
+          netflix_account_id: string | null
+          result: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          detail?: string | null
+          id?: string
+          ip_address?: string | null
+          latency_ms: number
+          netflix_account_id?: string | null
+          result: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          detail?: string | null
+          id?: string
+          ip_address?: string | null
+          latency_ms?: number
+          netflix_account_id?: string | null
+          result?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verification_requests_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "verification_requests_netflix_account_id_fkey"
+            columns: ["netflix_account_id"]
+            isOneToOne: false
+            referencedRelation: "netflix_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verification_sessions: {
+        Row: {
+          created_at: string
+          customer_id: string
+          delivered_at: string | null
+          expires_at: string
+          id: string
+          last_checked_at: string | null
+          netflix_account_id: string
+          otp_log_id: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          delivered_at?: string | null
+          expires_at: string
+          id?: string
+          last_checked_at?: string | null
+          netflix_account_id: string
+          otp_log_id?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          delivered_at?: string | null
+          expires_at?: string
+          id?: string
+          last_checked_at?: string | null
+          netflix_account_id?: string
+          otp_log_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verification_sessions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "verification_sessions_netflix_account_id_fkey"
+            columns: ["netflix_account_id"]
+            isOneToOne: false
+            referencedRelation: "netflix_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "verification_sessions_otp_log_id_fkey"
+            columns: ["otp_log_id"]
+            isOneToOne: false
+            referencedRelation: "otp_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      customer_payment_status: {
+        Row: {
+          amount_due: number | null
+          amount_paid: number | null
+          customer_id: string | null
+          payment_status: string | null
+          unpaid_since: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      apply_account_rotations: { Args: { p_moves: Json }; Returns: number }
+      auto_assign_profile_slot: {
+        Args: { p_customer_id: string }
+        Returns: {
+          netflix_account_id: string
+          netflix_email: string
+          netflix_password: string
+          profile_number: number
+        }[]
+      }
+      find_free_profile_slot: {
+        Args: { p_ends_on?: string }
+        Returns: {
+          netflix_account_id: string
+          profile_number: number
+        }[]
+      }
       generate_access_code: { Args: never; Returns: string }
       get_customer_by_access_code: {
         Args: { p_access_code: string }
@@ -174,20 +1189,105 @@ export type Database = {
           netflix_account_id: string
           netflix_email: string
           netflix_password: string
+          profile_name: string
           profile_number: number
+          profile_pin: string
           purchase_date: string
           purchased_from: string
           subscription_days: number
         }[]
       }
+      get_customer_invoices_by_access_code: {
+        Args: { p_access_code: string }
+        Returns: {
+          customer_name: string
+          id: string
+          invoice_number: string
+          issued_on: string
+          period_days: number
+          period_start: string
+          plan_name: string
+          source: string
+          subtotal: number
+          tax_amount: number
+          tax_label: string
+          tax_rate: number
+          total: number
+        }[]
+      }
+      get_gmail_credential_status: {
+        Args: never
+        Returns: {
+          gmail_address: string
+          last_checked_at: string
+          last_error: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      get_invoice_business_details: {
+        Args: never
+        Returns: {
+          address: string
+          business_name: string
+          email: string
+          invoice_footer: string
+          phone: string
+          tax_id: string
+        }[]
+      }
       get_otp_by_access_code: {
         Args: { p_access_code: string }
         Returns: {
           expires_at: string
+          fetched_at: string
+          otp_code: string
+        }[]
+      }
+      get_reseller_account_credentials: {
+        Args: never
+        Returns: {
+          netflix_account_id: string
+          netflix_email: string
+          netflix_password: string
+        }[]
+      }
+      get_reseller_id: { Args: { _user_id: string }; Returns: string }
+      get_verification_session_by_access_code: {
+        Args: { p_access_code: string; p_session_id: string }
+        Returns: {
+          expires_at: string
+          fetched_at: string
           otp_code: string
+          status: string
         }[]
       }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
+      issue_invoice: { Args: { _period_id: string }; Returns: undefined }
+      replace_netflix_account: {
+        Args: {
+          p_from_account_id: string
+          p_reason?: string
+          p_retire?: boolean
+          p_to_account_id: string
+        }
+        Returns: number
+      }
+      reseller_create_customer: {
+        Args: { p_name: string; p_plan_id: string }
+        Returns: {
+          access_code: string
+          customer_id: string
+          netflix_email: string
+          netflix_password: string
+          profile_number: number
+        }[]
+      }
+      reseller_renew_customer: {
+        Args: { p_customer_id: string; p_plan_id: string; p_promo_code_id?: string }
+        Returns: string
+      }
+      reseller_wallet_balance: { Args: { _reseller_id: string }; Returns: number }
       verify_access_code: { Args: { p_access_code: string }; Returns: string }
     }
     Enums: {
@@ -0,0 +1,19 @@
+// ============================================
+// NETFLIX ACCOUNT STATUS
+// Lifecycle statuses stored in netflix_accounts.status; only active
+// accounts are offered when assigning customers
+// ============================================
+
+export type AccountStatus = "active" | "needs_attention" | "billing_failed" | "locked" | "retired";
+
+export const ACCOUNT_STATUSES: Record<AccountStatus, { label: string; variant: "default" | "destructive" | "outline" | "secondary" }> = {
+  active: { label: "Active", variant: "default" },
+  needs_attention: { label: "Needs attention", variant: "outline" },
+  billing_failed: { label: "Billing failed", variant: "destructive" },
+  locked: { label: "Locked", variant: "destructive" },
+  retired: { label: "Retired", variant: "secondary" },
+};
+
+export function getAccountStatusBadge(status: string) {
+  return ACCOUNT_STATUSES[status as AccountStatus] || { label: status, variant: "outline" as const };
+}
@@ -0,0 +1,207 @@
+// ============================================
+// BANK STATEMENT PARSING & MATCHING
+// Reads the credits out of a bank/UPI statement CSV and proposes which open
+// subscription period each one pays for
+// ============================================
+
+import * as XLSX from "xlsx";
+import { differenceInCalendarDays, isValid, parse, parseISO } from "date-fns";
+
+export interface StatementCredit {
+  row: number; // Line number in the file
+  date: Date;
+  description: string;
+  reference: string | null;
+  amount: number;
+  method: "upi" | "bank_transfer";
+}
+
+export interface OpenPeriod {
+  id: string;
+  customer_id: string;
+  customer_name: string;
+  access_code: string;
+  start_date: string;
+  outstanding: number;
+}
+
+export interface StatementMatch {
+  credit: StatementCredit;
+  period: OpenPeriod | null;
+  reasons: string[]; // Why the period was proposed, for the review table
+}
+
+// Header spellings used by the banks and UPI apps we have seen, compared
+// lowercased with everything but letters and digits removed
+const COLUMN_ALIASES = {
+  date: ["date", "txndate", "transactiondate", "valuedate", "trandate", "postingdate", "valuedt", "txndt"],
+  description: ["narration", "description", "particulars", "remarks", "transactionremarks", "details", "transactiondetails"],
+  reference: ["chqrefno", "refchqno", "refno", "referenceno", "reference", "utr", "utrno", "chequeno", "chqno", "transactionid", "upirefno"],
+  credit: ["credit", "credits", "creditamount", "depositamt", "depositamount", "deposit", "deposits", "cramount"],
+  amount: ["amount", "amountinr", "transactionamount", "txnamount"],
+  direction: ["drcr", "crdr", "debitcredit", "type", "transactiontype"],
+};
+
+const DATE_FORMATS = [
+  "dd/MM/yyyy",
+  "dd-MM-yyyy",
+  "dd.MM.yyyy",
+  "yyyy-MM-dd",
+  "dd-MMM-yyyy",
+  "dd MMM yyyy",
+  "dd/MM/yy",
+  "dd-MM-yy",
+  "dd-MMM-yy",
+  "dd MMM yy",
+];
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const findColumn = (headers: string[], aliases: string[]) =>
+  headers.findIndex((header) => aliases.includes(normalizeHeader(header)));
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value.replace(/[^0-9.-]/g, ""));
+  return isNaN(amount) ? 0 : amount;
+};
+
+const parseStatementDate = (value: string) => {
+  const trimmed = value.trim();
+  // Some exports append the time, e.g. "05/03/2026 14:22:10"
+  const candidates = [trimmed, trimmed.split(/[ T]/)[0]];
+  for (const candidate of candidates) {
+    for (const dateFormat of DATE_FORMATS) {
+      const date = parse(candidate, dateFormat, new Date());
+      if (isValid(date) && date.getFullYear() > 2000) return date;
+    }
+  }
+  return null;
+};
+
+// UPI narrations carry the 12-digit RRN, e.g. "UPI/604512345678/RAHUL/..."
+const extractReference = (description: string) => description.match(/\b\d{12}\b/)?.[0] || null;
+
+/**
+ * Parses a statement CSV and returns its credits. Preamble lines (account
+ * details, opening balance) are skipped by looking for the header row.
+ * Handles separate Credit/Debit columns as well as a single Amount column
+ * with an optional Dr/Cr indicator.
+ */
+export function parseStatementCsv(text: string): StatementCredit[] {
+  const workbook = XLSX.read(text, { type: "string", raw: true });
+  const rows = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[workbook.SheetNames[0]], {
+    header: 1,
+    raw: false,
+    defval: "",
+  });
+
+  const headerIndex = rows.findIndex((row) => {
+    const headers = row.map(String);
+    return findColumn(headers, COLUMN_ALIASES.date) >= 0 &&
+      (findColumn(headers, COLUMN_ALIASES.credit) >= 0 || findColumn(headers, COLUMN_ALIASES.amount) >= 0);
+  });
+
+  if (headerIndex < 0) {
+    throw new Error("Could not find the date and amount columns in this file");
+  }
+
+  const headers = rows[headerIndex].map(String);
+  const columns = {
+    date: findColumn(headers, COLUMN_ALIASES.date),
+    description: findColumn(headers, COLUMN_ALIASES.description),
+    reference: findColumn(headers, COLUMN_ALIASES.reference),
+    credit: findColumn(headers, COLUMN_ALIASES.credit),
+    amount: findColumn(headers, COLUMN_ALIASES.amount),
+    direction: findColumn(headers, COLUMN_ALIASES.direction),
+  };
+
+  const credits: StatementCredit[] = [];
+
+  rows.slice(headerIndex + 1).forEach((cells, index) => {
+    const cell = (column: number) => (column >= 0 ? String(cells[column] ?? "").trim() : "");
+
+    const date = parseStatementDate(cell(columns.date));
+    if (!date) return; // Totals, closing balance and other footer lines
+
+    let amount: number;
+    if (columns.credit >= 0) {
+      amount = parseAmount(cell(columns.credit));
+    } else if (/^(cr|credit|c)\.?$/i.test(cell(columns.direction))) {
+      amount = parseAmount(cell(columns.amount));
+    } else if (/^(dr|debit|d)\.?$/i.test(cell(columns.direction))) {
+      amount = 0;
+    } else {
+      amount = parseAmount(cell(columns.amount)); // No indicator: debits are exported as negative amounts
+    }
+    if (amount <= 0) return;
+
+    const description = cell(columns.description);
+    const reference = cell(columns.reference).replace(/^[-0]*$/, "") || extractReference(description);
+
+    credits.push({
+      row: headerIndex + index + 2,
+      date,
+      description,
+      reference,
+      amount,
+      method: /upi/i.test(description) ? "upi" : "bank_transfer",
+    });
+  });
+
+  return credits;
+}
+
+const nameMatches = (description: string, name: string) => {
+  const words = name.toLowerCase().split(/\s+/).filter((word) => word.length >= 3);
+  const text = description.toLowerCase();
+  return words.length > 0 && words.every((word) => text.includes(word));
+};
+
+/**
+ * Proposes at most one open period per credit and uses each period at most
+ * once. A candidate must start within windowDays of the credit and either
+ * match the outstanding amount or mention the customer in the narration;
+ * the strongest candidates are assigned first.
+ */
+export function matchCredits(credits: StatementCredit[], periods: OpenPeriod[], windowDays: number): StatementMatch[] {
+  const candidates: { credit: StatementCredit; period: OpenPeriod; score: number; reasons: string[] }[] = [];
+
+  for (const credit of credits) {
+    for (const period of periods) {
+      const distance = Math.abs(differenceInCalendarDays(credit.date, parseISO(period.start_date)));
+      if (distance > windowDays) continue;
+
+      const reasons: string[] = [];
+      let score = 0;
+
+      if (Math.abs(credit.amount - period.outstanding) < 0.01) {
+        reasons.push("amount");
+        score += 2;
+      }
+      // Word boundaries so a code inside a 12-digit RRN does not count
+      if (new RegExp(`\\b${period.access_code}\\b`).test(credit.description)) {
+        reasons.push("access code");
+        score += 3;
+      } else if (nameMatches(credit.description, period.customer_name)) {
+        reasons.push("name");
+        score += 2;
+      }
+      if (reasons.length === 0) continue;
+
+      reasons.push(distance === 0 ? "same day" : `${distance}d from start`);
+      candidates.push({ credit, period, score: score - distance / (windowDays + 1), reasons });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const assigned = new Map<number, StatementMatch>();
+  const usedPeriods = new Set<string>();
+  for (const candidate of candidates) {
+    if (assigned.has(candidate.credit.row) || usedPeriods.has(candidate.period.id)) continue;
+    assigned.set(candidate.credit.row, { credit: candidate.credit, period: candidate.period, reasons: candidate.reasons });
+    usedPeriods.add(candidate.period.id);
+  }
+
+  return credits.map((credit) => assigned.get(credit.row) || { credit, period: null, reasons: [] });
+}
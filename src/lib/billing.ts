@@ -0,0 +1,72 @@
+// ============================================
+// NETFLIX ACCOUNT BILLING
+// Renewal dates from each account's billing day, and how payment methods
+// are labelled; shared by the billing calendar, the accounts tab and the
+// notification bell
+// ============================================
+
+import { addMonths, endOfMonth, format, getDaysInMonth, parseISO, setDate, startOfDay } from "date-fns";
+
+export const RENEWAL_ALERT_DAYS = 7; // Renewals this close are checked against customer expiries
+export const CARD_EXPIRY_ALERT_DAYS = 30;
+
+export interface PaymentMethod {
+  id: string;
+  label: string;
+  method_type: string; // card | upi | other
+  card_last4: string | null;
+  card_expiry: string | null; // First day of the MM/YY month printed on the card
+}
+
+export const PAYMENT_METHOD_TYPES: Record<string, string> = {
+  card: "Card",
+  upi: "UPI autopay",
+  other: "Other",
+};
+
+// Billing day in the given month, moved to the last day when the month is shorter
+const renewalInMonth = (billingDay: number, month: Date) =>
+  setDate(month, Math.min(billingDay, getDaysInMonth(month)));
+
+// The next charge on or after today. An account paid through a later date
+// is not charged again until then.
+export function getNextRenewal(
+  account: { billing_day: number | null; paid_through: string | null },
+  today = new Date()
+): Date | null {
+  if (!account.billing_day) return null;
+
+  const paidThrough = account.paid_through ? parseISO(account.paid_through) : null;
+  const from = paidThrough && paidThrough > today ? startOfDay(paidThrough) : startOfDay(today);
+  const thisMonth = renewalInMonth(account.billing_day, from);
+
+  return thisMonth >= from ? thisMonth : renewalInMonth(account.billing_day, addMonths(from, 1));
+}
+
+// Every charge between two dates, for the calendar
+export function getRenewalsBetween(
+  account: { billing_day: number | null; paid_through: string | null },
+  start: Date,
+  end: Date
+): Date[] {
+  const renewals: Date[] = [];
+  let renewal = getNextRenewal(account, start);
+
+  while (renewal && renewal <= end) {
+    renewals.push(renewal);
+    renewal = renewalInMonth(account.billing_day as number, addMonths(renewal, 1));
+  }
+
+  return renewals;
+}
+
+// Cards stay valid through the last day of their expiry month
+export const getCardExpiryEnd = (method: PaymentMethod): Date | null =>
+  method.card_expiry ? endOfMonth(parseISO(method.card_expiry)) : null;
+
+export const formatPaymentMethod = (method: PaymentMethod): string => {
+  const parts = [method.label];
+  if (method.card_last4) parts.push(`•••• ${method.card_last4}`);
+  if (method.card_expiry) parts.push(`exp ${format(parseISO(method.card_expiry), "MM/yy")}`);
+  return parts.join(" · ");
+};
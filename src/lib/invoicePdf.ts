@@ -0,0 +1,121 @@
+// ============================================
+// INVOICE PDF
+// Renders a stored invoice as an A4 PDF and downloads it; used by the admin
+// customer list and the customer dashboard
+// ============================================
+
+import { jsPDF } from "jspdf";
+import { addDays, format } from "date-fns";
+
+export interface InvoiceData {
+  invoice_number: string;
+  customer_name: string;
+  plan_name: string | null;
+  period_start: string;
+  period_days: number;
+  source: string; // new | renewal
+  subtotal: number;
+  tax_label: string | null;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  issued_on: string;
+}
+
+export interface BusinessDetails {
+  business_name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  tax_id: string | null;
+  invoice_footer: string | null;
+}
+
+// The built-in PDF fonts have no rupee glyph, so amounts are printed as "Rs."
+const formatAmount = (amount: number) =>
+  `Rs. ${new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount)}`;
+
+const PAGE_MARGIN = 20;
+
+export function downloadInvoicePdf(invoice: InvoiceData, business: BusinessDetails) {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const right = pageWidth - PAGE_MARGIN;
+
+  // Seller
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text(business.business_name, PAGE_MARGIN, 28);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  const sellerLines = [
+    ...(business.address ? doc.splitTextToSize(business.address, 90) : []),
+    business.phone,
+    business.email,
+    business.tax_id && `GSTIN: ${business.tax_id}`,
+  ].filter(Boolean) as string[];
+  doc.text(sellerLines, PAGE_MARGIN, 35);
+
+  // Invoice number and date
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(22);
+  doc.text("INVOICE", right, 28, { align: "right" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(`Invoice No: ${invoice.invoice_number}`, right, 35, { align: "right" });
+  doc.text(`Date: ${format(new Date(invoice.issued_on), "MMM d, yyyy")}`, right, 40, { align: "right" });
+
+  // Buyer
+  let y = Math.max(35 + sellerLines.length * 5, 45) + 10;
+  doc.setFont("helvetica", "bold");
+  doc.text("Bill To", PAGE_MARGIN, y);
+  doc.setFont("helvetica", "normal");
+  doc.text(invoice.customer_name, PAGE_MARGIN, y + 5);
+
+  // Line item
+  y += 18;
+  doc.setFillColor(240, 240, 240);
+  doc.rect(PAGE_MARGIN, y - 5, right - PAGE_MARGIN, 8, "F");
+  doc.setFont("helvetica", "bold");
+  doc.text("Description", PAGE_MARGIN + 2, y);
+  doc.text("Period", 110, y);
+  doc.text("Amount", right - 2, y, { align: "right" });
+
+  y += 9;
+  doc.setFont("helvetica", "normal");
+  const description = `${invoice.plan_name || `${invoice.period_days}-day subscription`} (${invoice.source === "renewal" ? "Renewal" : "New subscription"})`;
+  const periodStart = new Date(invoice.period_start);
+  doc.text(doc.splitTextToSize(description, 80), PAGE_MARGIN + 2, y);
+  doc.text(`${format(periodStart, "MMM d, yyyy")} - ${format(addDays(periodStart, invoice.period_days), "MMM d, yyyy")}`, 110, y);
+  doc.text(formatAmount(invoice.subtotal), right - 2, y, { align: "right" });
+
+  // Totals
+  y += 12;
+  doc.setDrawColor(200, 200, 200);
+  doc.line(110, y - 5, right, y - 5);
+  doc.text("Subtotal", 110, y);
+  doc.text(formatAmount(invoice.subtotal), right - 2, y, { align: "right" });
+  if (invoice.tax_amount > 0) {
+    y += 6;
+    doc.text(`${invoice.tax_label || "Tax"} @ ${invoice.tax_rate}%`, 110, y);
+    doc.text(formatAmount(invoice.tax_amount), right - 2, y, { align: "right" });
+  }
+  y += 8;
+  doc.setFont("helvetica", "bold");
+  doc.text("Total", 110, y);
+  doc.text(formatAmount(invoice.total), right - 2, y, { align: "right" });
+
+  // Footer
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.setTextColor(120, 120, 120);
+  doc.text(
+    doc.splitTextToSize(business.invoice_footer || "Thank you for your business.", right - PAGE_MARGIN),
+    pageWidth / 2,
+    doc.internal.pageSize.getHeight() - 20,
+    { align: "center" }
+  );
+
+  doc.save(`${invoice.invoice_number}.pdf`);
+}
@@ -0,0 +1,41 @@
+// ============================================
+// PROMO CODES
+// Client-side mirror of apply_promo_code(), used to list the codes that can
+// be offered for a sale and to preview the discount before saving
+// ============================================
+
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/utils";
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  discount_type: string; // percent | flat
+  discount_value: number;
+  valid_from: string | null;
+  valid_until: string | null;
+  reseller_id: string | null; // Only valid for this reseller's customers
+  is_active: boolean;
+}
+
+// The usage cap is not checked here; the database rejects the sale if it is reached
+export function isPromoAvailable(promo: PromoCode, resellerId: string | null, today = new Date()) {
+  const day = format(today, "yyyy-MM-dd");
+  return (
+    promo.is_active &&
+    (!promo.valid_from || promo.valid_from <= day) &&
+    (!promo.valid_until || promo.valid_until >= day) &&
+    (!promo.reseller_id || promo.reseller_id === resellerId)
+  );
+}
+
+export function getPromoDiscount(promo: PromoCode, price: number) {
+  if (price <= 0) return 0;
+  return promo.discount_type === "percent"
+    ? Math.round(price * promo.discount_value) / 100
+    : Math.min(promo.discount_value, price);
+}
+
+export function formatPromoValue(promo: PromoCode) {
+  return promo.discount_type === "percent" ? `${promo.discount_value}% off` : `${formatCurrency(promo.discount_value)} off`;
+}
@@ -0,0 +1,139 @@
+// ============================================
+// MONTHLY ACCOUNT ROTATION
+// Customers on 30+ day plans move account every 30 days from purchase.
+// Shared by the overview, the notification bell and the rotation planner;
+// rotations already recorded in account_rotations are never due again.
+// ============================================
+
+import { addDays, differenceInDays, format, parseISO, startOfDay } from "date-fns";
+
+export const ROTATION_INTERVAL_DAYS = 30;
+export const ROTATION_WINDOW_DAYS = 7; // Shown this many days before and after the due date
+
+export interface RotationDue {
+  cycle: number; // Rotation n falls on purchase_date + 30 * n
+  dueOn: Date;
+  daysLeft: number; // Negative once overdue
+}
+
+export const rotationKey = (customerId: string, cycle: number) => `${customerId}:${cycle}`;
+
+// The rotation closest to today that is neither done nor outside the window
+export function getRotationDue(
+  customer: { id: string; purchase_date: string; subscription_days: number },
+  completed: Set<string>,
+  today = new Date()
+): RotationDue | null {
+  if (customer.subscription_days < ROTATION_INTERVAL_DAYS) return null;
+
+  const purchaseDate = parseISO(customer.purchase_date);
+  const expiryDate = addDays(purchaseDate, customer.subscription_days);
+  const day = startOfDay(today);
+  const currentCycle = Math.floor(differenceInDays(day, purchaseDate) / ROTATION_INTERVAL_DAYS);
+
+  for (const cycle of [currentCycle, currentCycle + 1]) {
+    if (cycle < 1 || completed.has(rotationKey(customer.id, cycle))) continue;
+
+    const dueOn = addDays(purchaseDate, cycle * ROTATION_INTERVAL_DAYS);
+    const daysLeft = differenceInDays(dueOn, day);
+    if (dueOn < expiryDate && Math.abs(daysLeft) <= ROTATION_WINDOW_DAYS) {
+      return { cycle, dueOn, daysLeft };
+    }
+  }
+
+  return null;
+}
+
+export const formatRotationDue = (daysLeft: number): string => {
+  if (daysLeft === 0) return "due today";
+  const days = Math.abs(daysLeft);
+  const unit = `${days} day${days !== 1 ? "s" : ""}`;
+  return daysLeft > 0 ? `due in ${unit}` : `overdue by ${unit}`;
+};
+
+export interface RotationAccount {
+  id: string;
+  label: string;
+  created_at: string;
+  paid_through: string | null;
+  freeProfiles: number[]; // Lowest first
+}
+
+export interface RotationCandidate {
+  customerId: string;
+  currentAccountId: string | null;
+  servesUntil: Date; // The next rotation or the expiry, whichever is first
+}
+
+// Greedy plan: each customer goes to a different active account with a free
+// profile, preferring accounts paid through the date they are needed until,
+// then the fullest, then the oldest. Profiles taken by earlier proposals are
+// not offered again. Returns the proposed account id, or null for customers
+// with nowhere to go; assignProfiles() picks the profiles.
+export function planRotation(candidates: RotationCandidate[], accounts: RotationAccount[]) {
+  const freeCount = new Map(accounts.map((account) => [account.id, account.freeProfiles.length]));
+  const plan = new Map<string, string | null>();
+
+  for (const candidate of candidates) {
+    const neededUntil = format(candidate.servesUntil, "yyyy-MM-dd");
+    const unpaid = (account: RotationAccount) => !account.paid_through || account.paid_through < neededUntil;
+    const [target] = accounts
+      .filter((account) => account.id !== candidate.currentAccountId && (freeCount.get(account.id) || 0) > 0)
+      .sort((a, b) =>
+        Number(unpaid(a)) - Number(unpaid(b)) ||
+        (freeCount.get(a.id) || 0) - (freeCount.get(b.id) || 0) ||
+        a.created_at.localeCompare(b.created_at)
+      );
+
+    plan.set(candidate.customerId, target?.id ?? null);
+    if (target) freeCount.set(target.id, (freeCount.get(target.id) || 0) - 1);
+  }
+
+  return plan;
+}
+
+// Hands out the lowest free profile of each chosen account in order;
+// null when the account has run out
+export function assignProfiles(choices: { customerId: string; accountId: string }[], accounts: RotationAccount[]) {
+  const free = new Map(accounts.map((account) => [account.id, [...account.freeProfiles]]));
+  const profiles: Record<string, number | null> = {};
+
+  for (const { customerId, accountId } of choices) {
+    const [profile, ...rest] = free.get(accountId) || [];
+    profiles[customerId] = profile ?? null;
+    free.set(accountId, rest);
+  }
+
+  return profiles;
+}
+
+export interface RotationMessageData {
+  customerName: string;
+  profileNumber: number | null;
+  accessCode: string;
+  signature: string | null; // Reseller's message signature, or null for direct sales
+}
+
+// Credentials are only ever shared through the dashboard, as in the welcome message
+export const generateRotationMessage = (data: RotationMessageData): string => {
+  const senderName = data.signature || "NETCODE";
+
+  return `🔄 NETCODE – Account Details Updated
+
+
+Hi ${data.customerName} 👋
+As part of the monthly rotation, your Netflix account details have changed.
+
+
+🔑 What to do
+
+Open the dashboard and sign in again with the new Netflix ID and password:
+🔗 Website: https://netcode-net.vercel.app/
+🔐 Access Code: ${data.accessCode}
+${data.profileNumber ? `\n👤 Use Profile ${data.profileNumber} only.\n` : ""}
+Your subscription dates stay the same.
+
+
+Thank you,
+${senderName}`;
+};
@@ -4,3 +4,28 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Amounts are stored in rupees with two decimals
+export function formatCurrency(amount: number) {
+  return new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(amount);
+}
+
+export type PaymentStatus = "paid" | "partial" | "unpaid";
+
+// Nothing due (e.g. a free compensation period) counts as paid
+export function getPaymentStatus(due: number, paid: number): PaymentStatus {
+  if (paid >= due) return "paid";
+  return paid > 0 ? "partial" : "unpaid";
+}
+
+// Mirrors the customer_payment_status view: a customer's payments are pooled,
+// whichever period they were recorded against, and settle periods oldest first.
+// Returns the amount settled for each period, in the order given.
+export function settlePeriods(periods: { price: number | null }[], totalPaid: number): number[] {
+  let remaining = totalPaid;
+  return periods.map((period) => {
+    const settled = Math.min(period.price || 0, Math.max(remaining, 0));
+    remaining -= period.price || 0;
+    return settled;
+  });
+}
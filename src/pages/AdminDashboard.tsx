@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -14,12 +14,26 @@ import {
   Settings,
   ShieldCheck,
   Download,
+  Inbox,
+  Package,
+  Store,
+  Building2,
+  Ticket,
+  RotateCw,
+  CalendarDays,
 } from "lucide-react";
 import NetflixAccountsTab from "@/components/admin/NetflixAccountsTab";
 import CustomersTab from "@/components/admin/CustomersTab";
 import OverviewTab from "@/components/admin/OverviewTab";
 import NotificationBell from "@/components/admin/NotificationBell";
 import AdminManagementTab from "@/components/admin/AdminManagementTab";
+import VerificationInboxTab from "@/components/admin/VerificationInboxTab";
+import PlansTab from "@/components/admin/PlansTab";
+import ResellersTab from "@/components/admin/ResellersTab";
+import BusinessSettingsTab from "@/components/admin/BusinessSettingsTab";
+import PromoCodesTab from "@/components/admin/PromoCodesTab";
+import RotationPlannerTab from "@/components/admin/RotationPlannerTab";
+import BillingTab from "@/components/admin/BillingTab";
 import { useExcelBackup } from "@/hooks/useExcelBackup";
 
 const AdminDashboard = () => {
@@ -27,9 +41,28 @@ const AdminDashboard = () => {
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("overview");
-  const [durationFilter, setDurationFilter] = useState<number | null>(null);
+  const [planFilter, setPlanFilter] = useState<string | null>(null); // Plan id, or "custom" for customers without a plan
   const { exportToExcel, isExporting } = useExcelBackup();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Google redirects back here after a mailbox is connected in the Netflix Accounts tab
+  useEffect(() => {
+    const oauthResult = searchParams.get("gmail_oauth");
+    if (!oauthResult) return;
+
+    const gmail = searchParams.get("gmail");
+    if (oauthResult === "success") {
+      toast.success(`Mailbox ${gmail} connected`);
+    } else if (searchParams.get("reason") === "mismatch") {
+      toast.error(`Signed in to a different Google account than ${gmail}`);
+    } else {
+      toast.error(`Failed to connect mailbox ${gmail}`);
+    }
+
+    setActiveTab("accounts");
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -62,8 +95,8 @@ const AdminDashboard = () => {
     navigate("/admin/login");
   };
 
-  const handleDurationClick = (days: number) => {
-    setDurationFilter(days);
+  const handlePlanClick = (planId: string) => {
+    setPlanFilter(planId);
     setActiveTab("customers");
   };
 
@@ -107,6 +140,15 @@ const AdminDashboard = () => {
               onCustomerClick={() => {
                 setActiveTab("customers");
               }} 
+              onAccountClick={() => {
+                setActiveTab("accounts");
+              }}
+              onRotationClick={() => {
+                setActiveTab("rotation");
+              }}
+              onBillingClick={() => {
+                setActiveTab("billing");
+              }}
             />
             <Button variant="ghost" size="sm" onClick={handleLogout}>
               <LogOut className="w-4 h-4 mr-2" />
@@ -118,7 +160,7 @@ const AdminDashboard = () => {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 py-8">
-        <Tabs value={activeTab} onValueChange={(val) => { setActiveTab(val); if (val !== "customers") setDurationFilter(null); }} className="space-y-6">
+        <Tabs value={activeTab} onValueChange={(val) => { setActiveTab(val); if (val !== "customers") setPlanFilter(null); }} className="space-y-6">
           <TabsList className="bg-card border border-border">
             <TabsTrigger value="overview" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
               <Settings className="w-4 h-4 mr-2" />
@@ -132,6 +174,34 @@ const AdminDashboard = () => {
               <Users className="w-4 h-4 mr-2" />
               Customers
             </TabsTrigger>
+            <TabsTrigger value="rotation" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+              <RotateCw className="w-4 h-4 mr-2" />
+              Rotation
+            </TabsTrigger>
+            <TabsTrigger value="billing" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+              <CalendarDays className="w-4 h-4 mr-2" />
+              Billing
+            </TabsTrigger>
+            <TabsTrigger value="plans" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+              <Package className="w-4 h-4 mr-2" />
+              Plans
+            </TabsTrigger>
+            <TabsTrigger value="resellers" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+              <Store className="w-4 h-4 mr-2" />
+              Resellers
+            </TabsTrigger>
+            <TabsTrigger value="promos" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+              <Ticket className="w-4 h-4 mr-2" />
+              Promos
+            </TabsTrigger>
+            <TabsTrigger value="business" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+              <Building2 className="w-4 h-4 mr-2" />
+              Business
+            </TabsTrigger>
+            <TabsTrigger value="inbox" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+              <Inbox className="w-4 h-4 mr-2" />
+              Verification Inbox
+            </TabsTrigger>
             <TabsTrigger value="admins" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
               <ShieldCheck className="w-4 h-4 mr-2" />
               Admins
@@ -139,7 +209,7 @@ const AdminDashboard = () => {
           </TabsList>
 
           <TabsContent value="overview" className="animate-fade-in">
-            <OverviewTab onDurationClick={handleDurationClick} />
+            <OverviewTab onPlanClick={handlePlanClick} onRotationClick={() => setActiveTab("rotation")} />
           </TabsContent>
 
           <TabsContent value="accounts" className="animate-fade-in">
@@ -147,7 +217,35 @@ const AdminDashboard = () => {
           </TabsContent>
 
           <TabsContent value="customers" className="animate-fade-in">
-            <CustomersTab durationFilter={durationFilter} onClearDurationFilter={() => setDurationFilter(null)} />
+            <CustomersTab planFilter={planFilter} onClearPlanFilter={() => setPlanFilter(null)} />
+          </TabsContent>
+
+          <TabsContent value="rotation" className="animate-fade-in">
+            <RotationPlannerTab />
+          </TabsContent>
+
+          <TabsContent value="billing" className="animate-fade-in">
+            <BillingTab />
+          </TabsContent>
+
+          <TabsContent value="plans" className="animate-fade-in">
+            <PlansTab />
+          </TabsContent>
+
+          <TabsContent value="resellers" className="animate-fade-in">
+            <ResellersTab />
+          </TabsContent>
+
+          <TabsContent value="promos" className="animate-fade-in">
+            <PromoCodesTab />
+          </TabsContent>
+
+          <TabsContent value="business" className="animate-fade-in">
+            <BusinessSettingsTab />
+          </TabsContent>
+
+          <TabsContent value="inbox" className="animate-fade-in">
+            <VerificationInboxTab />
           </TabsContent>
 
           <TabsContent value="admins" className="animate-fade-in">
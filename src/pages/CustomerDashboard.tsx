@@ -23,10 +23,16 @@ import {
   EyeOff,
   RefreshCw,
   AlertCircle,
-  User
+  User,
+  FileText,
+  Download
 } from "lucide-react";
-import { format, differenceInDays, addDays } from "date-fns";
+import { format, differenceInDays, addDays, formatDistanceToNow } from "date-fns";
 import { useInactivityTimeout } from "@/hooks/useInactivityTimeout";
+import { formatCurrency } from "@/lib/utils";
+import { downloadInvoicePdf, type InvoiceData } from "@/lib/invoicePdf";
+
+const SESSION_RECHECK_MS = 15000; // How often a waiting dashboard re-reads its session
 
 // ============================================
 // INTERFACES
@@ -40,6 +46,8 @@ interface CustomerData {
   subscription_days: number;
   is_active: boolean;
   profile_number: number | null;
+  profile_name: string | null;
+  profile_pin: string | null;
   purchased_from: string | null;
   netflix_accounts: {
     id: string;
@@ -49,6 +57,29 @@ interface CustomerData {
   } | null;
 }
 
+// Where the shown link/code came from, as reported by fetch-netflix-otp
+interface VerificationInfo {
+  cached: boolean;
+  fetched_at: string;
+  expires_at: string;
+}
+
+// Open "waiting for Netflix email/SMS" session; the verification is pushed over Realtime
+interface WaitingSession {
+  id: string;
+  expires_at: string;
+}
+
+interface CustomerInvoice extends InvoiceData {
+  id: string;
+}
+
+interface VerificationBroadcast {
+  otp_code: string;
+  fetched_at: string;
+  expires_at: string;
+}
+
 // Inactivity timeout in minutes for customer sessions
 const INACTIVITY_TIMEOUT_MINUTES = 15;
 
@@ -62,7 +93,11 @@ const CustomerDashboard = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [verificationLink, setVerificationLink] = useState<string | null>(null);
   const [otpCode, setOtpCode] = useState<string | null>(null);
+  const [verificationInfo, setVerificationInfo] = useState<VerificationInfo | null>(null);
   const [isFetchingOtp, setIsFetchingOtp] = useState(false);
+  const [waitingSession, setWaitingSession] = useState<WaitingSession | null>(null);
+  const [waitSecondsLeft, setWaitSecondsLeft] = useState(0);
+  const [invoices, setInvoices] = useState<CustomerInvoice[]>([]);
   const navigate = useNavigate();
 
   // ============================================
@@ -122,6 +157,8 @@ const CustomerDashboard = () => {
         subscription_days: customerRow.subscription_days,
         is_active: customerRow.is_active,
         profile_number: customerRow.profile_number,
+        profile_name: customerRow.profile_name,
+        profile_pin: customerRow.profile_pin,
         purchased_from: customerRow.purchased_from,
         netflix_accounts: customerRow.netflix_account_id
           ? {
@@ -143,6 +180,17 @@ const CustomerDashboard = () => {
       } else {
         setCustomer(customerData);
       }
+
+      // Invoices are secondary; failing to load them should not hide the account
+      const { data: invoiceRows, error: invoicesError } = await supabase.rpc("get_customer_invoices_by_access_code", {
+        p_access_code: accessCode,
+      });
+
+      if (invoicesError) {
+        console.error("Error fetching invoices:", invoicesError);
+      } else {
+        setInvoices(invoiceRows || []);
+      }
     } catch (error) {
       console.error("Error fetching customer data:", error);
       toast.error("Failed to load account details");
@@ -160,16 +208,26 @@ const CustomerDashboard = () => {
     toast.success(`${label} copied to clipboard`);
   };
 
-  const fetchHouseholdVerification = async () => {
-    if (!customer?.netflix_accounts?.id) {
-      toast.error("No Netflix account linked");
-      return;
+  const downloadInvoice = async (invoice: CustomerInvoice) => {
+    try {
+      const { data, error } = await supabase.rpc("get_invoice_business_details");
+
+      if (error) throw error;
+
+      const business = Array.isArray(data) ? data[0] : data;
+      if (!business) throw new Error("Business details not found");
+
+      downloadInvoicePdf(invoice, business);
+    } catch (error) {
+      console.error("Error downloading invoice:", error);
+      toast.error("Failed to download invoice");
     }
+  };
 
-    const gmailAddress = customer.netflix_accounts.gmail_address;
-    
-    if (!gmailAddress) {
-      toast.info("No Gmail linked to this account. Contact your admin for the verification link.");
+  // Served from the cached entry unless forceRefresh asks for a new mailbox search
+  const fetchHouseholdVerification = async (forceRefresh = false) => {
+    if (!customer?.netflix_accounts?.id) {
+      toast.error("No Netflix account linked");
       return;
     }
 
@@ -183,6 +241,7 @@ const CustomerDashboard = () => {
     setIsFetchingOtp(true);
     setVerificationLink(null);
     setOtpCode(null);
+    setVerificationInfo(null);
     
     try {
       // Call external Supabase edge function
@@ -194,25 +253,38 @@ const CustomerDashboard = () => {
           "Content-Type": "application/json",
           "Authorization": `Bearer ${EXTERNAL_ANON_KEY}`,
         },
-        body: JSON.stringify({ access_code: storedAccessCode }),
+        body: JSON.stringify({ access_code: storedAccessCode, force_refresh: forceRefresh, wait: true }),
       });
 
       const functionData = await response.json();
 
       if (!response.ok) {
         console.error("Edge function error:", functionData);
-        toast.error("Could not fetch verification. Please try again.");
+        toast.error(functionData?.error || "Could not fetch verification. Please try again.");
         return;
       }
 
       if (functionData?.success) {
+        setVerificationInfo({
+          cached: !!functionData.cached,
+          fetched_at: functionData.fetched_at,
+          expires_at: functionData.expires_at,
+        });
+
         if (functionData.verification_link) {
           setVerificationLink(functionData.verification_link);
-          toast.success("Verification link retrieved! Click the button to get your code.");
+          toast.success(functionData.cached
+            ? "Showing your recent verification link. Click the button to get your code."
+            : "Verification link retrieved! Click the button to get your code.");
         } else if (functionData.otp_code) {
           setOtpCode(functionData.otp_code);
-          toast.success("Verification code retrieved successfully");
+          toast.success(functionData.cached
+            ? "Showing your recent verification code"
+            : "Verification code retrieved successfully");
         }
+      } else if (functionData?.waiting) {
+        setWaitingSession({ id: functionData.session_id, expires_at: functionData.expires_at });
+        toast.info("Waiting for the Netflix message. Keep this page open.");
       } else {
         toast.info(functionData?.message || "No recent verification email found. Request a code from Netflix first.");
       }
@@ -224,6 +296,86 @@ const CustomerDashboard = () => {
     }
   };
 
+  // ============================================
+  // WAITING FOR VERIFICATION EMAIL
+  // ============================================
+
+  // Listen for the verification while a session is open and count down its window
+  useEffect(() => {
+    if (!waitingSession) return;
+
+    let isDone = false;
+
+    const showVerification = (verification: VerificationBroadcast) => {
+      if (isDone) return;
+      isDone = true;
+
+      if (/^https?:\/\//i.test(verification.otp_code)) {
+        setVerificationLink(verification.otp_code);
+      } else {
+        setOtpCode(verification.otp_code);
+      }
+      setVerificationInfo({
+        cached: false,
+        fetched_at: verification.fetched_at,
+        expires_at: verification.expires_at,
+      });
+      setWaitingSession(null);
+      toast.success("Your Netflix verification just arrived");
+    };
+
+    // Broadcasts are not stored, so a verification delivered before the
+    // subscription opened would be missed; read the session back to catch it
+    const checkSession = async () => {
+      const storedAccessCode = sessionStorage.getItem("customerAccessCode");
+      if (isDone || !storedAccessCode) return;
+
+      const { data, error } = await supabase.rpc("get_verification_session_by_access_code", {
+        p_access_code: storedAccessCode,
+        p_session_id: waitingSession.id,
+      });
+
+      if (error) {
+        console.error("Error checking verification session:", error);
+        return;
+      }
+
+      const session = data?.[0];
+      if (session?.status === "delivered" && session.otp_code) {
+        showVerification(session);
+      }
+    };
+
+    const channel = supabase
+      .channel(`verification:${waitingSession.id}`)
+      .on("broadcast", { event: "verification" }, ({ payload }) => showVerification(payload as VerificationBroadcast))
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") checkSession();
+      });
+
+    // Fallback for when the channel cannot connect at all
+    const recheck = setInterval(checkSession, SESSION_RECHECK_MS);
+
+    const updateCountdown = () => {
+      const remaining = Math.max(0, Math.round((new Date(waitingSession.expires_at).getTime() - Date.now()) / 1000));
+      setWaitSecondsLeft(remaining);
+      if (remaining === 0) {
+        setWaitingSession(null);
+        toast.info("No Netflix message arrived in time. Request a new code from Netflix and try again.");
+      }
+    };
+
+    updateCountdown();
+    const timer = setInterval(updateCountdown, 1000);
+
+    return () => {
+      isDone = true;
+      clearInterval(timer);
+      clearInterval(recheck);
+      supabase.removeChannel(channel);
+    };
+  }, [waitingSession]);
+
   // ============================================
   // LOADING & EMPTY STATES
   // ============================================
@@ -371,6 +523,10 @@ const CustomerDashboard = () => {
                       </label>
                       <div className="bg-input px-3 py-2 rounded-md text-sm font-medium">
                         Profile {customer.profile_number}
+                        {customer.profile_name && ` · ${customer.profile_name}`}
+                        {customer.profile_pin && (
+                          <span className="text-muted-foreground font-normal"> · PIN {customer.profile_pin}</span>
+                        )}
                       </div>
                     </div>
                   )}
@@ -464,8 +620,8 @@ const CustomerDashboard = () => {
                 <div className="flex flex-col gap-4">
                   <Button 
                     variant="netflix" 
-                    onClick={fetchHouseholdVerification}
-                    disabled={isFetchingOtp || !customer.netflix_accounts}
+                    onClick={() => fetchHouseholdVerification()}
+                    disabled={isFetchingOtp || !!waitingSession || !customer.netflix_accounts}
                   >
                     {isFetchingOtp ? (
                       <>
@@ -480,6 +636,21 @@ const CustomerDashboard = () => {
                     )}
                   </Button>
 
+                  {waitingSession && (
+                    <div className="flex items-center gap-3 rounded-lg border border-primary/30 bg-primary/5 p-3">
+                      <RefreshCw className="w-4 h-4 text-primary animate-spin" />
+                      <div className="flex-1">
+                        <p className="text-sm">Waiting for the Netflix email or SMS...</p>
+                        <p className="text-xs text-muted-foreground">
+                          Your link or code will appear here as soon as it arrives
+                        </p>
+                      </div>
+                      <span className="font-mono text-lg text-primary">
+                        {Math.floor(waitSecondsLeft / 60)}:{String(waitSecondsLeft % 60).padStart(2, "0")}
+                      </span>
+                    </div>
+                  )}
+
                   {verificationLink && (
                     <div className="space-y-3">
                       <p className="text-sm text-muted-foreground">
@@ -493,9 +664,6 @@ const CustomerDashboard = () => {
                         <Tv className="w-4 h-4 mr-2" />
                         Open Netflix & Get Code
                       </Button>
-                      <p className="text-xs text-muted-foreground">
-                        Link expires in 15 minutes
-                      </p>
                     </div>
                   )}
 
@@ -513,6 +681,26 @@ const CustomerDashboard = () => {
                       </Button>
                     </div>
                   )}
+
+                  {verificationInfo && (verificationLink || otpCode) && (
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="text-xs text-muted-foreground">
+                        Retrieved {formatDistanceToNow(new Date(verificationInfo.fetched_at), { addSuffix: true })}
+                        {" · "}expires at {format(new Date(verificationInfo.expires_at), "h:mm a")}
+                      </p>
+                      {verificationInfo.cached && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => fetchHouseholdVerification(true)}
+                          disabled={isFetchingOtp}
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                          Fetch New
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -522,6 +710,38 @@ const CustomerDashboard = () => {
             </CardContent>
           </Card>
         )}
+
+        {/* Invoices Card */}
+        {invoices.length > 0 && (
+          <Card className="glass animate-slide-up" style={{ animationDelay: "0.3s" }}>
+            <CardHeader>
+              <CardTitle className="font-display text-2xl tracking-wide flex items-center gap-2">
+                <FileText className="w-5 h-5 text-primary" />
+                Invoices
+              </CardTitle>
+              <CardDescription>Receipts for your purchases and renewals</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {invoices.map((invoice) => (
+                <div key={invoice.id} className="flex items-center gap-3 bg-muted/50 rounded-lg p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">
+                      {invoice.invoice_number}
+                      <span className="text-muted-foreground font-normal"> · {invoice.plan_name || `${invoice.period_days} days`}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(invoice.issued_on), "MMMM d, yyyy")} · {formatCurrency(invoice.total)}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => downloadInvoice(invoice)}>
+                    <Download className="w-4 h-4" />
+                    PDF
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
       </main>
     </div>
   );
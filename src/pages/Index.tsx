@@ -5,7 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Shield, Tv, Key, ArrowRight } from "lucide-react";
+import { Shield, Store, Tv, Key, ArrowRight } from "lucide-react";
 
 const Index = () => {
   const [accessCode, setAccessCode] = useState("");
@@ -80,14 +80,24 @@ const Index = () => {
             <Tv className="w-8 h-8 text-primary" />
             <span className="font-display text-2xl tracking-wider text-foreground">NETCODE</span>
           </div>
-          <Button 
-            variant="ghost" 
-            onClick={() => navigate("/admin/login")}
-            className="text-muted-foreground hover:text-foreground"
-          >
-            <Shield className="w-4 h-4 mr-2" />
-            Admin
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button 
+              variant="ghost" 
+              onClick={() => navigate("/reseller/login")}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <Store className="w-4 h-4 mr-2" />
+              Reseller
+            </Button>
+            <Button 
+              variant="ghost" 
+              onClick={() => navigate("/admin/login")}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <Shield className="w-4 h-4 mr-2" />
+              Admin
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Store, Tv, ArrowLeft, Mail, Lock } from "lucide-react";
+
+const ResellerLogin = () => {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email || !password) {
+      toast.error("Please fill in all fields");
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const { data, error } = await supabase.auth.signInWithPassword({
+        email,
+        password,
+      });
+
+      if (error) {
+        if (error.message.includes("Invalid login credentials")) {
+          toast.error("Invalid email or password");
+        } else {
+          throw error;
+        }
+        return;
+      }
+
+      if (data.session) {
+        // Verify reseller status (RLS only returns the signed-in reseller's own record)
+        const { data: resellerData, error: resellerError } = await supabase
+          .from("resellers")
+          .select("id")
+          .eq("user_id", data.user.id)
+          .eq("is_active", true)
+          .maybeSingle();
+
+        if (resellerError || !resellerData) {
+          await supabase.auth.signOut();
+          toast.error("Access denied. Not an active reseller account.");
+          return;
+        }
+
+        toast.success("Welcome back!");
+        navigate("/reseller");
+      }
+    } catch (error) {
+      console.error("Auth error:", error);
+      toast.error(error instanceof Error ? error.message : "Authentication failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="w-full py-6 px-8">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Tv className="w-8 h-8 text-primary" />
+            <span className="font-display text-2xl tracking-wider text-foreground">NETCODE</span>
+          </div>
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="flex-1 flex items-center justify-center px-4 py-12">
+        <Card className="w-full max-w-md glass animate-slide-up">
+          <CardHeader className="text-center pb-2">
+            <div className="mx-auto w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mb-4">
+              <Store className="w-8 h-8 text-primary" />
+            </div>
+            <CardTitle className="font-display text-3xl tracking-wide">Reseller Login</CardTitle>
+            <CardDescription className="text-muted-foreground">
+              Create and renew your customers' subscriptions
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="email" className="flex items-center gap-2">
+                  <Mail className="w-4 h-4 text-muted-foreground" />
+                  Email Address
+                </Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="reseller@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="bg-input border-border focus:border-primary"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password" className="flex items-center gap-2">
+                  <Lock className="w-4 h-4 text-muted-foreground" />
+                  Password
+                </Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="bg-input border-border focus:border-primary"
+                />
+              </div>
+
+              <Button
+                type="submit"
+                variant="netflix"
+                size="lg"
+                className="w-full"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <span className="animate-pulse">Signing In...</span>
+                ) : (
+                  "Sign In"
+                )}
+              </Button>
+
+              <p className="text-center text-sm text-muted-foreground">
+                Forgot your password? Ask us to reset it.
+              </p>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Decorative Elements */}
+      <div className="fixed inset-0 pointer-events-none overflow-hidden -z-10">
+        <div className="absolute top-1/4 -left-32 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+        <div className="absolute bottom-1/4 -right-32 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+      </div>
+    </div>
+  );
+};
+
+export default ResellerLogin;
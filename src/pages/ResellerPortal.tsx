@@ -0,0 +1,566 @@
+// ============================================
+// RESELLER PORTAL
+// Signed-in resellers see only the customers they sold (enforced by RLS),
+// create new customers into free slots and renew existing ones, paid from
+// their prepaid wallet. Promo codes issued for the reseller apply to renewals.
+// ============================================
+
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import { formatPromoValue, getPromoDiscount, isPromoAvailable, type PromoCode } from "@/lib/promoCodes";
+import { toast } from "sonner";
+import { Tv, LogOut, Plus, RefreshCw, Copy, MessageSquare, Users } from "lucide-react";
+import { addDays, differenceInDays, format } from "date-fns";
+import CustomerMessageDialog from "@/components/admin/CustomerMessageDialog";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+interface Reseller {
+  id: string;
+  name: string;
+  message_signature: string | null;
+}
+
+interface Plan {
+  id: string;
+  name: string;
+  days: number;
+  price: number | null;
+  wholesale_price: number | null; // Charged to the wallet per sale
+}
+
+interface ResellerCustomer {
+  id: string;
+  name: string;
+  access_code: string;
+  purchase_date: string;
+  subscription_days: number;
+  is_active: boolean;
+  profile_number: number | null;
+  netflix_account_id: string | null;
+  plans: { name: string } | null;
+}
+
+interface AccountCredentials {
+  netflix_email: string;
+  netflix_password: string;
+}
+
+interface CustomerMessageData {
+  customerName: string;
+  netflixEmail: string;
+  netflixPassword: string;
+  profileNumber: number | null;
+  subscriptionDays: number;
+  planName: string | null;
+  purchaseDate: string;
+  accessCode: string;
+  signature: string | null;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+const ResellerPortal = () => {
+  const [reseller, setReseller] = useState<Reseller | null>(null);
+  const [customers, setCustomers] = useState<ResellerCustomer[]>([]);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [credentials, setCredentials] = useState<Record<string, AccountCredentials>>({});
+  const [walletBalance, setWalletBalance] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // New customer and renewal dialog state
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newCustomerName, setNewCustomerName] = useState("");
+  const [renewingCustomer, setRenewingCustomer] = useState<ResellerCustomer | null>(null);
+  const [selectedPlanId, setSelectedPlanId] = useState("");
+  const [selectedPromoId, setSelectedPromoId] = useState("none");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Auto-copy message dialog state
+  const [messageDialogOpen, setMessageDialogOpen] = useState(false);
+  const [messageData, setMessageData] = useState<CustomerMessageData | null>(null);
+
+  const navigate = useNavigate();
+
+  // ============================================
+  // DATA FETCHING
+  // ============================================
+
+  const fetchCustomers = useCallback(async () => {
+    try {
+      const [customersResult, credentialsResult, walletResult] = await Promise.all([
+        supabase
+          .from("customers")
+          .select("id, name, access_code, purchase_date, subscription_days, is_active, profile_number, netflix_account_id, plans(name)")
+          .order("created_at", { ascending: false }),
+        supabase.rpc("get_reseller_account_credentials"),
+        supabase.from("reseller_wallet_transactions").select("kind, amount"),
+      ]);
+
+      if (customersResult.error) throw customersResult.error;
+      if (credentialsResult.error) throw credentialsResult.error;
+      if (walletResult.error) throw walletResult.error;
+
+      setCustomers(customersResult.data || []);
+      setCredentials(Object.fromEntries((credentialsResult.data || []).map((account) => [account.netflix_account_id, account])));
+      setWalletBalance((walletResult.data || []).reduce(
+        (sum, transaction) => sum + (transaction.kind === "credit" ? transaction.amount : -transaction.amount),
+        0
+      ));
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      toast.error("Failed to load customers");
+    }
+  }, []);
+
+  const loadPortal = useCallback(async (userId: string) => {
+    try {
+      const { data: resellerData, error } = await supabase
+        .from("resellers")
+        .select("id, name, message_signature")
+        .eq("user_id", userId)
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (error || !resellerData) {
+        await supabase.auth.signOut();
+        toast.error("Access denied. Not an active reseller account.");
+        navigate("/reseller/login");
+        return;
+      }
+
+      const { data: plansData } = await supabase
+        .from("plans")
+        .select("id, name, days, price, wholesale_price")
+        .eq("is_active", true)
+        .order("days", { ascending: true });
+
+      // RLS only returns the codes issued for this reseller
+      const { data: promoData } = await supabase
+        .from("promo_codes")
+        .select("id, code, discount_type, discount_value, valid_from, valid_until, reseller_id, is_active")
+        .eq("is_active", true)
+        .order("code", { ascending: true });
+
+      setReseller(resellerData);
+      setPlans(plansData || []);
+      setPromoCodes((promoData || []).filter((promo) => isPromoAvailable(promo, resellerData.id)));
+      await fetchCustomers();
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchCustomers, navigate]);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/reseller/login");
+        return;
+      }
+      loadPortal(session.user.id);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        navigate("/reseller/login");
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [loadPortal, navigate]);
+
+  // ============================================
+  // ACTIONS
+  // ============================================
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    toast.success("Logged out successfully");
+    navigate("/reseller/login");
+  };
+
+  const openCreateDialog = () => {
+    setNewCustomerName("");
+    setSelectedPlanId(plans[0]?.id || "");
+    setIsCreateOpen(true);
+  };
+
+  const openRenewDialog = (customer: ResellerCustomer) => {
+    setSelectedPlanId(plans[0]?.id || "");
+    setSelectedPromoId("none");
+    setRenewingCustomer(customer);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newCustomerName.trim() || !selectedPlanId) {
+      toast.error("Enter a customer name and choose a plan");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("reseller_create_customer", {
+        p_name: newCustomerName.trim(),
+        p_plan_id: selectedPlanId,
+      });
+
+      // Surface the function's own message, e.g. "No free slots available"
+      if (error) throw new Error(error.message);
+      const created = data?.[0];
+      if (!created) throw new Error("Customer was not created");
+
+      const plan = plans.find(p => p.id === selectedPlanId);
+      setMessageData({
+        customerName: newCustomerName.trim(),
+        netflixEmail: created.netflix_email,
+        netflixPassword: created.netflix_password,
+        profileNumber: created.profile_number,
+        subscriptionDays: plan?.days || 0,
+        planName: plan?.name || null,
+        purchaseDate: format(new Date(), "yyyy-MM-dd"),
+        accessCode: created.access_code,
+        signature: reseller?.message_signature || reseller?.name || null,
+      });
+
+      setIsCreateOpen(false);
+      setMessageDialogOpen(true);
+      toast.success(`Customer created! Access code: ${created.access_code}`);
+      fetchCustomers();
+    } catch (error) {
+      console.error("Error creating customer:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create customer");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRenew = async () => {
+    if (!renewingCustomer || !selectedPlanId) return;
+
+    setIsSaving(true);
+    try {
+      const { data: newExpiry, error } = await supabase.rpc("reseller_renew_customer", {
+        p_customer_id: renewingCustomer.id,
+        p_plan_id: selectedPlanId,
+        p_promo_code_id: selectedPromoId !== "none" ? selectedPromoId : undefined,
+      });
+
+      // Surface the function's own message, e.g. a promo code that was refused
+      if (error) throw new Error(error.message);
+
+      toast.success(`${renewingCustomer.name} renewed until ${format(new Date(newExpiry), "MMM d, yyyy")}`);
+      setRenewingCustomer(null);
+      fetchCustomers();
+    } catch (error) {
+      console.error("Error renewing customer:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to renew customer");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openMessage = (customer: ResellerCustomer) => {
+    const account = customer.netflix_account_id ? credentials[customer.netflix_account_id] : undefined;
+    setMessageData({
+      customerName: customer.name,
+      netflixEmail: account?.netflix_email || "N/A",
+      netflixPassword: account?.netflix_password || "N/A",
+      profileNumber: customer.profile_number,
+      subscriptionDays: customer.subscription_days,
+      planName: customer.plans?.name || null,
+      purchaseDate: customer.purchase_date,
+      accessCode: customer.access_code,
+      signature: reseller?.message_signature || reseller?.name || null,
+    });
+    setMessageDialogOpen(true);
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success("Copied to clipboard!");
+  };
+
+  // Same thresholds as the admin customer list
+  const getStatus = (customer: ResellerCustomer) => {
+    const daysRemaining = differenceInDays(addDays(new Date(customer.purchase_date), customer.subscription_days), new Date());
+
+    if (!customer.is_active) {
+      return { label: "Inactive", variant: "secondary" as const };
+    }
+    if (daysRemaining <= 0) {
+      return { label: "Expired", variant: "destructive" as const };
+    }
+    if (daysRemaining <= 7) {
+      return { label: `${daysRemaining}d left`, variant: "outline" as const };
+    }
+    return { label: "Active", variant: "default" as const };
+  };
+
+  const activeCount = customers.filter(
+    customer => customer.is_active && addDays(new Date(customer.purchase_date), customer.subscription_days) > new Date()
+  ).length;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-pulse text-primary text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!reseller) return null;
+
+  const selectedPlanCharge = plans.find(plan => plan.id === selectedPlanId)?.wholesale_price || 0;
+  const isWalletShort = selectedPlanCharge > walletBalance;
+
+  // The discount comes off the customer's price; the wallet charge is unchanged
+  const selectedPlanPrice = plans.find(plan => plan.id === selectedPlanId)?.price || 0;
+  const selectedPromo = promoCodes.find(promo => promo.id === selectedPromoId);
+
+  const planSelect = (
+    <div className="space-y-2">
+      <Label>Plan</Label>
+      <Select value={selectedPlanId} onValueChange={setSelectedPlanId}>
+        <SelectTrigger className="bg-input">
+          <SelectValue placeholder="Select a plan" />
+        </SelectTrigger>
+        <SelectContent>
+          {plans.map(plan => (
+            <SelectItem key={plan.id} value={plan.id}>
+              {plan.name} ({plan.days} days{plan.wholesale_price !== null ? `, ${formatCurrency(plan.wholesale_price)}` : ""})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className={`text-xs ${isWalletShort ? "text-destructive" : "text-muted-foreground"}`}>
+        {isWalletShort
+          ? `Wallet balance ${formatCurrency(walletBalance)} is too low. Top up with us first.`
+          : `${formatCurrency(selectedPlanCharge)} will be deducted from your wallet (${formatCurrency(walletBalance)})`}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="w-full py-4 px-6 border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Tv className="w-8 h-8 text-primary" />
+            <div>
+              <span className="font-display text-xl tracking-wider text-foreground block">NETCODE</span>
+              <span className="text-xs text-muted-foreground">Reseller Portal</span>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground hidden sm:block">{reseller.name}</span>
+            <Button variant="ghost" size="sm" onClick={handleLogout}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Logout
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="font-display text-3xl tracking-wide text-foreground">My Customers</h2>
+            <p className="text-muted-foreground mt-1">
+              {activeCount} active of {customers.length} customer{customers.length !== 1 ? "s" : ""} · Wallet{" "}
+              <span className={walletBalance < 0 ? "text-destructive font-medium" : "text-foreground font-medium"}>
+                {formatCurrency(walletBalance)}
+              </span>
+            </p>
+          </div>
+          <Button variant="netflix" onClick={openCreateDialog} disabled={plans.length === 0}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Customer
+          </Button>
+        </div>
+
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle className="font-display text-xl tracking-wide">Customers</CardTitle>
+            <CardDescription>Access codes and expiry dates for everyone you sold</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {customers.length === 0 ? (
+              <div className="text-center py-12">
+                <Users className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">No customers yet. Create your first customer!</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border">
+                    <TableHead>Name</TableHead>
+                    <TableHead>Access Code</TableHead>
+                    <TableHead>Profile</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {customers.map((customer) => {
+                    const status = getStatus(customer);
+                    return (
+                      <TableRow key={customer.id} className="border-border">
+                        <TableCell className="font-medium">
+                          {customer.name}
+                          {customer.plans && (
+                            <p className="text-xs text-muted-foreground font-normal">{customer.plans.name}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <code className="bg-muted px-2 py-1 rounded text-sm">{customer.access_code}</code>
+                            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => copyToClipboard(customer.access_code)}>
+                              <Copy className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {customer.profile_number ? (
+                            <Badge variant="outline">P{customer.profile_number}</Badge>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {format(addDays(new Date(customer.purchase_date), customer.subscription_days), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Customer message"
+                              disabled={!customer.is_active}
+                              onClick={() => openMessage(customer)}
+                            >
+                              <MessageSquare className="w-4 h-4" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => openRenewDialog(customer)} disabled={plans.length === 0}>
+                              <RefreshCw className="w-4 h-4 mr-2" />
+                              Renew
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* New Customer Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="bg-card border-border">
+          <DialogHeader>
+            <DialogTitle className="font-display text-2xl tracking-wide">New Customer</DialogTitle>
+            <DialogDescription>The customer is placed on a free profile automatically</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="customer_name">Customer Name</Label>
+              <Input
+                id="customer_name"
+                value={newCustomerName}
+                onChange={(e) => setNewCustomerName(e.target.value)}
+                className="bg-input"
+              />
+            </div>
+            {planSelect}
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="netflix" disabled={isSaving || isWalletShort}>
+                {isSaving ? "Creating..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Renew Dialog */}
+      <Dialog open={!!renewingCustomer} onOpenChange={(open) => !open && setRenewingCustomer(null)}>
+        <DialogContent className="bg-card border-border">
+          <DialogHeader>
+            <DialogTitle className="font-display text-2xl tracking-wide">Renew Customer</DialogTitle>
+            <DialogDescription>
+              {renewingCustomer?.name}: the renewal starts at the current expiry, or today if it has passed
+            </DialogDescription>
+          </DialogHeader>
+          {planSelect}
+          {promoCodes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Promo Code</Label>
+              <Select value={selectedPromoId} onValueChange={setSelectedPromoId}>
+                <SelectTrigger className="bg-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No promo</SelectItem>
+                  {promoCodes.map(promo => (
+                    <SelectItem key={promo.id} value={promo.id}>
+                      {promo.code} ({formatPromoValue(promo)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedPromo && selectedPlanPrice > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Customer price {formatCurrency(selectedPlanPrice - getPromoDiscount(selectedPromo, selectedPlanPrice))}
+                  {" "}instead of {formatCurrency(selectedPlanPrice)}
+                </p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRenewingCustomer(null)}>
+              Cancel
+            </Button>
+            <Button variant="netflix" onClick={handleRenew} disabled={isSaving || !selectedPlanId || isWalletShort}>
+              {isSaving ? "Renewing..." : "Renew"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CustomerMessageDialog
+        open={messageDialogOpen}
+        onOpenChange={setMessageDialogOpen}
+        data={messageData}
+      />
+    </div>
+  );
+};
+
+export default ResellerPortal;
@@ -0,0 +1,102 @@
+// ============================================
+// GMAIL OAUTH HELPERS
+// Per-mailbox refresh tokens stored in gmail_credentials
+// ============================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type GmailCredentialStatus = "connected" | "expired" | "revoked" | "error";
+
+export interface TokenRefreshResult {
+  accessToken: string | null;
+  status: GmailCredentialStatus;
+  error: string | null;
+}
+
+export function getOAuthClientConfig(): { clientId: string; clientSecret: string } {
+  const clientId = Deno.env.get("GMAIL_CLIENT_ID");
+  const clientSecret = Deno.env.get("GMAIL_CLIENT_SECRET");
+
+  if (!clientId || !clientSecret) {
+    throw new Error("Gmail API credentials not configured");
+  }
+
+  return { clientId, clientSecret };
+}
+
+// Exchange a refresh token for an access token and classify failures.
+// Google answers invalid_grant both for expired tokens (e.g. apps in testing
+// mode) and for tokens the user revoked; the description tells them apart.
+export async function refreshAccessToken(refreshToken: string): Promise<TokenRefreshResult> {
+  const { clientId, clientSecret } = getOAuthClientConfig();
+
+  const response = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      refresh_token: refreshToken,
+      grant_type: "refresh_token",
+    }),
+  });
+
+  if (response.ok) {
+    const data = await response.json();
+    return { accessToken: data.access_token, status: "connected", error: null };
+  }
+
+  const body = await response.json().catch(() => ({}));
+  const description: string = body.error_description || body.error || `HTTP ${response.status}`;
+
+  if (body.error === "invalid_grant") {
+    const status = /expired/i.test(description) && !/revoked/i.test(description) ? "expired" : "revoked";
+    return { accessToken: null, status, error: description };
+  }
+
+  return { accessToken: null, status: "error", error: description };
+}
+
+// Get an access token for a specific mailbox, recording token health as a side effect
+export async function getMailboxAccessToken(
+  supabase: SupabaseClient,
+  gmailAddress: string
+): Promise<TokenRefreshResult> {
+  const address = gmailAddress.trim().toLowerCase();
+
+  const { data: credential, error } = await supabase
+    .from("gmail_credentials")
+    .select("refresh_token, status")
+    .eq("gmail_address", address)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[INTERNAL] Failed to load mailbox credential:", error);
+    throw new Error("Email service unavailable");
+  }
+
+  if (!credential) {
+    return { accessToken: null, status: "error", error: "Mailbox not connected" };
+  }
+
+  const result = await refreshAccessToken(credential.refresh_token);
+
+  if (result.status !== "connected" || credential.status !== "connected") {
+    await supabase
+      .from("gmail_credentials")
+      .update({
+        status: result.status,
+        last_error: result.error,
+        last_checked_at: new Date().toISOString(),
+      })
+      .eq("gmail_address", address);
+  }
+
+  if (!result.accessToken) {
+    console.error(`[INTERNAL] Mailbox token refresh failed (${result.status}):`, result.error);
+  }
+
+  return result;
+}
@@ -0,0 +1,59 @@
+// ============================================
+// GMAIL MAILBOX PROVIDER
+// Searches a mailbox through the Gmail REST API using a per-mailbox access token
+// ============================================
+
+import type { MailboxMessage, MailboxProvider, MailboxSearch } from "./mailbox-provider.ts";
+
+const GMAIL_API = "https://gmail.googleapis.com/gmail/v1/users/me";
+
+export function createGmailProvider(accessToken: string): MailboxProvider {
+  const headers = { Authorization: `Bearer ${accessToken}` };
+
+  return {
+    name: "gmail",
+
+    async search(query: MailboxSearch): Promise<MailboxMessage[]> {
+      const hours = Math.max(1, Math.ceil(query.newerThanMinutes / 60));
+      const recipientFilter = query.recipient ? ` to:${query.recipient.trim()}` : "";
+      const keywordFilter = query.keywords.length > 0 ? ` (${query.keywords.join(" OR ")})` : "";
+      const searchQuery = encodeURIComponent(
+        `from:${query.from}${keywordFilter} newer_than:${hours}h${recipientFilter}`
+      );
+
+      const searchResponse = await fetch(
+        `${GMAIL_API}/messages?q=${searchQuery}&maxResults=${query.limit}`,
+        { headers }
+      );
+
+      if (!searchResponse.ok) {
+        const error = await searchResponse.text();
+        console.error("[INTERNAL] Gmail search failed:", error);
+        throw new Error("Email search failed");
+      }
+
+      const searchData = await searchResponse.json();
+      const messages: MailboxMessage[] = [];
+
+      for (const { id } of searchData.messages || []) {
+        const messageResponse = await fetch(`${GMAIL_API}/messages/${id}?format=raw`, { headers });
+
+        if (!messageResponse.ok) {
+          console.error("[INTERNAL] Failed to fetch message content");
+          continue;
+        }
+
+        const messageData = await messageResponse.json();
+        messages.push({
+          id,
+          receivedAt: new Date(Number(messageData.internalDate)),
+          raw: atob(messageData.raw.replace(/-/g, "+").replace(/_/g, "/")),
+        });
+      }
+
+      // Gmail lists newest first; cut off anything older than the requested window
+      const cutoff = Date.now() - query.newerThanMinutes * 60 * 1000;
+      return messages.filter((message) => message.receivedAt.getTime() >= cutoff);
+    },
+  };
+}
@@ -0,0 +1,109 @@
+// ============================================
+// IMAP MAILBOX PROVIDER - local server test
+// Appends fixture emails to a local IMAP server and searches them through
+// the provider. Start GreenMail with any login accepted, then run:
+//   docker run -p 3143:3143 -e GREENMAIL_OPTS="-Dgreenmail.setup.test.all -Dgreenmail.hostname=0.0.0.0 -Dgreenmail.auth.disabled" greenmail/standalone
+//   deno test --allow-net --allow-env --allow-read supabase/functions/_shared/imap-provider.test.ts
+// IMAP_TEST_HOST / IMAP_TEST_PORT point it elsewhere; the tests are skipped
+// when no server is listening.
+// ============================================
+
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { createImapProvider } from "./imap-provider.ts";
+import { parseNetflixEmail } from "./netflix-email.ts";
+
+const HOST = Deno.env.get("IMAP_TEST_HOST") || "localhost";
+const PORT = Number(Deno.env.get("IMAP_TEST_PORT") || "3143");
+const FIXTURES = new URL("./fixtures/netflix-emails/", import.meta.url);
+
+const serverAvailable = await Deno.connect({ hostname: HOST, port: PORT }).then(
+  (conn) => {
+    conn.close();
+    return true;
+  },
+  () => false
+);
+
+// Each run gets its own mailbox, which GreenMail creates on first login
+const settings = {
+  host: HOST,
+  port: PORT,
+  use_tls: false,
+  username: `imap-test-${Date.now()}@localhost`,
+  password: "test",
+  mailbox: "INBOX",
+};
+
+// Seeds the mailbox over a raw connection, independent of the provider under test
+async function appendFixture(name: string) {
+  const raw = await Deno.readFile(new URL(name, FIXTURES));
+  const conn = await Deno.connect({ hostname: HOST, port: PORT });
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let received = "";
+
+  const waitFor = async (pattern: RegExp) => {
+    const chunk = new Uint8Array(4096);
+    while (!pattern.test(received)) {
+      const read = await conn.read(chunk);
+      if (read === null) throw new Error("IMAP connection closed while seeding");
+      received += decoder.decode(chunk.subarray(0, read));
+    }
+  };
+
+  try {
+    await waitFor(/^\* OK/m);
+    await conn.write(encoder.encode(`S1 LOGIN "${settings.username}" "${settings.password}"\r\n`));
+    await waitFor(/^S1 OK/m);
+    await conn.write(encoder.encode(`S2 APPEND INBOX {${raw.length}}\r\n`));
+    await waitFor(/^\+/m);
+    await conn.write(raw);
+    await conn.write(encoder.encode("\r\n"));
+    await waitFor(/^S2 OK/m);
+    await conn.write(encoder.encode("S3 LOGOUT\r\n"));
+    await waitFor(/^S3 OK/m);
+  } finally {
+    conn.close();
+  }
+}
+
+if (serverAvailable) await appendFixture("fr-sign-in-code.eml");
+
+const search = {
+  from: "info@account.netflix.com",
+  keywords: [],
+  newerThanMinutes: 60,
+  limit: 10,
+};
+
+Deno.test({
+  name: "finds and fetches a Netflix email addressed to the account",
+  ignore: !serverAvailable,
+  fn: async () => {
+    const messages = await createImapProvider(settings).search({ ...search, recipient: "paris.profil@netcode.example" });
+
+    assertEquals(messages.length, 1);
+    assertEquals(parseNetflixEmail(messages[0].raw).otp_code, "4812");
+  },
+});
+
+Deno.test({
+  name: "leaves out emails addressed to another recipient",
+  ignore: !serverAvailable,
+  fn: async () => {
+    const messages = await createImapProvider(settings).search({ ...search, recipient: "someone.else@netcode.example" });
+
+    assertEquals(messages, []);
+  },
+});
+
+Deno.test({
+  name: "matches any of several keywords",
+  ignore: !serverAvailable,
+  fn: async () => {
+    const provider = createImapProvider(settings);
+
+    assertEquals((await provider.search({ ...search, keywords: ["no-such-word", "paris.profil"] })).length, 1);
+    assertEquals(await provider.search({ ...search, keywords: ["no-such-word", "nor-this-one"] }), []);
+  },
+});
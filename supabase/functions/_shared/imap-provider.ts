@@ -0,0 +1,177 @@
+// ============================================
+// IMAP MAILBOX PROVIDER
+// Minimal IMAP4rev1 client (LOGIN / SELECT / UID SEARCH / UID FETCH) for
+// Outlook and custom-domain mailboxes.
+//
+// Plain-text connections (use_tls = false) are allowed so the provider can be
+// pointed at a local test server, e.g. GreenMail:
+//   docker run -p 3143:3143 greenmail/standalone
+// with an imap_mailboxes row { host: "localhost", port: 3143, use_tls: false }.
+// imap-provider.test.ts runs the provider against such a server.
+// ============================================
+
+import type { ImapSettings, MailboxMessage, MailboxProvider, MailboxSearch } from "./mailbox-provider.ts";
+
+const IMAP_TIMEOUT = 20 * 1000; // Abort the whole session after 20 seconds
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+interface ImapResponse {
+  text: string;
+  literals: string[]; // Literal payloads as binary strings
+}
+
+function bytesToBinary(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return result;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function imapDate(date: Date): string {
+  return `${date.getUTCDate()}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+}
+
+// Build OR (TEXT a) (OR (TEXT b) (TEXT c)) - IMAP's OR takes exactly two keys
+function anyKeyword(keywords: string[]): string {
+  if (keywords.length === 1) return `TEXT ${quote(keywords[0])}`;
+  return `OR TEXT ${quote(keywords[0])} ${anyKeyword(keywords.slice(1))}`;
+}
+
+async function openSession(settings: ImapSettings) {
+  const conn = settings.use_tls
+    ? await Deno.connectTls({ hostname: settings.host, port: settings.port })
+    : await Deno.connect({ hostname: settings.host, port: settings.port });
+
+  const timer = setTimeout(() => conn.close(), IMAP_TIMEOUT);
+  let buffer = new Uint8Array(0);
+  let tagCounter = 0;
+
+  const fill = async () => {
+    const chunk = new Uint8Array(16384);
+    const read = await conn.read(chunk);
+    if (read === null) throw new Error("IMAP connection closed");
+    const next = new Uint8Array(buffer.length + read);
+    next.set(buffer);
+    next.set(chunk.subarray(0, read), buffer.length);
+    buffer = next;
+  };
+
+  const readLine = async (): Promise<string> => {
+    let end = -1;
+    while ((end = buffer.findIndex((byte, i) => byte === 13 && buffer[i + 1] === 10)) === -1) {
+      await fill();
+    }
+    const line = bytesToBinary(buffer.subarray(0, end));
+    buffer = buffer.subarray(end + 2);
+    return line;
+  };
+
+  const readBytes = async (length: number): Promise<string> => {
+    while (buffer.length < length) await fill();
+    const data = bytesToBinary(buffer.subarray(0, length));
+    buffer = buffer.subarray(length);
+    return data;
+  };
+
+  const command = async (cmd: string): Promise<ImapResponse[]> => {
+    const tag = `A${++tagCounter}`;
+    await conn.write(new TextEncoder().encode(`${tag} ${cmd}\r\n`));
+
+    const responses: ImapResponse[] = [];
+    while (true) {
+      let line = await readLine();
+
+      if (line.startsWith(`${tag} `)) {
+        if (!/^\S+ OK/i.test(line)) {
+          // Never echo the command itself: LOGIN carries the password
+          throw new Error(`IMAP ${cmd.split(" ")[0]} failed`);
+        }
+        return responses;
+      }
+
+      const response: ImapResponse = { text: "", literals: [] };
+      while (true) {
+        response.text += line;
+        const literal = line.match(/\{(\d+)\}$/);
+        if (!literal) break;
+        response.literals.push(await readBytes(Number(literal[1])));
+        line = await readLine();
+      }
+      responses.push(response);
+    }
+  };
+
+  const greeting = await readLine();
+  if (!greeting.startsWith("* OK")) {
+    clearTimeout(timer);
+    conn.close();
+    throw new Error("IMAP server rejected connection");
+  }
+
+  const close = async () => {
+    try {
+      await command("LOGOUT");
+    } catch {
+      // Server may drop the connection right after BYE
+    }
+    clearTimeout(timer);
+    try {
+      conn.close();
+    } catch {
+      // Already closed by the timeout
+    }
+  };
+
+  return { command, close };
+}
+
+export function createImapProvider(settings: ImapSettings): MailboxProvider {
+  return {
+    name: "imap",
+
+    async search(query: MailboxSearch): Promise<MailboxMessage[]> {
+      const session = await openSession(settings);
+
+      try {
+        await session.command(`LOGIN ${quote(settings.username)} ${quote(settings.password)}`);
+        await session.command(`SELECT ${quote(settings.mailbox || "INBOX")}`);
+
+        // SINCE only has day granularity; the exact window is applied after fetching
+        const cutoff = new Date(Date.now() - query.newerThanMinutes * 60 * 1000);
+        const criteria = [`SINCE ${imapDate(cutoff)}`, `FROM ${quote(query.from)}`];
+        if (query.recipient) criteria.push(`TO ${quote(query.recipient.trim())}`);
+        if (query.keywords.length > 0) criteria.push(anyKeyword(query.keywords));
+
+        const searchResponses = await session.command(`UID SEARCH ${criteria.join(" ")}`);
+        const uids = searchResponses
+          .filter((response) => response.text.startsWith("* SEARCH"))
+          .flatMap((response) => response.text.replace("* SEARCH", "").trim().split(/\s+/))
+          .filter(Boolean)
+          .map(Number)
+          .sort((a, b) => b - a)
+          .slice(0, query.limit);
+
+        if (uids.length === 0) return [];
+
+        const fetchResponses = await session.command(`UID FETCH ${uids.join(",")} (UID INTERNALDATE BODY.PEEK[])`);
+
+        return fetchResponses
+          .filter((response) => / FETCH /.test(response.text) && response.literals.length > 0)
+          .map((response) => ({
+            id: response.text.match(/UID (\d+)/)?.[1] || "",
+            receivedAt: new Date(response.text.match(/INTERNALDATE "\s*([^"]+)"/)?.[1] || 0),
+            raw: response.literals[0],
+          }))
+          .filter((message) => message.receivedAt.getTime() >= cutoff.getTime())
+          .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime());
+      } finally {
+        await session.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,78 @@
+// ============================================
+// MAILBOX PROVIDERS
+// Common interface over the mailboxes Netflix emails are delivered to.
+// Each netflix_accounts row picks a provider via mailbox_provider.
+// ============================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getMailboxAccessToken, type GmailCredentialStatus } from "./gmail-auth.ts";
+import { createGmailProvider } from "./gmail-provider.ts";
+import { createImapProvider } from "./imap-provider.ts";
+
+export type MailboxProviderName = "gmail" | "imap";
+
+export interface MailboxSearch {
+  from: string;
+  keywords: string[];
+  newerThanMinutes: number;
+  recipient?: string | null;
+  limit: number;
+}
+
+export interface MailboxMessage {
+  id: string;
+  receivedAt: Date;
+  raw: string; // Full RFC 822 source as a binary string
+}
+
+export interface MailboxProvider {
+  name: MailboxProviderName;
+  // Returns matching messages newest first
+  search(query: MailboxSearch): Promise<MailboxMessage[]>;
+}
+
+export interface ImapSettings {
+  host: string;
+  port: number;
+  use_tls: boolean;
+  username: string;
+  password: string;
+  mailbox: string;
+}
+
+export type MailboxProviderResult =
+  | { provider: MailboxProvider; status: "connected" }
+  | { provider: null; status: GmailCredentialStatus | "not_configured" };
+
+// Resolve the provider for a linked mailbox address
+export async function getMailboxProvider(
+  supabase: SupabaseClient,
+  providerName: MailboxProviderName,
+  address: string
+): Promise<MailboxProviderResult> {
+  if (providerName === "imap") {
+    const { data: settings, error } = await supabase
+      .from("imap_mailboxes")
+      .select("host, port, use_tls, username, password, mailbox")
+      .eq("address", address.trim().toLowerCase())
+      .maybeSingle();
+
+    if (error) {
+      console.error("[INTERNAL] Failed to load IMAP settings:", error);
+      throw new Error("Email service unavailable");
+    }
+
+    if (!settings) {
+      return { provider: null, status: "not_configured" };
+    }
+
+    return { provider: createImapProvider(settings as ImapSettings), status: "connected" };
+  }
+
+  const { accessToken, status } = await getMailboxAccessToken(supabase, address);
+  if (!accessToken) {
+    return { provider: null, status };
+  }
+
+  return { provider: createGmailProvider(accessToken), status: "connected" };
+}
@@ -0,0 +1,208 @@
+// ============================================
+// MIME MESSAGE DECODING
+// Turns a raw RFC 822 message (as a binary string, one char per byte)
+// into its headers and decoded text/html bodies.
+// Walks the full multipart tree (including attached message/rfc822 parts),
+// decodes base64 / quoted-printable, charsets and RFC 2047 encoded headers.
+// ============================================
+
+export interface MailHeader {
+  name: string;
+  value: string;
+}
+
+export interface ParsedMessage {
+  headers: MailHeader[];
+  html: string;
+  text: string;
+}
+
+export function binaryToBytes(binary: string): Uint8Array {
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0) & 0xff);
+}
+
+function decodeCharset(bytes: Uint8Array, charset: string | null): string {
+  try {
+    return new TextDecoder((charset || "utf-8").trim().toLowerCase()).decode(bytes);
+  } catch {
+    // Unknown label: UTF-8 is by far the most likely real encoding
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(value: string, underscoreIsSpace = false): string {
+  const input = underscoreIsSpace ? value.replace(/_/g, " ") : value;
+  return input
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeBase64(value: string): string {
+  const clean = value.replace(/[^A-Za-z0-9+/]/g, "");
+  // Tolerate missing padding
+  return atob(clean + "=".repeat((4 - (clean.length % 4)) % 4));
+}
+
+// Decode =?charset?B|Q?...?= words; whitespace between adjacent encoded words is dropped
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      try {
+        const binary = encoding.toUpperCase() === "B" ? decodeBase64(text) : decodeQuotedPrintable(text, true);
+        return decodeCharset(binaryToBytes(binary), charset.split("*")[0]);
+      } catch {
+        return text;
+      }
+    });
+}
+
+// Split a header block into unfolded, decoded name/value pairs
+export function parseHeaders(block: string): MailHeader[] {
+  const headers: MailHeader[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].value += " " + line.trim();
+      continue;
+    }
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers.push({ name: line.slice(0, separator).trim(), value: line.slice(separator + 1).trim() });
+    }
+  }
+  return headers.map((header) => ({ ...header, value: decodeEncodedWords(header.value) }));
+}
+
+export function getHeader(headers: MailHeader[], name: string): string {
+  return headers.find((header) => header.name.toLowerCase() === name.toLowerCase())?.value || "";
+}
+
+// Read a parameter such as boundary="abc" or charset=utf-8 from a structured header
+function getHeaderParam(value: string, param: string): string | null {
+  const match = value.match(new RegExp(`(?:^|;)\\s*${param}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, "i"));
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+function splitEntity(raw: string): { headers: MailHeader[]; body: string } {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return { headers: parseHeaders(raw), body: "" };
+  }
+  return {
+    headers: parseHeaders(raw.slice(0, match.index)),
+    body: raw.slice(match.index + match[0].length),
+  };
+}
+
+// Split a multipart body on its delimiter lines. A missing closing delimiter
+// (common in truncated or hand-forwarded mail) still yields the last part.
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `--${boundary}--`) {
+      if (current) parts.push(current.join("\r\n"));
+      return parts;
+    }
+    if (trimmed === `--${boundary}`) {
+      if (current) parts.push(current.join("\r\n"));
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+
+  if (current && current.length > 0) parts.push(current.join("\r\n"));
+  return parts;
+}
+
+// Undo the transfer encoding; the result is still a binary string
+function decodeTransfer(body: string, encoding: string): string {
+  switch (encoding.trim().toLowerCase()) {
+    case "base64":
+      return decodeBase64(body);
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return body;
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+  copy: "©", reg: "®", ndash: "–", mdash: "—", hellip: "…",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+};
+
+export function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Readable text from an HTML body: block elements become line breaks
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|tr|table|h[1-6]|li|td|th)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t\u00a0]+/g, " ")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Walk the MIME tree and keep the first text/html and text/plain bodies found
+export function parseMessage(raw: string): ParsedMessage {
+  const root = splitEntity(raw);
+  const result: ParsedMessage = { headers: root.headers, html: "", text: "" };
+
+  const walk = (headers: MailHeader[], body: string, depth: number) => {
+    if (depth > 10) return; // Guard against pathological nesting
+
+    const contentType = getHeader(headers, "Content-Type") || "text/plain";
+    const mimeType = contentType.split(";")[0].trim().toLowerCase();
+
+    if (mimeType.startsWith("multipart/")) {
+      const boundary = getHeaderParam(contentType, "boundary");
+      if (!boundary) return;
+      for (const section of splitMultipart(body, boundary)) {
+        const part = splitEntity(section);
+        walk(part.headers, part.body, depth + 1);
+      }
+      return;
+    }
+
+    // Forwarded emails arrive as an attached message
+    if (mimeType === "message/rfc822") {
+      const inner = splitEntity(decodeTransfer(body, getHeader(headers, "Content-Transfer-Encoding")));
+      walk(inner.headers, inner.body, depth + 1);
+      return;
+    }
+
+    if (/^\s*attachment/i.test(getHeader(headers, "Content-Disposition"))) return;
+    if (mimeType !== "text/html" && mimeType !== "text/plain") return;
+
+    const decoded = decodeCharset(
+      binaryToBytes(decodeTransfer(body, getHeader(headers, "Content-Transfer-Encoding"))),
+      getHeaderParam(contentType, "charset")
+    );
+
+    if (mimeType === "text/html" && !result.html) result.html = decoded;
+    if (mimeType === "text/plain" && !result.text) result.text = decoded;
+  };
+
+  walk(root.headers, root.body, 0);
+  return result;
+}
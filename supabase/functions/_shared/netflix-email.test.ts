@@ -0,0 +1,36 @@
+// ============================================
+// NETFLIX EMAIL PARSER - corpus test
+// Parses every .eml in ./fixtures/netflix-emails and checks the result
+// against expected.json. Run with:
+//   deno test --allow-read supabase/functions/_shared/netflix-email.test.ts
+// ============================================
+
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { parseNetflixEmail } from "./netflix-email.ts";
+
+const FIXTURES = new URL("./fixtures/netflix-emails/", import.meta.url);
+
+const expected: Record<string, unknown> = JSON.parse(
+  await Deno.readTextFile(new URL("expected.json", FIXTURES))
+);
+
+// Providers hand the parser the message as a binary string, one char per byte
+const readRaw = async (name: string) =>
+  Array.from(await Deno.readFile(new URL(name, FIXTURES)), (byte) => String.fromCharCode(byte)).join("");
+
+Deno.test("every fixture has an expected result", async () => {
+  const emlFiles: string[] = [];
+  for await (const entry of Deno.readDir(FIXTURES)) {
+    if (entry.isFile && entry.name.endsWith(".eml")) emlFiles.push(entry.name);
+  }
+
+  assertEquals(emlFiles.sort(), Object.keys(expected).sort());
+});
+
+for (const name of Object.keys(expected)) {
+  Deno.test(`parses ${name}`, async () => {
+    const { kind, subject, recipients, verification_link, otp_code } = parseNetflixEmail(await readRaw(name));
+
+    assertEquals({ kind, subject, recipients, verification_link, otp_code }, expected[name]);
+  });
+}
@@ -0,0 +1,175 @@
+// ============================================
+// NETFLIX EMAIL PARSER
+// Classifies a raw Netflix email (verification or security notice) and
+// extracts its verification link or code.
+// Pure function of the message source so it can be checked against the
+// .eml corpus in ./fixtures/netflix-emails (see expected.json there).
+// ============================================
+
+import { decodeHtmlEntities, getHeader, htmlToText, parseMessage, type MailHeader } from "./mime.ts";
+
+export type NetflixEmailKind =
+  | "temporary_access"
+  | "household_update"
+  | "sign_in_code"
+  | "new_sign_in"
+  | "password_changed"
+  | "payment_failed"
+  | "unknown";
+
+// Kinds that describe something happening to the account rather than a verification
+export const SECURITY_KINDS: NetflixEmailKind[] = ["new_sign_in", "password_changed", "payment_failed"];
+
+export interface NetflixEmail {
+  kind: NetflixEmailKind;
+  subject: string;
+  from: string;
+  recipients: string[];
+  verification_link: string | null;
+  otp_code: string | null;
+}
+
+const RECIPIENT_HEADERS = ["to", "cc", "x-original-to", "x-forwarded-to"];
+
+// Link paths are the same in every language, so they decide first
+const LINK_KINDS: { kind: NetflixEmailKind; pattern: RegExp }[] = [
+  { kind: "temporary_access", pattern: /\/account\/travel\/verify/i },
+  { kind: "household_update", pattern: /\/account\/(?:update-primary-location|household|set-primary-location)/i },
+];
+
+// Subject/body phrases for emails without a telling link, lowercased
+const KEYWORD_KINDS: { kind: NetflixEmailKind; keywords: string[] }[] = [
+  {
+    kind: "temporary_access",
+    keywords: [
+      "temporary access", "acceso temporal", "acesso temporário",
+      "accès temporaire", "vorübergehenden zugang", "一時アクセス",
+    ],
+  },
+  {
+    kind: "household_update",
+    keywords: [
+      "netflix household", "hogar con netflix", "hogar de netflix", "residência netflix",
+      "foyer netflix", "netflix-haushalt", "netflix世帯",
+    ],
+  },
+  {
+    kind: "sign_in_code",
+    keywords: [
+      "sign-in code", "sign in code", "código de inicio de sesión", "código de login",
+      "code de connexion", "code d'identification", "anmeldecode", "ログインコード",
+    ],
+  },
+  {
+    kind: "new_sign_in",
+    keywords: [
+      "new sign-in", "new sign in", "new device", "nuevo inicio de sesión", "nuevo dispositivo",
+      "novo acesso", "novo dispositivo", "nouvelle connexion", "nouvel appareil",
+      "neue anmeldung", "neues gerät", "新しいデバイス",
+    ],
+  },
+  {
+    kind: "password_changed",
+    keywords: [
+      "password has been changed", "password was changed", "password changed", "contraseña se cambió",
+      "cambio de contraseña", "senha foi alterada", "mot de passe a été modifié",
+      "passwort wurde geändert", "パスワードが変更",
+    ],
+  },
+  {
+    kind: "payment_failed",
+    keywords: [
+      "payment declined", "payment failed", "problem with your payment", "update your payment",
+      "account is on hold", "pago rechazado", "problema con tu pago", "actualiza tu forma de pago",
+      "pagamento recusado", "problema com seu pagamento", "problème de paiement",
+      "zahlung fehlgeschlagen", "problem mit deiner zahlung", "お支払いに問題",
+    ],
+  },
+];
+
+const VERIFICATION_LINK = /\/account\/|verify|code|access|travel/i;
+
+// Collect every address a message was sent to
+export function getRecipientAddresses(headers: MailHeader[]): string[] {
+  const addresses: string[] = [];
+  for (const header of headers) {
+    if (!RECIPIENT_HEADERS.includes(header.name.toLowerCase())) continue;
+    const matches = header.value.match(/[^\s<>,;"']+@[^\s<>,;"']+/g) || [];
+    addresses.push(...matches.map((address) => address.toLowerCase()));
+  }
+  return addresses;
+}
+
+// Netflix links from anchor hrefs first (button targets), then bare URLs in the text
+function findNetflixLinks(html: string, text: string): string[] {
+  const hrefs = [...html.matchAll(/href\s*=\s*["']([^"']+)["']/gi)].map((match) => decodeHtmlEntities(match[1]));
+  const bare = text.match(/https?:\/\/[^\s"'<>)\]]+/gi) || [];
+
+  return [...hrefs, ...bare]
+    .map((link) => link.trim())
+    .filter((link) => {
+      try {
+        const host = new URL(link).hostname.toLowerCase();
+        return host === "netflix.com" || host.endsWith(".netflix.com");
+      } catch {
+        return false;
+      }
+    });
+}
+
+// Sign-in codes are shown on a line of their own, sometimes spaced out ("1 2 3 4")
+function findCode(text: string): string | null {
+  const withoutLinks = text.replace(/https?:\/\/\S+/gi, " ");
+
+  for (const line of withoutLinks.split("\n")) {
+    const trimmed = line.trim();
+    if (/^\d(?:\s?\d){3,7}$/.test(trimmed)) return trimmed.replace(/\s/g, "");
+  }
+
+  const inline = withoutLinks.match(/(?:code|código|codice|kode|コード)\s*[:：]?\s*(\d{4,8})\b/i);
+  return inline ? inline[1] : null;
+}
+
+function classify(subject: string, text: string, links: string[]): NetflixEmailKind {
+  for (const { kind, pattern } of LINK_KINDS) {
+    if (links.some((link) => pattern.test(link))) return kind;
+  }
+
+  const haystack = `${subject}\n${text}`.toLowerCase();
+  for (const { kind, keywords } of KEYWORD_KINDS) {
+    if (keywords.some((keyword) => haystack.includes(keyword))) return kind;
+  }
+
+  return "unknown";
+}
+
+export function parseNetflixEmail(raw: string): NetflixEmail {
+  const message = parseMessage(raw);
+  const text = message.text || htmlToText(message.html);
+  const subject = getHeader(message.headers, "Subject");
+  const links = findNetflixLinks(message.html, text);
+  const kind = classify(subject, text, links);
+
+  const result: NetflixEmail = {
+    kind,
+    subject,
+    from: getHeader(message.headers, "From"),
+    recipients: getRecipientAddresses(message.headers),
+    verification_link: null,
+    otp_code: null,
+  };
+
+  if (kind === "temporary_access" || kind === "household_update") {
+    const { pattern } = LINK_KINDS.find((entry) => entry.kind === kind)!;
+    result.verification_link = links.find((link) => pattern.test(link))
+      ?? links.find((link) => VERIFICATION_LINK.test(link))
+      ?? null;
+  }
+
+  // Temporary-access emails may carry the code inline instead of a link
+  if (kind === "sign_in_code" || (kind === "temporary_access" && !result.verification_link)) {
+    result.otp_code = findCode(text);
+  }
+
+  return result;
+}
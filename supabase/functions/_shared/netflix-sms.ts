@@ -0,0 +1,34 @@
+// ============================================
+// NETFLIX SMS PARSER
+// Extracts the verification link or code from a Netflix text message
+// forwarded by an SMS-forwarder device
+// ============================================
+
+import type { EmailResult } from "./verification.ts";
+
+// Netflix sends from short codes that vary by country, so the text must mention Netflix
+const NETFLIX_MENTION = /netflix/i;
+
+export function parseNetflixSms(from: string, text: string): EmailResult | null {
+  if (!NETFLIX_MENTION.test(from) && !NETFLIX_MENTION.test(text)) return null;
+
+  const link = (text.match(/https?:\/\/[^\s"'<>]+/gi) || []).find((url) => {
+    try {
+      const host = new URL(url).hostname.toLowerCase();
+      return host === "netflix.com" || host.endsWith(".netflix.com");
+    } catch {
+      return false;
+    }
+  });
+
+  if (link) {
+    return { verification_link: link.replace(/[.,;!?)]+$/, ""), otp_code: null };
+  }
+
+  // Ignore digits inside URLs and phone numbers (e.g. help lines like 1-866-579-7172)
+  const code = text
+    .replace(/https?:\/\/\S+/gi, " ")
+    .match(/(?<![\d+-])\d{4,8}(?![\d-])/);
+
+  return code ? { verification_link: null, otp_code: code[0] } : null;
+}
@@ -0,0 +1,231 @@
+// ============================================
+// NETFLIX VERIFICATION LOOKUP
+// Finds the newest verification link/code for a Netflix account in its linked
+// mailbox and stores it in otp_logs. Shared by fetch-netflix-otp and the
+// verification-poller cron function.
+// ============================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getMailboxProvider, type MailboxProvider } from "./mailbox-provider.ts";
+import { parseNetflixEmail } from "./netflix-email.ts";
+
+export const VERIFICATION_TTL = 15 * 60 * 1000; // otp_logs entries stay valid for 15 minutes
+export const NETFLIX_SENDER = "info@account.netflix.com";
+const HISTORY_RETENTION = 7 * 24 * 60 * 60 * 1000; // Expired otp_logs entries are kept for a week
+
+export type VerificationSource = "email" | "admin" | "sms";
+
+export interface EmailResult {
+  verification_link: string | null;
+  otp_code: string | null;
+}
+
+export type VerificationLookup =
+  | { status: "found"; result: EmailResult }
+  | { status: "not_found" }
+  | { status: "mailbox_unavailable"; mailboxStatus: string };
+
+interface AccountAddress {
+  netflix_email: string | null;
+  phone_number: string | null;
+}
+
+// The Netflix account a verification is being fetched for, plus the other
+// accounts that forward into the same mailbox (used to detect ambiguity)
+interface RecipientScope extends AccountAddress {
+  other_accounts: AccountAddress[];
+}
+
+// Phone-number accounts receive mail on an alias containing the number (e.g. netflix+919876543210@...)
+export function phoneDigits(phoneNumber: string | null): string | null {
+  const digits = (phoneNumber || "").replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+function isAddressedTo(recipients: string[], account: AccountAddress): boolean {
+  const email = account.netflix_email?.trim().toLowerCase();
+  if (email && recipients.includes(email)) return true;
+
+  const digits = phoneDigits(account.phone_number);
+  return !!digits && recipients.some((address) => address.split("@")[0].replace(/\D/g, "").endsWith(digits));
+}
+
+// A message belongs to the customer's account only if it is addressed to that
+// account and to no other account sharing the mailbox. Anything else is ambiguous.
+function matchesRecipientScope(recipients: string[], scope: RecipientScope): boolean {
+  if (recipients.length === 0) return false;
+  if (!isAddressedTo(recipients, scope)) return false;
+  return !scope.other_accounts.some((other) => isAddressedTo(recipients, other));
+}
+
+// Which of a mailbox's accounts a message was sent to; null when none or several match
+export function matchAccount<T extends AccountAddress & { id: string }>(
+  recipients: string[],
+  accounts: T[]
+): { account: T | null; ambiguous: boolean } {
+  const matches = accounts.filter((account) => isAddressedTo(recipients, account));
+  return { account: matches.length === 1 ? matches[0] : null, ambiguous: matches.length > 1 };
+}
+
+// Search the account's mailbox for Netflix emails addressed to it and extract the verification link or OTP
+async function fetchNetflixVerification(
+  provider: MailboxProvider,
+  mailboxAddress: string,
+  scope: RecipientScope
+): Promise<EmailResult> {
+  console.log(`[INTERNAL] Searching for Netflix verification emails in ${mailboxAddress} via ${provider.name}`);
+
+  if (!scope.netflix_email && !phoneDigits(scope.phone_number)) {
+    console.log("[INTERNAL] Account has no recipient address to match against");
+    return { verification_link: null, otp_code: null };
+  }
+
+  // Netflix emails are localized, so no subject keywords are used here;
+  // the parser classifies each message instead
+  const messages = await provider.search({
+    from: NETFLIX_SENDER,
+    keywords: [],
+    newerThanMinutes: 60,
+    recipient: scope.netflix_email,
+    limit: 10,
+  });
+
+  console.log(`[INTERNAL] Found ${messages.length} potential Netflix emails`);
+
+  // Messages are returned newest first; use the newest one that is unambiguously for this account
+  for (const message of messages) {
+    const email = parseNetflixEmail(message.raw);
+
+    if (!matchesRecipientScope(email.recipients, scope)) {
+      console.log("[INTERNAL] Skipping email not addressed solely to this account");
+      continue;
+    }
+
+    if (!email.verification_link && !email.otp_code) {
+      console.log(`[INTERNAL] Skipping ${email.kind} email without a link or code`);
+      continue;
+    }
+
+    console.log(`[INTERNAL] Found ${email.kind} email`);
+    return { verification_link: email.verification_link, otp_code: email.otp_code };
+  }
+
+  console.log("[INTERNAL] No email matched this account's recipient address");
+  return { verification_link: null, otp_code: null };
+}
+
+// Look up the newest verification for a Netflix account in its linked mailbox
+export async function findAccountVerification(
+  supabase: SupabaseClient,
+  netflixAccountId: string,
+  mailboxAddress: string
+): Promise<VerificationLookup> {
+  // Scope matching to this account's recipient address; other accounts forwarding
+  // into the same mailbox are used to reject ambiguous emails
+  const { data: mailboxAccounts, error: accountsError } = await supabase
+    .from("netflix_accounts")
+    .select("id, netflix_email, phone_number, mailbox_provider")
+    .eq("gmail_address", mailboxAddress);
+
+  if (accountsError) {
+    console.error("[INTERNAL] Error loading mailbox accounts:", accountsError);
+    throw new Error("Database query failed");
+  }
+
+  const ownAccount = (mailboxAccounts || []).find((account) => account.id === netflixAccountId);
+  const scope: RecipientScope = {
+    netflix_email: ownAccount?.netflix_email ?? null,
+    phone_number: ownAccount?.phone_number ?? null,
+    other_accounts: (mailboxAccounts || []).filter((account) => account.id !== netflixAccountId),
+  };
+
+  // Connect to the mailbox linked to this Netflix account (Gmail API or IMAP)
+  const { provider, status: mailboxStatus } = await getMailboxProvider(
+    supabase,
+    ownAccount?.mailbox_provider ?? "gmail",
+    mailboxAddress
+  );
+
+  if (!provider) {
+    console.warn(`[INTERNAL] Mailbox for account ${netflixAccountId} is not usable (${mailboxStatus})`);
+    return { status: "mailbox_unavailable", mailboxStatus };
+  }
+
+  const result = await fetchNetflixVerification(provider, mailboxAddress, scope);
+  if (!result.verification_link && !result.otp_code) {
+    return { status: "not_found" };
+  }
+
+  return { status: "found", result };
+}
+
+// Whether an active SMS forwarder holds this account's phone number
+export async function hasSmsForwarder(supabase: SupabaseClient, netflixAccountId: string): Promise<boolean> {
+  const { data: account } = await supabase
+    .from("netflix_accounts")
+    .select("phone_number")
+    .eq("id", netflixAccountId)
+    .maybeSingle();
+
+  const digits = phoneDigits(account?.phone_number ?? null);
+  if (!digits) return false;
+
+  const { data: forwarders } = await supabase
+    .from("sms_forwarders")
+    .select("phone_number")
+    .eq("is_active", true);
+
+  return (forwarders || []).some((forwarder) => phoneDigits(forwarder.phone_number) === digits);
+}
+
+// Make this the account's current otp_logs entry. Inserting also delivers the
+// verification to any waiting dashboard sessions (see the otp_logs trigger).
+// Earlier entries are expired rather than deleted so admins can see who fetched what.
+export async function storeVerification(
+  supabase: SupabaseClient,
+  netflixAccountId: string,
+  result: EmailResult,
+  options: { customerId?: string | null; source?: VerificationSource } = {}
+): Promise<{ fetched_at: string; expires_at: string }> {
+  const now = new Date();
+  const fetchedAt = now.toISOString();
+  const expiresAt = new Date(now.getTime() + VERIFICATION_TTL).toISOString();
+
+  // Expire the entries this one replaces; an admin push only replaces earlier
+  // pushes to the same customer, since other customers cannot see it
+  let expirePrevious = supabase
+    .from("otp_logs")
+    .update({ expires_at: fetchedAt })
+    .eq("netflix_account_id", netflixAccountId)
+    .gt("expires_at", fetchedAt);
+
+  if (options.source === "admin") {
+    expirePrevious = expirePrevious.eq("source", "admin").eq("customer_id", options.customerId);
+  }
+  await expirePrevious;
+
+  // Drop history past the retention window
+  await supabase
+    .from("otp_logs")
+    .delete()
+    .eq("netflix_account_id", netflixAccountId)
+    .lt("fetched_at", new Date(now.getTime() - HISTORY_RETENTION).toISOString());
+
+  // Store the link or code
+  const { error: insertError } = await supabase
+    .from("otp_logs")
+    .insert({
+      netflix_account_id: netflixAccountId,
+      customer_id: options.customerId ?? null,
+      source: options.source ?? "email",
+      otp_code: result.verification_link || result.otp_code || "",
+      fetched_at: fetchedAt,
+      expires_at: expiresAt,
+    });
+
+  if (insertError) {
+    console.error("[INTERNAL] Error storing verification:", insertError);
+  }
+
+  return { fetched_at: fetchedAt, expires_at: expiresAt };
+}
@@ -0,0 +1,190 @@
+// ============================================
+// ACCOUNT SECURITY MONITOR
+// Edge function that runs every 15 minutes via cron. Scans each linked
+// mailbox for Netflix security notices (new sign-ins, password changes,
+// failed payments), records them in account_events and moves the account
+// to needs_attention or billing_failed.
+// SECURITY: This function requires CRON_SECRET authentication
+// ============================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getMailboxProvider, type MailboxProviderName } from "../_shared/mailbox-provider.ts";
+import { parseNetflixEmail, SECURITY_KINDS } from "../_shared/netflix-email.ts";
+import { matchAccount, NETFLIX_SENDER } from "../_shared/verification.ts";
+
+const SCAN_WINDOW_MINUTES = 24 * 60; // Rescanned every run; duplicates are ignored on insert
+const SCAN_LIMIT = 50;
+
+interface MonitoredAccount {
+  id: string;
+  netflix_email: string | null;
+  phone_number: string | null;
+  gmail_address: string;
+  mailbox_provider: MailboxProviderName;
+}
+
+interface AccountEvent {
+  netflix_account_id: string | null;
+  mailbox_address: string;
+  message_id: string;
+  event_type: string;
+  subject: string;
+  occurred_at: string;
+}
+
+Deno.serve(async (req) => {
+  // This is an internal cron function - no CORS headers needed
+  // Verify this is an authorized cron/internal call
+  const authHeader = req.headers.get("Authorization");
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  if (!cronSecret) {
+    console.error("[INTERNAL] CRON_SECRET environment variable not configured");
+    return new Response(
+      JSON.stringify({ error: "Service configuration error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.warn("[SECURITY] Unauthorized cron function access attempt");
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    // Initialize Supabase client with external database credentials for admin operations
+    const supabaseUrl = Deno.env.get("EXT_SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("EXT_SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: accounts, error: accountsError } = await supabase
+      .from("netflix_accounts")
+      .select("id, netflix_email, phone_number, gmail_address, mailbox_provider")
+      .not("gmail_address", "is", null);
+
+    if (accountsError) {
+      console.error("[INTERNAL] Error loading accounts:", accountsError);
+      throw new Error("Database query failed");
+    }
+
+    // Several accounts can forward into one mailbox; scan each mailbox once
+    const mailboxes = new Map<string, MonitoredAccount[]>();
+    for (const account of (accounts || []) as MonitoredAccount[]) {
+      const address = account.gmail_address.trim().toLowerCase();
+      mailboxes.set(address, [...(mailboxes.get(address) || []), account]);
+    }
+
+    let scanned = 0;
+    let recorded = 0;
+    let flagged = 0;
+
+    for (const [address, mailboxAccounts] of mailboxes) {
+      try {
+        const { provider, status } = await getMailboxProvider(supabase, mailboxAccounts[0].mailbox_provider, address);
+        if (!provider) {
+          console.warn(`[INTERNAL] Skipping mailbox ${address} (${status})`);
+          continue;
+        }
+
+        const messages = await provider.search({
+          from: NETFLIX_SENDER,
+          keywords: [],
+          newerThanMinutes: SCAN_WINDOW_MINUTES,
+          limit: SCAN_LIMIT,
+        });
+        scanned++;
+
+        const events: AccountEvent[] = [];
+        for (const message of messages) {
+          const email = parseNetflixEmail(message.raw);
+          if (!SECURITY_KINDS.includes(email.kind)) continue;
+
+          // Unmatched events are still recorded so admins see them in the mailbox's name
+          const { account } = matchAccount(email.recipients, mailboxAccounts);
+          events.push({
+            netflix_account_id: account?.id ?? null,
+            mailbox_address: address,
+            message_id: message.id,
+            event_type: email.kind,
+            subject: email.subject,
+            occurred_at: message.receivedAt.toISOString(),
+          });
+        }
+
+        if (events.length === 0) continue;
+
+        // Only newly seen emails come back, so resolved accounts are not flagged again
+        const { data: inserted, error: insertError } = await supabase
+          .from("account_events")
+          .upsert(events, { onConflict: "mailbox_address,message_id", ignoreDuplicates: true })
+          .select("netflix_account_id, event_type");
+
+        if (insertError) {
+          console.error(`[INTERNAL] Error recording events for ${address}:`, insertError);
+          continue;
+        }
+
+        recorded += inserted?.length || 0;
+
+        for (const event of inserted || []) {
+          if (!event.netflix_account_id) continue;
+
+          // A billing failure never hides an open security alert, locked or retired account
+          const update = event.event_type === "payment_failed"
+            ? supabase
+              .from("netflix_accounts")
+              .update({ status: "billing_failed", status_reason: "Netflix reported a failed payment" })
+              .eq("id", event.netflix_account_id)
+              .eq("status", "active")
+            : supabase
+              .from("netflix_accounts")
+              .update({
+                status: "needs_attention",
+                status_reason: event.event_type === "new_sign_in" ? "New sign-in detected" : "Password change detected",
+              })
+              .eq("id", event.netflix_account_id)
+              .in("status", ["active", "billing_failed"]);
+
+          // Accounts already in that state are left alone and not counted
+          const { data: changed, error: updateError } = await update.select("id");
+
+          if (updateError) {
+            console.error(`[INTERNAL] Error flagging account ${event.netflix_account_id}:`, updateError);
+            continue;
+          }
+          if (!changed || changed.length === 0) continue;
+
+          console.log(`[INTERNAL] Flagged account ${event.netflix_account_id} for ${event.event_type}`);
+          flagged++;
+        }
+      } catch (error) {
+        // Keep scanning the other mailboxes
+        console.error(`[INTERNAL] Error scanning mailbox ${address}:`, error);
+      }
+    }
+
+    console.log(`[INTERNAL] Security monitor scanned ${scanned} mailbox(es), recorded ${recorded} event(s)`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        mailboxes_scanned: scanned,
+        events_recorded: recorded,
+        accounts_flagged: flagged,
+      }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    console.error("[INTERNAL] Error in account-security-monitor function:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: "Operation failed",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  findAccountVerification,
+  hasSmsForwarder,
+  storeVerification,
+  type VerificationLookup,
+} from "../_shared/verification.ts";
 
 // Allowed origins for CORS
 const ALLOWED_ORIGINS = [
@@ -25,8 +31,18 @@ function getCorsHeaders(origin: string | null): Record<string, string> {
 
 interface FetchOtpRequest {
   access_code: string;
+  force_refresh?: boolean; // Skip the cached entry and search the mailbox again
+  wait?: boolean; // Open a waiting session when no email has arrived yet
 }
 
+// How long a waiting session keeps the verification-poller searching
+const WAIT_WINDOW = 10 * 60 * 1000;
+
+// Per-customer quota window; the limit itself is customers.daily_verification_limit
+const QUOTA_WINDOW = 24 * 60 * 60 * 1000;
+
+type RequestResult = "link" | "code" | "none" | "error";
+
 // In-memory rate limiting for OTP fetch attempts
 const rateLimits = new Map<string, { attempts: number; resetAt: number }>();
 const MAX_OTP_ATTEMPTS = 10; // Max 10 OTP fetches per 15 minutes per IP
@@ -64,177 +80,80 @@ function isRateLimited(clientIP: string): boolean {
   return false;
 }
 
-// Get new access token using refresh token
-async function getAccessToken(): Promise<string> {
-  const clientId = Deno.env.get("GMAIL_CLIENT_ID");
-  const clientSecret = Deno.env.get("GMAIL_CLIENT_SECRET");
-  const refreshToken = Deno.env.get("GMAIL_REFRESH_TOKEN");
-
-  if (!clientId || !clientSecret || !refreshToken) {
-    throw new Error("Gmail API credentials not configured");
+// Persist one verification request for the admin history and the daily quota
+async function recordRequest(
+  supabase: SupabaseClient,
+  entry: {
+    customer_id: string;
+    netflix_account_id: string | null;
+    ip_address: string;
+    result: RequestResult;
+    detail: string | null;
+    latency_ms: number;
   }
-
-  const response = await fetch("https://oauth2.googleapis.com/token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: refreshToken,
-      grant_type: "refresh_token",
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error("[INTERNAL] Failed to refresh access token:", error);
-    throw new Error("Email service unavailable");
+): Promise<void> {
+  const { error } = await supabase.from("verification_requests").insert(entry);
+  if (error) {
+    console.error("[INTERNAL] Error recording verification request:", error);
   }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
-interface EmailResult {
-  verification_link: string | null;
-  otp_code: string | null;
 }
 
-// Search for Netflix emails and extract the verification link or OTP
-async function fetchNetflixVerification(accessToken: string, gmailAddress: string): Promise<EmailResult> {
-  console.log(`[INTERNAL] Searching for Netflix verification emails in ${gmailAddress}`);
-
-  // Search for recent Netflix emails about household/verification/temporary access
-  const searchQuery = encodeURIComponent(
-    "from:info@account.netflix.com (temporary access OR household OR verification) newer_than:1h"
-  );
-
-  const searchResponse = await fetch(
-    `https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${searchQuery}&maxResults=5`,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    }
-  );
-
-  if (!searchResponse.ok) {
-    const error = await searchResponse.text();
-    console.error("[INTERNAL] Gmail search failed:", error);
-    throw new Error("Email search failed");
-  }
-
-  const searchData = await searchResponse.json();
-  const messages = searchData.messages || [];
-
-  console.log(`[INTERNAL] Found ${messages.length} potential Netflix emails`);
-
-  if (messages.length === 0) {
-    return { verification_link: null, otp_code: null };
-  }
-
-  // Get the most recent message
-  const messageId = messages[0].id;
-  const messageResponse = await fetch(
-    `https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}?format=full`,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    }
-  );
-
-  if (!messageResponse.ok) {
-    console.error("[INTERNAL] Failed to fetch message content");
-    return { verification_link: null, otp_code: null };
-  }
-
-  const messageData = await messageResponse.json();
-
-  // Extract message body (prefer HTML for link extraction)
-  let htmlBody = "";
-  let textBody = "";
-  
-  if (messageData.payload?.body?.data) {
-    const decoded = atob(messageData.payload.body.data.replace(/-/g, "+").replace(/_/g, "/"));
-    textBody = decoded;
-    htmlBody = decoded;
-  } else if (messageData.payload?.parts) {
-    for (const part of messageData.payload.parts) {
-      if (part.mimeType === "text/html" && part.body?.data) {
-        htmlBody = atob(part.body.data.replace(/-/g, "+").replace(/_/g, "/"));
-      } else if (part.mimeType === "text/plain" && part.body?.data) {
-        textBody = atob(part.body.data.replace(/-/g, "+").replace(/_/g, "/"));
-      }
-      // Check nested parts (multipart/alternative)
-      if (part.parts) {
-        for (const subpart of part.parts) {
-          if (subpart.mimeType === "text/html" && subpart.body?.data) {
-            htmlBody = atob(subpart.body.data.replace(/-/g, "+").replace(/_/g, "/"));
-          } else if (subpart.mimeType === "text/plain" && subpart.body?.data) {
-            textBody = atob(subpart.body.data.replace(/-/g, "+").replace(/_/g, "/"));
-          }
-        }
-      }
-    }
-  }
-
-  console.log("[INTERNAL] Searching for verification link in email...");
-
-  // Look for Netflix verification/household/temporary access links
-  const linkPatterns = [
-    /https:\/\/www\.netflix\.com\/account\/travel\/verify[^\s"'<>]+/gi,
-    /https:\/\/www\.netflix\.com\/account\/household[^\s"'<>]+/gi,
-    /https:\/\/www\.netflix\.com[^\s"'<>]*(?:verify|code|access)[^\s"'<>]*/gi,
-  ];
-
-  const bodyToSearch = htmlBody || textBody;
-  
-  for (const pattern of linkPatterns) {
-    const matches = bodyToSearch.match(pattern);
-    if (matches && matches.length > 0) {
-      let link = matches[0].replace(/[&]amp;/g, "&");
-      link = link.replace(/&[a-z]+;$/i, "");
-      console.log("[INTERNAL] Found verification link");
-      return { verification_link: link, otp_code: null };
-    }
+// Requests served in the quota window; failed ones do not count against the customer
+async function isOverDailyQuota(supabase: SupabaseClient, customerId: string): Promise<boolean> {
+  const { data: limits } = await supabase
+    .from("customers")
+    .select("daily_verification_limit")
+    .eq("id", customerId)
+    .maybeSingle();
+
+  const { count, error } = await supabase
+    .from("verification_requests")
+    .select("id", { count: "exact", head: true })
+    .eq("customer_id", customerId)
+    .neq("result", "error")
+    .gte("created_at", new Date(Date.now() - QUOTA_WINDOW).toISOString());
+
+  if (error) {
+    console.error("[INTERNAL] Error counting verification requests:", error);
+    return false;
   }
 
-  // Fallback: look for any Netflix link with "code" or "verify" in it
-  const genericNetflixLink = bodyToSearch.match(/https:\/\/[^\s"'<>]*netflix\.com[^\s"'<>]*/gi);
-  if (genericNetflixLink) {
-    for (const link of genericNetflixLink) {
-      if (link.includes("travel") || link.includes("verify") || link.includes("code") || link.includes("access")) {
-        const cleanLink = link.replace(/[&]amp;/g, "&").replace(/&[a-z]+;$/i, "");
-        console.log("[INTERNAL] Found Netflix verification link");
-        return { verification_link: cleanLink, otp_code: null };
-      }
-    }
-  }
+  return (count ?? 0) >= (limits?.daily_verification_limit ?? 10);
+}
 
-  // Also try to extract OTP code as fallback
-  console.log("[INTERNAL] No link found, searching for OTP code...");
-  const otpPatterns = [
-    /(?:code|verification|verify)[:\s]*(\d{4,6})/i,
-    /(\d{4,6})\s*(?:is your|verification|code)/i,
-  ];
-
-  const searchBody = textBody || htmlBody;
-  for (const pattern of otpPatterns) {
-    const match = searchBody.match(pattern);
-    if (match) {
-      const code = match[1] || match[0];
-      if (/^\d{4,6}$/.test(code)) {
-        console.log("[INTERNAL] Found OTP code");
-        return { verification_link: null, otp_code: code };
-      }
-    }
+// Reuse the customer's open waiting session, otherwise start one for the poller to work on
+async function openWaitingSession(
+  supabase: SupabaseClient,
+  customerId: string,
+  netflixAccountId: string
+): Promise<{ id: string; expires_at: string } | null> {
+  const { data: existingSession } = await supabase
+    .from("verification_sessions")
+    .select("id, expires_at")
+    .eq("customer_id", customerId)
+    .eq("status", "waiting")
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (existingSession) return existingSession;
+
+  const { data: newSession, error: sessionError } = await supabase
+    .from("verification_sessions")
+    .insert({
+      customer_id: customerId,
+      netflix_account_id: netflixAccountId,
+      expires_at: new Date(Date.now() + WAIT_WINDOW).toISOString(),
+    })
+    .select("id, expires_at")
+    .single();
+
+  if (sessionError) {
+    console.error("[INTERNAL] Error creating verification session:", sessionError);
+    return null;
   }
-
-  console.log("[INTERNAL] No verification link or OTP found in email");
-  return { verification_link: null, otp_code: null };
+  return newSession;
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -247,6 +166,10 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   const clientIP = getClientIP(req);
+  const startedAt = Date.now();
+
+  // Set once the access code is valid, so every later outcome is logged against the customer
+  let record: ((result: RequestResult, detail?: string) => Promise<void>) | null = null;
 
   // Check rate limit before processing
   if (isRateLimited(clientIP)) {
@@ -258,7 +181,7 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { access_code }: FetchOtpRequest = await req.json();
+    const { access_code, force_refresh, wait }: FetchOtpRequest = await req.json();
 
     // Validate access code format (6 digits)
     if (!access_code || !/^\d{6}$/.test(access_code)) {
@@ -298,25 +221,110 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
+    record = (result, detail) => recordRequest(supabase, {
+      customer_id: customer.id,
+      netflix_account_id: customer.netflix_account_id ?? null,
+      ip_address: clientIP,
+      result,
+      detail: detail ?? null,
+      latency_ms: Date.now() - startedAt,
+    });
+
+    if (await isOverDailyQuota(supabase, customer.id)) {
+      console.warn(`[SECURITY] Daily verification quota reached for customer ${customer.id}`);
+      await record("error", "quota_exceeded");
+      return new Response(
+        JSON.stringify({ error: "Daily verification limit reached. Please try again tomorrow or contact your admin." }),
+        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Serve a still-valid verification from otp_logs unless a fresh one was requested
+    if (!force_refresh) {
+      const { data: cachedData, error: cachedError } = await supabase.rpc(
+        "get_otp_by_access_code",
+        { p_access_code: access_code }
+      );
+
+      if (cachedError) {
+        console.error("[INTERNAL] Error reading cached verification:", cachedError);
+      }
+
+      const cached = Array.isArray(cachedData) ? cachedData[0] : cachedData;
+
+      if (cached?.otp_code) {
+        console.log("[INTERNAL] Serving cached verification");
+        const isLink = /^https?:\/\//i.test(cached.otp_code);
+        await record(isLink ? "link" : "code", "cached");
+        return new Response(
+          JSON.stringify({
+            success: true,
+            cached: true,
+            age_seconds: Math.max(0, Math.floor((Date.now() - new Date(cached.fetched_at).getTime()) / 1000)),
+            fetched_at: cached.fetched_at,
+            expires_at: cached.expires_at,
+            verification_link: isLink ? cached.otp_code : null,
+            otp_code: isLink ? null : cached.otp_code,
+            message: isLink
+              ? "Verification link retrieved successfully"
+              : "Verification code retrieved successfully"
+          }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
     const gmail_address = customer.gmail_address;
     const netflix_account_id = customer.netflix_account_id;
 
-    if (!gmail_address) {
+    let lookup: VerificationLookup;
+
+    if (gmail_address) {
+      console.log(`[INTERNAL] Fetching verification for account`);
+
+      // Fetch verification link or OTP from the mailbox
+      lookup = await findAccountVerification(supabase, netflix_account_id, gmail_address);
+    } else if (await hasSmsForwarder(supabase, netflix_account_id)) {
+      // Phone-login accounts without a mailbox only receive codes by SMS,
+      // which the sms-webhook stores as they arrive
+      lookup = { status: "not_found" };
+    } else {
+      await record("error", "no_mailbox");
       return new Response(
-        JSON.stringify({ error: "No Gmail address linked to this account" }),
+        JSON.stringify({ error: "No mailbox linked to this account. Contact your admin for the verification link." }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    console.log(`[INTERNAL] Fetching verification for account`);
-
-    // Get fresh access token
-    const accessToken = await getAccessToken();
+    if (lookup.status === "mailbox_unavailable") {
+      await record("error", "mailbox_unavailable");
+      return new Response(
+        JSON.stringify({ error: "Verification mailbox is not connected. Please contact your admin." }),
+        { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    // Fetch verification link or OTP from Gmail
-    const result = await fetchNetflixVerification(accessToken, gmail_address);
+    if (lookup.status === "not_found") {
+      if (wait) {
+        const session = await openWaitingSession(supabase, customer.id, netflix_account_id);
+
+        if (session) {
+          console.log("[INTERNAL] Waiting for verification email or SMS");
+          await record("none", "waiting");
+          return new Response(
+            JSON.stringify({
+              success: false,
+              waiting: true,
+              session_id: session.id,
+              expires_at: session.expires_at,
+              message: "Waiting for the Netflix message. Your link or code will appear here as soon as it arrives."
+            }),
+            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+      }
 
-    if (!result.verification_link && !result.otp_code) {
+      await record("none");
       return new Response(
         JSON.stringify({ 
           success: false, 
@@ -326,29 +334,22 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    // Delete old entries for this account
-    await supabase
-      .from("otp_logs")
-      .delete()
-      .eq("netflix_account_id", netflix_account_id);
-
-    // Store the link or code
-    const { error: insertError } = await supabase
-      .from("otp_logs")
-      .insert({
-        netflix_account_id,
-        otp_code: result.verification_link || result.otp_code || "",
-        fetched_at: new Date().toISOString(),
-        expires_at: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
-      });
-
-    if (insertError) {
-      console.error("[INTERNAL] Error storing verification:", insertError);
-    }
+    const { result } = lookup;
+    const { fetched_at: fetchedAt, expires_at: expiresAt } = await storeVerification(
+      supabase,
+      netflix_account_id,
+      result,
+      { customerId: customer.id }
+    );
+    await record(result.verification_link ? "link" : "code");
 
     return new Response(
       JSON.stringify({ 
         success: true, 
+        cached: false,
+        age_seconds: 0,
+        fetched_at: fetchedAt,
+        expires_at: expiresAt,
         verification_link: result.verification_link,
         otp_code: result.otp_code,
         message: result.verification_link 
@@ -360,6 +361,7 @@ const handler = async (req: Request): Promise<Response> => {
 
   } catch (error: unknown) {
     console.error("[INTERNAL] Error in fetch-netflix-otp function:", error);
+    await record?.("error", "exception");
     return new Response(
       JSON.stringify({ error: "Failed to fetch verification. Please try again." }),
       { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -0,0 +1,315 @@
+// ============================================
+// GMAIL OAUTH - Per-mailbox authorization
+// Admins connect / re-authorize each linked Gmail address and check token health.
+// The Google consent screen redirects back here (GET) with the authorization code.
+// ============================================
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getOAuthClientConfig,
+  refreshAccessToken,
+} from "../_shared/gmail-auth.ts";
+import { digestsEqual } from "../_shared/digest.ts";
+
+// Allowed origins for CORS
+const ALLOWED_ORIGINS = [
+  "https://netcode.lovable.app",
+  "https://tlfrnykndmgiwurclnlg.lovable.app",
+  "https://netcode-net.vercel.app",
+  "https://netcode-six.vercel.app",
+  "http://localhost:5173",
+  "http://localhost:8080",
+];
+
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const isAllowed = origin && ALLOWED_ORIGINS.some(allowed =>
+    origin === allowed || origin.endsWith(".lovable.app")
+  );
+
+  return {
+    "Access-Control-Allow-Origin": isAllowed ? origin! : ALLOWED_ORIGINS[0],
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Credentials": "true",
+  };
+}
+
+function isAllowedReturnUrl(url: string): boolean {
+  try {
+    const { origin } = new URL(url);
+    return ALLOWED_ORIGINS.includes(origin) || origin.endsWith(".lovable.app");
+  } catch {
+    return false;
+  }
+}
+
+const GMAIL_SCOPE = "https://www.googleapis.com/auth/gmail.readonly";
+const STATE_TTL = 10 * 60 * 1000; // Consent must complete within 10 minutes
+
+interface OAuthState {
+  gmail_address: string;
+  admin_id: string;
+  return_to: string;
+  exp: number;
+}
+
+// ============================================
+// SIGNED STATE (prevents forged callbacks)
+// ============================================
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): string {
+  return atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+}
+
+async function hmac(payload: string): Promise<string> {
+  const { clientSecret } = getOAuthClientConfig();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(clientSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+async function signState(state: OAuthState): Promise<string> {
+  const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(state)));
+  return `${payload}.${await hmac(payload)}`;
+}
+
+async function verifyState(value: string): Promise<OAuthState | null> {
+  const [payload, signature] = value.split(".");
+  if (!payload || !signature || !digestsEqual(signature, await hmac(payload))) return null;
+
+  const state: OAuthState = JSON.parse(base64UrlDecode(payload));
+  return state.exp > Date.now() ? state : null;
+}
+
+function getRedirectUri(): string {
+  return `${Deno.env.get("SUPABASE_URL")}/functions/v1/gmail-oauth`;
+}
+
+function redirectBack(returnTo: string, params: Record<string, string>): Response {
+  const url = new URL(returnTo);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return new Response(null, { status: 302, headers: { Location: url.toString() } });
+}
+
+// ============================================
+// OAUTH CALLBACK (GET from Google)
+// ============================================
+
+async function handleCallback(req: Request): Promise<Response> {
+  const params = new URL(req.url).searchParams;
+  const state = await verifyState(params.get("state") || "");
+
+  if (!state) {
+    console.warn("[SECURITY] Gmail OAuth callback with invalid or expired state");
+    return new Response("Authorization link expired. Please start again from the admin panel.", { status: 400 });
+  }
+
+  if (params.get("error") || !params.get("code")) {
+    return redirectBack(state.return_to, { gmail_oauth: "error", gmail: state.gmail_address, reason: "denied" });
+  }
+
+  const { clientId, clientSecret } = getOAuthClientConfig();
+
+  const tokenResponse = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      code: params.get("code")!,
+      redirect_uri: getRedirectUri(),
+      grant_type: "authorization_code",
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    console.error("[INTERNAL] Gmail authorization code exchange failed:", await tokenResponse.text());
+    return redirectBack(state.return_to, { gmail_oauth: "error", gmail: state.gmail_address, reason: "exchange" });
+  }
+
+  const tokens = await tokenResponse.json();
+
+  if (!tokens.refresh_token) {
+    return redirectBack(state.return_to, { gmail_oauth: "error", gmail: state.gmail_address, reason: "no_refresh_token" });
+  }
+
+  // Make sure the admin signed in to the mailbox they meant to connect
+  const profileResponse = await fetch("https://gmail.googleapis.com/gmail/v1/users/me/profile", {
+    headers: { Authorization: `Bearer ${tokens.access_token}` },
+  });
+  const profile = profileResponse.ok ? await profileResponse.json() : null;
+  const authorizedAddress = profile?.emailAddress?.toLowerCase();
+
+  if (authorizedAddress !== state.gmail_address) {
+    console.warn("[SECURITY] Gmail OAuth completed for a different mailbox than requested");
+    return redirectBack(state.return_to, { gmail_oauth: "error", gmail: state.gmail_address, reason: "mismatch" });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { error: upsertError } = await supabase
+    .from("gmail_credentials")
+    .upsert({
+      gmail_address: state.gmail_address,
+      refresh_token: tokens.refresh_token,
+      status: "connected",
+      last_error: null,
+      last_checked_at: new Date().toISOString(),
+      connected_by: state.admin_id,
+    }, { onConflict: "gmail_address" });
+
+  if (upsertError) {
+    console.error("[INTERNAL] Error storing mailbox credential:", upsertError);
+    return redirectBack(state.return_to, { gmail_oauth: "error", gmail: state.gmail_address, reason: "storage" });
+  }
+
+  console.log(`[SECURITY] Mailbox authorized by admin ${state.admin_id}`);
+  return redirectBack(state.return_to, { gmail_oauth: "success", gmail: state.gmail_address });
+}
+
+// ============================================
+// ADMIN ACTIONS (POST from admin panel)
+// ============================================
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "GET") {
+    try {
+      return await handleCallback(req);
+    } catch (error: unknown) {
+      console.error("[INTERNAL] Error in Gmail OAuth callback:", error);
+      return new Response("Authorization failed. Please try again.", { status: 500 });
+    }
+  }
+
+  const origin = req.headers.get("origin");
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    // Only signed-in admins may manage mailbox credentials
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const { data: userData } = await supabase.auth.getUser(token);
+    const adminId = userData?.user?.id;
+
+    const { data: adminRow } = adminId
+      ? await supabase.from("admin_users").select("id").eq("id", adminId).maybeSingle()
+      : { data: null };
+
+    if (!adminRow) {
+      console.warn("[SECURITY] Unauthorized Gmail OAuth management attempt");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { action, gmail_address, return_to } = await req.json();
+
+    if (action === "start") {
+      const address = typeof gmail_address === "string" ? gmail_address.trim().toLowerCase() : "";
+
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+        return new Response(
+          JSON.stringify({ error: "Valid Gmail address is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!return_to || !isAllowedReturnUrl(return_to)) {
+        return new Response(
+          JSON.stringify({ error: "Invalid return URL" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { clientId } = getOAuthClientConfig();
+      const state = await signState({
+        gmail_address: address,
+        admin_id: adminId!,
+        return_to,
+        exp: Date.now() + STATE_TTL,
+      });
+
+      // prompt=consent forces Google to issue a fresh refresh token on re-authorization
+      const url = new URL("https://accounts.google.com/o/oauth2/v2/auth");
+      url.searchParams.set("client_id", clientId);
+      url.searchParams.set("redirect_uri", getRedirectUri());
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("scope", GMAIL_SCOPE);
+      url.searchParams.set("access_type", "offline");
+      url.searchParams.set("prompt", "consent");
+      url.searchParams.set("login_hint", address);
+      url.searchParams.set("state", state);
+
+      return new Response(
+        JSON.stringify({ success: true, url: url.toString() }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "check") {
+      // Refresh every stored token and record its health
+      const { data: credentials, error } = await supabase
+        .from("gmail_credentials")
+        .select("gmail_address, refresh_token");
+
+      if (error) throw error;
+
+      const results = [];
+      for (const credential of credentials || []) {
+        const result = await refreshAccessToken(credential.refresh_token);
+        await supabase
+          .from("gmail_credentials")
+          .update({
+            status: result.status,
+            last_error: result.error,
+            last_checked_at: new Date().toISOString(),
+          })
+          .eq("gmail_address", credential.gmail_address);
+
+        results.push({ gmail_address: credential.gmail_address, status: result.status });
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, mailboxes: results }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Unknown action" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    console.error("[INTERNAL] Error in gmail-oauth function:", error);
+    return new Response(
+      JSON.stringify({ error: "Service temporarily unavailable" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,165 @@
+// ============================================
+// RESELLER LOGIN - Admin-only management of reseller portal logins
+// Creates the auth user for a reseller and links it to resellers.user_id,
+// or resets the password of an existing login.
+// ============================================
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Allowed origins for CORS
+const ALLOWED_ORIGINS = [
+  "https://netcode.lovable.app",
+  "https://tlfrnykndmgiwurclnlg.lovable.app",
+  "https://netcode-net.vercel.app",
+  "https://netcode-six.vercel.app",
+  "http://localhost:5173",
+  "http://localhost:8080",
+];
+
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const isAllowed = origin && ALLOWED_ORIGINS.some(allowed =>
+    origin === allowed || origin.endsWith(".lovable.app")
+  );
+
+  return {
+    "Access-Control-Allow-Origin": isAllowed ? origin! : ALLOWED_ORIGINS[0],
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Credentials": "true",
+  };
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  const origin = req.headers.get("origin");
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    // Only signed-in admins may hand out reseller logins
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const { data: userData } = await supabase.auth.getUser(token);
+    const adminId = userData?.user?.id;
+
+    const { data: adminRow } = adminId
+      ? await supabase.from("admin_users").select("id").eq("id", adminId).maybeSingle()
+      : { data: null };
+
+    if (!adminRow) {
+      console.warn("[SECURITY] Unauthorized reseller login management attempt");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { resellerId, email, password } = await req.json();
+
+    if (!resellerId || !password) {
+      return new Response(
+        JSON.stringify({ error: "Reseller and password are required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (password.length < 8) {
+      return new Response(
+        JSON.stringify({ error: "Password must be at least 8 characters" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: reseller, error: resellerError } = await supabase
+      .from("resellers")
+      .select("id, name, user_id")
+      .eq("id", resellerId)
+      .maybeSingle();
+
+    if (resellerError || !reseller) {
+      return new Response(
+        JSON.stringify({ error: "Reseller not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Existing login: only the password changes
+    if (reseller.user_id) {
+      const { error: updateError } = await supabase.auth.admin.updateUserById(reseller.user_id, { password });
+      if (updateError) {
+        console.error("[INTERNAL] Error resetting reseller password:", updateError);
+        return new Response(
+          JSON.stringify({ error: "Failed to reset password" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      console.log(`[SECURITY] Reseller login password reset for ${reseller.id} by admin ${adminId}`);
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!email || !emailRegex.test(email)) {
+      return new Response(
+        JSON.stringify({ error: "Invalid email format" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: created, error: createError } = await supabase.auth.admin.createUser({
+      email,
+      password,
+      email_confirm: true,
+      user_metadata: { name: reseller.name },
+    });
+
+    if (createError) {
+      console.error("[INTERNAL] Error creating reseller user:", createError);
+      const alreadyExists = createError.message.includes("already") || createError.message.includes("exists");
+      return new Response(
+        JSON.stringify({ error: alreadyExists ? "Email already registered" : "Failed to create reseller login" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { error: linkError } = await supabase
+      .from("resellers")
+      .update({ user_id: created.user.id })
+      .eq("id", reseller.id);
+
+    if (linkError) {
+      console.error("[INTERNAL] Error linking reseller login:", linkError);
+      // Clean up - delete the auth user if linking fails
+      await supabase.auth.admin.deleteUser(created.user.id);
+      return new Response(
+        JSON.stringify({ error: "Failed to complete reseller login setup" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`[SECURITY] Reseller login created for ${reseller.id} by admin ${adminId}`);
+    return new Response(
+      JSON.stringify({ success: true, email: created.user.email }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[INTERNAL] Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Service temporarily unavailable" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
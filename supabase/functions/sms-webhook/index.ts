@@ -0,0 +1,111 @@
+// ============================================
+// SMS WEBHOOK - Netflix codes for phone-login accounts
+// Receives texts from an Android SMS-forwarder app installed on the phone that
+// holds the Netflix account's SIM, and stores the code/link in otp_logs.
+// SECURITY: Each device sends its own id and secret in the
+// X-Forwarder-Id and X-Forwarder-Secret headers.
+//
+// Forwarder app payload (JSON): { "from": "%from%", "text": "%text%" }
+// ============================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseNetflixSms } from "../_shared/netflix-sms.ts";
+import { phoneDigits, storeVerification } from "../_shared/verification.ts";
+import { digestsEqual, sha256Hex } from "../_shared/digest.ts";
+
+interface SmsPayload {
+  from?: string;
+  text?: string;
+  message?: string; // Some forwarder apps use message/body instead of text
+  body?: string;
+}
+
+Deno.serve(async (req) => {
+  // Server-to-server webhook - no CORS headers needed
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({ error: "Method not allowed" }),
+      { status: 405, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const forwarderId = req.headers.get("x-forwarder-id") || "";
+    const forwarderSecret = req.headers.get("x-forwarder-secret") || "";
+
+    const { data: forwarder } = /^[0-9a-f-]{36}$/i.test(forwarderId)
+      ? await supabase
+          .from("sms_forwarders")
+          .select("id, phone_number, secret_hash, is_active")
+          .eq("id", forwarderId)
+          .maybeSingle()
+      : { data: null };
+
+    if (!forwarder?.is_active || !digestsEqual(await sha256Hex(forwarderSecret), forwarder.secret_hash)) {
+      console.warn("[SECURITY] Rejected SMS webhook call with invalid forwarder credentials");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    await supabase
+      .from("sms_forwarders")
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq("id", forwarder.id);
+
+    const payload: SmsPayload = await req.json();
+    const text = (payload.text ?? payload.message ?? payload.body ?? "").toString();
+    const result = parseNetflixSms((payload.from ?? "").toString(), text);
+
+    // Forwarder apps retry non-2xx responses, so ignored texts still get 200
+    if (!result) {
+      console.log("[INTERNAL] Ignoring non-Netflix SMS");
+      return new Response(
+        JSON.stringify({ success: true, stored: false }),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Find the Netflix account that logs in with this device's number
+    const { data: accounts, error: accountsError } = await supabase
+      .from("netflix_accounts")
+      .select("id, phone_number")
+      .not("phone_number", "is", null);
+
+    if (accountsError) {
+      console.error("[INTERNAL] Error loading phone accounts:", accountsError);
+      throw new Error("Database query failed");
+    }
+
+    const digits = phoneDigits(forwarder.phone_number);
+    const matches = (accounts || []).filter((account) => phoneDigits(account.phone_number) === digits);
+
+    if (matches.length !== 1) {
+      console.warn(`[INTERNAL] SMS forwarder ${forwarder.id} matches ${matches.length} Netflix accounts; code not stored`);
+      return new Response(
+        JSON.stringify({ success: true, stored: false }),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    await storeVerification(supabase, matches[0].id, result, { source: "sms" });
+    console.log(`[INTERNAL] Stored SMS verification for account ${matches[0].id}`);
+
+    return new Response(
+      JSON.stringify({ success: true, stored: true }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    console.error("[INTERNAL] Error in sms-webhook function:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: "Operation failed" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,127 @@
+// ============================================
+// SUSPEND UNPAID CUSTOMERS
+// Edge function that runs daily via cron to mark customers inactive when a
+// priced subscription period has gone unpaid for N days
+// (UNPAID_SUSPEND_DAYS; the function does nothing when it is not set)
+// SECURITY: This function requires CRON_SECRET authentication
+// ============================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+Deno.serve(async (req) => {
+  // This is an internal cron function - no CORS headers needed
+  // Verify this is an authorized cron/internal call
+  const authHeader = req.headers.get("Authorization");
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  if (!cronSecret) {
+    console.error("[INTERNAL] CRON_SECRET environment variable not configured");
+    return new Response(
+      JSON.stringify({ error: "Service configuration error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.warn("[SECURITY] Unauthorized cron function access attempt");
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const graceDays = parseInt(Deno.env.get("UNPAID_SUSPEND_DAYS") || "");
+  if (!graceDays || graceDays < 1) {
+    console.log("[INTERNAL] UNPAID_SUSPEND_DAYS not configured, skipping");
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "Auto-suspend is disabled",
+        suspended_count: 0,
+      }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    // Initialize Supabase client with external database credentials for admin operations
+    const supabaseUrl = Deno.env.get("EXT_SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("EXT_SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Periods that started on or before the cutoff are past their grace period
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - graceDays);
+    const cutoffDate = cutoff.toISOString().split("T")[0];
+    console.log(`[INTERNAL] Running unpaid check for periods started on or before ${cutoffDate}`);
+
+    // Same rule the admin UI shows: pooled payments settle periods oldest
+    // first, and unpaid_since is the oldest priced period they do not reach
+    // at all. Partial payers are left for the admin to chase.
+    const { data: unpaidStatuses, error: fetchError } = await supabase
+      .from("customer_payment_status")
+      .select("customer_id")
+      .lte("unpaid_since", cutoffDate);
+
+    if (fetchError) {
+      console.error("[INTERNAL] Error fetching payment status:", fetchError);
+      throw new Error("Database query failed");
+    }
+
+    const { data: customersToSuspend, error: customersError } = await supabase
+      .from("customers")
+      .select("id, name")
+      .eq("is_active", true)
+      .in("id", (unpaidStatuses || []).map((status) => status.customer_id));
+
+    if (customersError) {
+      console.error("[INTERNAL] Error fetching customers:", customersError);
+      throw new Error("Database query failed");
+    }
+
+    if (!customersToSuspend || customersToSuspend.length === 0) {
+      console.log("[INTERNAL] No unpaid customers found");
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: "No unpaid customers found",
+          suspended_count: 0,
+        }),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Keep the account and profile so the customer can be reactivated once they pay
+    const idsToSuspend = customersToSuspend.map((c) => c.id);
+
+    const { error: updateError } = await supabase
+      .from("customers")
+      .update({ is_active: false })
+      .in("id", idsToSuspend);
+
+    if (updateError) {
+      console.error("[INTERNAL] Error suspending customers:", updateError);
+      throw new Error("Database update failed");
+    }
+
+    console.log(`[INTERNAL] Suspended ${customersToSuspend.length} unpaid customers`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Suspended ${customersToSuspend.length} unpaid customer(s)`,
+        suspended_count: customersToSuspend.length,
+      }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    console.error("[INTERNAL] Error in suspend-unpaid function:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: "Operation failed",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
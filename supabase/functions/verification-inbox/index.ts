@@ -0,0 +1,200 @@
+// ============================================
+// VERIFICATION INBOX - Admin view of Netflix emails
+// Lists recent Netflix emails in every linked mailbox with their parsed
+// classification and matched account, and lets admins push a link/code
+// to a specific customer's dashboard.
+// ============================================
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getMailboxProvider, type MailboxProviderName } from "../_shared/mailbox-provider.ts";
+import { parseNetflixEmail } from "../_shared/netflix-email.ts";
+import { matchAccount, NETFLIX_SENDER, storeVerification } from "../_shared/verification.ts";
+
+// Allowed origins for CORS
+const ALLOWED_ORIGINS = [
+  "https://netcode.lovable.app",
+  "https://tlfrnykndmgiwurclnlg.lovable.app",
+  "https://netcode-net.vercel.app",
+  "https://netcode-six.vercel.app",
+  "http://localhost:5173",
+  "http://localhost:8080",
+];
+
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const isAllowed = origin && ALLOWED_ORIGINS.some(allowed =>
+    origin === allowed || origin.endsWith(".lovable.app")
+  );
+
+  return {
+    "Access-Control-Allow-Origin": isAllowed ? origin! : ALLOWED_ORIGINS[0],
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Credentials": "true",
+  };
+}
+
+const INBOX_WINDOW_MINUTES = 24 * 60; // Show the last day of Netflix emails
+const INBOX_LIMIT = 25; // Per mailbox
+const MAX_PUSH_LENGTH = 2048;
+
+interface MailboxAccount {
+  id: string;
+  netflix_email: string | null;
+  phone_number: string | null;
+  gmail_address: string;
+  mailbox_provider: MailboxProviderName;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  const origin = req.headers.get("origin");
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    // Only signed-in admins may read mailboxes or push verifications
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const { data: userData } = await supabase.auth.getUser(token);
+    const adminId = userData?.user?.id;
+
+    const { data: adminRow } = adminId
+      ? await supabase.from("admin_users").select("id").eq("id", adminId).maybeSingle()
+      : { data: null };
+
+    if (!adminRow) {
+      console.warn("[SECURITY] Unauthorized verification inbox access attempt");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { action, customer_id, value } = await req.json();
+
+    if (action === "list") {
+      const { data: accounts, error } = await supabase
+        .from("netflix_accounts")
+        .select("id, netflix_email, phone_number, gmail_address, mailbox_provider")
+        .not("gmail_address", "is", null);
+
+      if (error) throw error;
+
+      // Group accounts by the mailbox they forward into
+      const mailboxes = new Map<string, MailboxAccount[]>();
+      for (const account of (accounts || []) as MailboxAccount[]) {
+        const address = account.gmail_address.trim().toLowerCase();
+        mailboxes.set(address, [...(mailboxes.get(address) || []), account]);
+      }
+
+      const results = [];
+      for (const [address, mailboxAccounts] of mailboxes) {
+        const providerName = mailboxAccounts[0].mailbox_provider;
+
+        try {
+          const { provider, status } = await getMailboxProvider(supabase, providerName, address);
+          if (!provider) {
+            results.push({ address, provider: providerName, status, emails: [] });
+            continue;
+          }
+
+          const messages = await provider.search({
+            from: NETFLIX_SENDER,
+            keywords: [],
+            newerThanMinutes: INBOX_WINDOW_MINUTES,
+            limit: INBOX_LIMIT,
+          });
+
+          const emails = messages.map((message) => {
+            const email = parseNetflixEmail(message.raw);
+            const { account, ambiguous } = matchAccount(email.recipients, mailboxAccounts);
+            return {
+              id: message.id,
+              received_at: message.receivedAt.toISOString(),
+              subject: email.subject,
+              kind: email.kind,
+              recipients: email.recipients,
+              verification_link: email.verification_link,
+              otp_code: email.otp_code,
+              matched_account_id: account?.id ?? null,
+              ambiguous,
+            };
+          });
+
+          results.push({ address, provider: providerName, status: "connected", emails });
+        } catch (error) {
+          // One broken mailbox should not hide the others
+          console.error(`[INTERNAL] Failed to read mailbox ${address}:`, error);
+          results.push({ address, provider: providerName, status: "error", emails: [] });
+        }
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, mailboxes: results }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "push") {
+      const pushValue = typeof value === "string" ? value.trim() : "";
+
+      if (!customer_id || !pushValue || pushValue.length > MAX_PUSH_LENGTH) {
+        return new Response(
+          JSON.stringify({ error: "Customer and a link or code are required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: customer, error } = await supabase
+        .from("customers")
+        .select("id, netflix_account_id, is_active")
+        .eq("id", customer_id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!customer?.is_active || !customer.netflix_account_id) {
+        return new Response(
+          JSON.stringify({ error: "Customer is inactive or has no Netflix account" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const isLink = /^https?:\/\//i.test(pushValue);
+      const stored = await storeVerification(
+        supabase,
+        customer.netflix_account_id,
+        { verification_link: isLink ? pushValue : null, otp_code: isLink ? null : pushValue },
+        { customerId: customer.id, source: "admin" }
+      );
+
+      console.log(`[INTERNAL] Admin ${adminId} pushed a verification to customer ${customer.id}`);
+
+      return new Response(
+        JSON.stringify({ success: true, ...stored }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Unknown action" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    console.error("[INTERNAL] Error in verification-inbox function:", error);
+    return new Response(
+      JSON.stringify({ error: "Service temporarily unavailable" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,137 @@
+// ============================================
+// VERIFICATION POLLER
+// Edge function that runs every minute via cron. While a customer has a
+// waiting verification session open, it keeps searching the account's mailbox
+// and stores the link/code in otp_logs, which pushes it to the dashboard.
+// SECURITY: This function requires CRON_SECRET authentication
+// ============================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { findAccountVerification, storeVerification } from "../_shared/verification.ts";
+
+const RUN_DURATION = 50 * 1000; // Stay under the one-minute cron interval
+const POLL_INTERVAL = 10 * 1000;
+
+Deno.serve(async (req) => {
+  // This is an internal cron function - no CORS headers needed
+  // Verify this is an authorized cron/internal call
+  const authHeader = req.headers.get("Authorization");
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  if (!cronSecret) {
+    console.error("[INTERNAL] CRON_SECRET environment variable not configured");
+    return new Response(
+      JSON.stringify({ error: "Service configuration error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.warn("[SECURITY] Unauthorized cron function access attempt");
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    // Initialize Supabase client with external database credentials for admin operations
+    const supabaseUrl = Deno.env.get("EXT_SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("EXT_SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const startedAt = Date.now();
+    let rounds = 0;
+    let delivered = 0;
+
+    while (Date.now() - startedAt < RUN_DURATION) {
+      rounds++;
+      const now = new Date().toISOString();
+
+      // Close sessions whose wait window has passed
+      const { error: expireError } = await supabase
+        .from("verification_sessions")
+        .update({ status: "expired" })
+        .eq("status", "waiting")
+        .lte("expires_at", now);
+
+      if (expireError) {
+        console.error("[INTERNAL] Error expiring verification sessions:", expireError);
+      }
+
+      const { data: sessions, error: sessionsError } = await supabase
+        .from("verification_sessions")
+        .select("id, customer_id, netflix_account_id, netflix_accounts(gmail_address)")
+        .order("created_at", { ascending: true })
+        .eq("status", "waiting")
+        .gt("expires_at", now);
+
+      if (sessionsError) {
+        console.error("[INTERNAL] Error loading verification sessions:", sessionsError);
+        throw new Error("Database query failed");
+      }
+
+      if (!sessions || sessions.length === 0) {
+        break;
+      }
+
+      // Several customers can wait on the same account; search each mailbox once
+      // and credit the fetch to whoever started waiting first
+      const accounts = new Map<string, { gmailAddress: string | null; customerId: string }>();
+      for (const session of sessions) {
+        if (accounts.has(session.netflix_account_id)) continue;
+        const account = session.netflix_accounts as { gmail_address: string | null } | null;
+        accounts.set(session.netflix_account_id, {
+          gmailAddress: account?.gmail_address ?? null,
+          customerId: session.customer_id,
+        });
+      }
+
+      console.log(`[INTERNAL] Polling ${accounts.size} account(s) for ${sessions.length} waiting session(s)`);
+
+      for (const [netflixAccountId, { gmailAddress, customerId }] of accounts) {
+        if (!gmailAddress) continue;
+
+        try {
+          const lookup = await findAccountVerification(supabase, netflixAccountId, gmailAddress);
+          if (lookup.status === "found") {
+            await storeVerification(supabase, netflixAccountId, lookup.result, { customerId });
+            delivered++;
+          }
+        } catch (error) {
+          // Keep polling the other accounts
+          console.error(`[INTERNAL] Error polling account ${netflixAccountId}:`, error);
+        }
+      }
+
+      await supabase
+        .from("verification_sessions")
+        .update({ last_checked_at: new Date().toISOString() })
+        .in("id", sessions.map((session) => session.id))
+        .eq("status", "waiting");
+
+      if (Date.now() - startedAt + POLL_INTERVAL >= RUN_DURATION) break;
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    }
+
+    console.log(`[INTERNAL] Verification poller finished after ${rounds} round(s), ${delivered} delivered`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        rounds,
+        delivered_count: delivered,
+      }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    console.error("[INTERNAL] Error in verification-poller function:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: "Operation failed",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,55 @@
+-- =============================================
+-- Per-mailbox Gmail OAuth credentials
+-- Each linked gmail_address gets its own refresh token so verification
+-- emails no longer have to be forwarded to a single global inbox.
+-- =============================================
+
+CREATE TABLE public.gmail_credentials (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gmail_address TEXT NOT NULL UNIQUE,
+  refresh_token TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'connected',
+  last_error TEXT,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  connected_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_gmail_credential_status CHECK (status IN ('connected', 'expired', 'revoked', 'error')),
+  CONSTRAINT gmail_address_lowercase CHECK (gmail_address = lower(gmail_address))
+);
+
+ALTER TABLE public.gmail_credentials ENABLE ROW LEVEL SECURITY;
+
+-- NO client policies: refresh tokens are only read and written by Edge Functions
+-- using the service_role key, which bypasses RLS.
+
+CREATE TRIGGER update_gmail_credentials_updated_at
+BEFORE UPDATE ON public.gmail_credentials
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Token health for the admin panel, without exposing the refresh tokens
+CREATE OR REPLACE FUNCTION public.get_gmail_credential_status()
+RETURNS TABLE(
+  gmail_address text,
+  status text,
+  last_error text,
+  last_checked_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT g.gmail_address, g.status, g.last_error, g.last_checked_at, g.updated_at
+  FROM gmail_credentials g
+  ORDER BY g.gmail_address;
+END;
+$$;
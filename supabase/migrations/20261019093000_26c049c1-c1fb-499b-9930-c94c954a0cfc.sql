@@ -0,0 +1,45 @@
+-- =============================================
+-- Mailbox providers: Gmail API or IMAP per Netflix account
+-- gmail_address remains the linked mailbox address for both providers.
+-- =============================================
+
+ALTER TABLE public.netflix_accounts
+ADD COLUMN mailbox_provider TEXT NOT NULL DEFAULT 'gmail';
+
+ALTER TABLE public.netflix_accounts
+ADD CONSTRAINT valid_mailbox_provider CHECK (mailbox_provider IN ('gmail', 'imap'));
+
+-- IMAP connection settings keyed by mailbox address
+CREATE TABLE public.imap_mailboxes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  address TEXT NOT NULL UNIQUE,
+  host TEXT NOT NULL,
+  port INTEGER NOT NULL DEFAULT 993,
+  use_tls BOOLEAN NOT NULL DEFAULT true,
+  username TEXT NOT NULL,
+  password TEXT NOT NULL,
+  mailbox TEXT NOT NULL DEFAULT 'INBOX',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT imap_address_lowercase CHECK (address = lower(address)),
+  CONSTRAINT valid_imap_port CHECK (port > 0 AND port < 65536)
+);
+
+ALTER TABLE public.imap_mailboxes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage imap mailboxes"
+ON public.imap_mailboxes
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+-- Admins may write the password but never read it back; Edge Functions use service_role
+REVOKE SELECT ON public.imap_mailboxes FROM anon, authenticated;
+GRANT SELECT (id, address, host, port, use_tls, username, mailbox, created_at, updated_at)
+ON public.imap_mailboxes TO authenticated;
+
+CREATE TRIGGER update_imap_mailboxes_updated_at
+BEFORE UPDATE ON public.imap_mailboxes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
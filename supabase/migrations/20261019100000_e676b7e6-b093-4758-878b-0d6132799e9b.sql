@@ -0,0 +1,46 @@
+-- =============================================
+-- Cached verifications: return fetched_at so callers can report the entry's age
+-- (the return type changes, so the function has to be dropped first)
+-- =============================================
+
+DROP FUNCTION IF EXISTS public.get_otp_by_access_code(text);
+
+CREATE OR REPLACE FUNCTION public.get_otp_by_access_code(p_access_code text)
+RETURNS TABLE(
+  otp_code text,
+  fetched_at timestamptz,
+  expires_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_netflix_account_id uuid;
+BEGIN
+  -- Validate input: must be exactly 6 digits
+  IF p_access_code IS NULL OR length(p_access_code) != 6 OR p_access_code !~ '^[0-9]{6}$' THEN
+    RETURN;
+  END IF;
+
+  -- Get the netflix_account_id for this access code
+  SELECT c.netflix_account_id INTO v_netflix_account_id
+  FROM customers c
+  WHERE c.access_code = p_access_code AND c.is_active = true
+  LIMIT 1;
+
+  IF v_netflix_account_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Return the most recent non-expired OTP for this account
+  RETURN QUERY
+  SELECT o.otp_code, o.fetched_at, o.expires_at
+  FROM otp_logs o
+  WHERE o.netflix_account_id = v_netflix_account_id
+    AND o.expires_at > now()
+  ORDER BY o.fetched_at DESC
+  LIMIT 1;
+END;
+$$;
@@ -0,0 +1,100 @@
+-- =============================================
+-- Verification sessions: a customer waiting on the dashboard for a Netflix email.
+-- The verification-poller function searches the mailbox while a session is open;
+-- every otp_logs insert is pushed to the waiting sessions over Realtime broadcast.
+-- =============================================
+
+CREATE TABLE public.verification_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  netflix_account_id UUID NOT NULL REFERENCES public.netflix_accounts(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'waiting',
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  otp_log_id UUID REFERENCES public.otp_logs(id) ON DELETE SET NULL, -- The verification delivered
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_verification_session_status CHECK (status IN ('waiting', 'delivered', 'expired'))
+);
+
+CREATE INDEX idx_verification_sessions_waiting
+ON public.verification_sessions (netflix_account_id, expires_at)
+WHERE status = 'waiting';
+
+ALTER TABLE public.verification_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Customers never read this table; sessions are created by Edge Functions (service_role)
+CREATE POLICY "Admins can view verification sessions"
+ON public.verification_sessions
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+-- Push each new verification to the sessions waiting on that account.
+-- The topic is the unguessable session id, so the channel can stay public.
+CREATE OR REPLACE FUNCTION public.deliver_verification_to_sessions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  FOR v_session IN
+    UPDATE verification_sessions
+    SET status = 'delivered', delivered_at = now(), otp_log_id = NEW.id
+    WHERE netflix_account_id = NEW.netflix_account_id
+      AND status = 'waiting'
+      AND expires_at > now()
+    RETURNING id
+  LOOP
+    PERFORM realtime.send(
+      jsonb_build_object(
+        'otp_code', NEW.otp_code,
+        'fetched_at', NEW.fetched_at,
+        'expires_at', NEW.expires_at
+      ),
+      'verification',
+      'verification:' || v_session.id::text,
+      false
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER deliver_verification_on_otp_insert
+AFTER INSERT ON public.otp_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.deliver_verification_to_sessions();
+
+-- Broadcasts are not stored, so one sent before the dashboard subscribed is
+-- lost; the dashboard reads the session back by access code to catch it
+CREATE OR REPLACE FUNCTION public.get_verification_session_by_access_code(p_access_code text, p_session_id uuid)
+RETURNS TABLE(
+  status text,
+  otp_code text,
+  fetched_at timestamp with time zone,
+  expires_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Validate input: must be exactly 6 digits
+  IF p_access_code IS NULL OR p_access_code !~ '^[0-9]{6}$' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT vs.status, ol.otp_code, ol.fetched_at, ol.expires_at
+  FROM verification_sessions vs
+  JOIN customers c ON c.id = vs.customer_id
+  LEFT JOIN otp_logs ol ON ol.id = vs.otp_log_id
+  WHERE vs.id = p_session_id AND c.access_code = p_access_code AND c.is_active = true;
+END;
+$$;
@@ -0,0 +1,90 @@
+-- =============================================
+-- Verification inbox: record who each otp_logs entry was fetched for
+-- and whether it came from the mailbox or was pushed by an admin.
+-- Admin pushes are only visible to the customer they were pushed to.
+-- =============================================
+
+ALTER TABLE public.otp_logs
+ADD COLUMN customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+ADD COLUMN source TEXT NOT NULL DEFAULT 'email';
+
+ALTER TABLE public.otp_logs
+ADD CONSTRAINT valid_otp_source CHECK (source IN ('email', 'admin'));
+
+CREATE INDEX idx_otp_logs_account_fetched ON public.otp_logs (netflix_account_id, fetched_at DESC);
+
+CREATE OR REPLACE FUNCTION public.get_otp_by_access_code(p_access_code text)
+RETURNS TABLE(
+  otp_code text,
+  fetched_at timestamptz,
+  expires_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid;
+  v_netflix_account_id uuid;
+BEGIN
+  -- Validate input: must be exactly 6 digits
+  IF p_access_code IS NULL OR length(p_access_code) != 6 OR p_access_code !~ '^[0-9]{6}$' THEN
+    RETURN;
+  END IF;
+
+  -- Get the customer and netflix_account_id for this access code
+  SELECT c.id, c.netflix_account_id INTO v_customer_id, v_netflix_account_id
+  FROM customers c
+  WHERE c.access_code = p_access_code AND c.is_active = true
+  LIMIT 1;
+
+  IF v_netflix_account_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Return the most recent non-expired OTP for this account
+  RETURN QUERY
+  SELECT o.otp_code, o.fetched_at, o.expires_at
+  FROM otp_logs o
+  WHERE o.netflix_account_id = v_netflix_account_id
+    AND o.expires_at > now()
+    AND (o.source <> 'admin' OR o.customer_id = v_customer_id)
+  ORDER BY o.fetched_at DESC
+  LIMIT 1;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.deliver_verification_to_sessions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  FOR v_session IN
+    UPDATE verification_sessions
+    SET status = 'delivered', delivered_at = now(), otp_log_id = NEW.id
+    WHERE netflix_account_id = NEW.netflix_account_id
+      AND status = 'waiting'
+      AND expires_at > now()
+      AND (NEW.source <> 'admin' OR customer_id = NEW.customer_id)
+    RETURNING id
+  LOOP
+    PERFORM realtime.send(
+      jsonb_build_object(
+        'otp_code', NEW.otp_code,
+        'fetched_at', NEW.fetched_at,
+        'expires_at', NEW.expires_at
+      ),
+      'verification',
+      'verification:' || v_session.id::text,
+      false
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
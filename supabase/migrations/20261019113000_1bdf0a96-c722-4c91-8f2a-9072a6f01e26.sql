@@ -0,0 +1,41 @@
+-- =============================================
+-- SMS forwarders: Android devices holding the SIM of a phone-login Netflix
+-- account forward Netflix texts to the sms-webhook Edge Function.
+-- Each device authenticates with its own secret; only the hash is stored.
+-- =============================================
+
+CREATE TABLE public.sms_forwarders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  phone_number TEXT NOT NULL UNIQUE,
+  label TEXT,
+  secret_hash TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT sms_forwarder_phone_digits CHECK (phone_number ~ '^[0-9]{7,15}$')
+);
+
+ALTER TABLE public.sms_forwarders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage sms forwarders"
+ON public.sms_forwarders
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+-- Admins may set the secret hash but never read it back
+REVOKE SELECT ON public.sms_forwarders FROM anon, authenticated;
+GRANT SELECT (id, phone_number, label, is_active, last_seen_at, created_at, updated_at)
+ON public.sms_forwarders TO authenticated;
+
+CREATE TRIGGER update_sms_forwarders_updated_at
+BEFORE UPDATE ON public.sms_forwarders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Codes captured from SMS are stored alongside email ones
+ALTER TABLE public.otp_logs DROP CONSTRAINT valid_otp_source;
+ALTER TABLE public.otp_logs
+ADD CONSTRAINT valid_otp_source CHECK (source IN ('email', 'admin', 'sms'));
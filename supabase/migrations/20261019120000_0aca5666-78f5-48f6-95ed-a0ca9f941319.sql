@@ -0,0 +1,40 @@
+-- =============================================
+-- Account security events: new sign-ins, password changes and failed
+-- payments found in linked mailboxes by the account-security-monitor
+-- Edge Function. Affected accounts are flagged until an admin resolves them.
+-- =============================================
+
+CREATE TABLE public.account_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  netflix_account_id UUID REFERENCES public.netflix_accounts(id) ON DELETE CASCADE,
+  mailbox_address TEXT NOT NULL,
+  message_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  subject TEXT,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_account_event_type CHECK (event_type IN ('new_sign_in', 'password_changed', 'payment_failed')),
+  -- The monitor rescans the same window every run; each email is recorded once
+  CONSTRAINT unique_account_event_message UNIQUE (mailbox_address, message_id)
+);
+
+CREATE INDEX idx_account_events_unacknowledged
+ON public.account_events (occurred_at DESC)
+WHERE acknowledged_at IS NULL;
+
+ALTER TABLE public.account_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage account events"
+ON public.account_events
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+-- Current security state of each account; 'compromised' outranks 'billing_failed'
+ALTER TABLE public.netflix_accounts
+ADD COLUMN security_status TEXT NOT NULL DEFAULT 'ok',
+ADD COLUMN security_flagged_at TIMESTAMP WITH TIME ZONE,
+ADD CONSTRAINT valid_security_status CHECK (security_status IN ('ok', 'compromised', 'billing_failed'));
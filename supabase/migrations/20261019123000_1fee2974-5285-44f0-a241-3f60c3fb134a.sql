@@ -0,0 +1,33 @@
+-- =============================================
+-- Verification request log and per-customer daily quota.
+-- fetch-netflix-otp records every request it handles for a valid access
+-- code and refuses new ones once the customer's daily limit is reached.
+-- =============================================
+
+ALTER TABLE public.customers
+ADD COLUMN daily_verification_limit INTEGER NOT NULL DEFAULT 10,
+ADD CONSTRAINT valid_daily_verification_limit CHECK (daily_verification_limit > 0);
+
+CREATE TABLE public.verification_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  netflix_account_id UUID REFERENCES public.netflix_accounts(id) ON DELETE SET NULL,
+  ip_address TEXT,
+  result TEXT NOT NULL,
+  detail TEXT, -- e.g. cached, waiting, quota_exceeded, mailbox_unavailable
+  latency_ms INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_verification_request_result CHECK (result IN ('link', 'code', 'none', 'error'))
+);
+
+CREATE INDEX idx_verification_requests_customer
+ON public.verification_requests (customer_id, created_at DESC);
+
+ALTER TABLE public.verification_requests ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the Edge Function (service role)
+CREATE POLICY "Admins can view verification requests"
+ON public.verification_requests
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
@@ -0,0 +1,13 @@
+-- =============================================
+-- Money tracking: what each customer paid for their subscription and what
+-- each Netflix account costs per month on its payment account
+-- =============================================
+
+-- selling_price was added to the hosted database by hand and never migrated
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS selling_price NUMERIC(10, 2),
+ADD CONSTRAINT valid_selling_price CHECK (selling_price IS NULL OR selling_price >= 0);
+
+ALTER TABLE public.netflix_accounts
+ADD COLUMN monthly_cost NUMERIC(10, 2),
+ADD CONSTRAINT valid_monthly_cost CHECK (monthly_cost IS NULL OR monthly_cost >= 0);
@@ -0,0 +1,98 @@
+-- =============================================
+-- Subscription periods: every purchase, renewal, extension and compensation
+-- is kept as its own row instead of being folded into subscription_days.
+-- customers.purchase_date / subscription_days / selling_price are now derived
+-- from the periods by trigger, so existing expiry checks keep working.
+-- =============================================
+
+CREATE TABLE public.subscription_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  days INTEGER NOT NULL,
+  end_date DATE GENERATED ALWAYS AS (start_date + days) STORED,
+  price NUMERIC(10, 2),
+  source TEXT NOT NULL,
+  note TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_period_days CHECK (days > 0),
+  CONSTRAINT valid_period_price CHECK (price IS NULL OR price >= 0),
+  CONSTRAINT valid_period_source CHECK (source IN ('new', 'renewal', 'extension', 'compensation'))
+);
+
+CREATE INDEX idx_subscription_periods_customer
+ON public.subscription_periods (customer_id, start_date);
+
+ALTER TABLE public.subscription_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage subscription periods"
+ON public.subscription_periods
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+-- Existing customers become a single 'new' period; earlier renewals were never recorded.
+-- Legacy rows with no positive length get no period and keep their stored dates.
+INSERT INTO public.subscription_periods (customer_id, start_date, days, price, source, created_by)
+SELECT id, purchase_date, subscription_days, selling_price, 'new', NULL
+FROM public.customers
+WHERE subscription_days > 0;
+
+-- Recompute the customer's subscription from its periods:
+-- first start, span to the last end, and total paid
+CREATE OR REPLACE FUNCTION public.sync_customer_subscription()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id UUID := COALESCE(NEW.customer_id, OLD.customer_id);
+BEGIN
+  UPDATE customers c
+  SET purchase_date = p.first_start,
+      subscription_days = p.last_end - p.first_start,
+      selling_price = p.total_price
+  FROM (
+    SELECT MIN(start_date) AS first_start, MAX(end_date) AS last_end, SUM(price) AS total_price
+    FROM subscription_periods
+    WHERE customer_id = v_customer_id
+    HAVING COUNT(*) > 0
+  ) p
+  WHERE c.id = v_customer_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_customer_subscription_on_period_change
+AFTER INSERT OR UPDATE OR DELETE ON public.subscription_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_customer_subscription();
+
+-- New customers start with the period they were created with
+CREATE OR REPLACE FUNCTION public.create_initial_subscription_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Same rule as the backfill: no positive length, no period
+  IF COALESCE(NEW.subscription_days, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO subscription_periods (customer_id, start_date, days, price, source, created_by)
+  VALUES (NEW.id, NEW.purchase_date, NEW.subscription_days, NEW.selling_price, 'new', auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_initial_subscription_period_on_customer_insert
+AFTER INSERT ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.create_initial_subscription_period();
@@ -0,0 +1,52 @@
+-- =============================================
+-- Plan catalog: the standard durations and prices customers are sold.
+-- customers.plan_id records the plan a customer bought; customers created
+-- with a custom duration keep plan_id NULL.
+-- =============================================
+
+CREATE TABLE public.plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  days INTEGER NOT NULL,
+  price NUMERIC(10, 2), -- NULL when the price is agreed per sale
+  profile_type TEXT NOT NULL DEFAULT 'shared_profile',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_plan_days CHECK (days > 0),
+  CONSTRAINT valid_plan_price CHECK (price IS NULL OR price >= 0),
+  CONSTRAINT valid_plan_profile_type CHECK (profile_type IN ('shared_profile', 'full_account'))
+);
+
+ALTER TABLE public.plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage plans"
+ON public.plans
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_plans_updated_at
+BEFORE UPDATE ON public.plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The durations the Overview used to bucket by
+INSERT INTO public.plans (name, days) VALUES
+  ('1 Month', 30),
+  ('2 Months', 60),
+  ('3 Months', 90),
+  ('6 Months', 180),
+  ('12 Months', 365);
+
+ALTER TABLE public.customers
+ADD COLUMN plan_id UUID REFERENCES public.plans(id) ON DELETE SET NULL;
+
+-- Match existing customers on the length of their first purchase
+UPDATE public.customers c
+SET plan_id = p.id
+FROM public.subscription_periods sp
+JOIN public.plans p ON p.days = sp.days
+WHERE sp.customer_id = c.id
+  AND sp.source = 'new';
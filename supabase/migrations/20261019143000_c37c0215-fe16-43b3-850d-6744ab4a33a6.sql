@@ -0,0 +1,111 @@
+-- =============================================
+-- Resellers: replaces the free-text customers.purchased_from with a proper
+-- table (contact details, commission rate, WhatsApp message signature).
+-- Existing purchased_from values are de-duplicated into resellers.
+-- =============================================
+
+CREATE TABLE public.resellers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  contact_phone TEXT,
+  contact_email TEXT,
+  commission_rate NUMERIC(5, 2) NOT NULL DEFAULT 0, -- Percent of revenue
+  message_signature TEXT, -- Sign-off in the customer WhatsApp message; defaults to the name
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_commission_rate CHECK (commission_rate >= 0 AND commission_rate <= 100)
+);
+
+-- One reseller per name regardless of case
+CREATE UNIQUE INDEX resellers_name_key ON public.resellers (lower(name));
+
+ALTER TABLE public.resellers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage resellers"
+ON public.resellers
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_resellers_updated_at
+BEFORE UPDATE ON public.resellers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.customers
+ADD COLUMN reseller_id UUID REFERENCES public.resellers(id) ON DELETE SET NULL;
+
+-- Values that differ only in case or spacing are one reseller, named after
+-- the most used spelling. "Direct" sales have no reseller.
+INSERT INTO public.resellers (name)
+SELECT DISTINCT ON (normalized_key) spelling
+FROM (
+  SELECT
+    lower(regexp_replace(btrim(purchased_from), '\s+', ' ', 'g')) AS normalized_key,
+    regexp_replace(btrim(purchased_from), '\s+', ' ', 'g') AS spelling,
+    count(*) AS uses
+  FROM public.customers
+  WHERE purchased_from IS NOT NULL
+    AND btrim(purchased_from) <> ''
+    AND lower(btrim(purchased_from)) <> 'direct'
+  GROUP BY 1, 2
+) spellings
+ORDER BY normalized_key, uses DESC, spelling;
+
+UPDATE public.customers c
+SET reseller_id = r.id
+FROM public.resellers r
+WHERE lower(r.name) = lower(regexp_replace(btrim(c.purchased_from), '\s+', ' ', 'g'));
+
+-- Customers still see who they bought from; the name now comes from resellers
+CREATE OR REPLACE FUNCTION public.get_customer_data_by_access_code(p_access_code text)
+RETURNS TABLE(
+  id uuid,
+  name text,
+  access_code text,
+  purchase_date date,
+  subscription_days integer,
+  is_active boolean,
+  profile_number integer,
+  purchased_from text,
+  netflix_email text,
+  netflix_password text,
+  netflix_account_id uuid,
+  gmail_address text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Validate input: must be exactly 6 digits
+  IF p_access_code IS NULL OR length(p_access_code) != 6 OR p_access_code !~ '^[0-9]{6}$' THEN
+    RETURN;
+  END IF;
+  
+  RETURN QUERY
+  SELECT 
+    c.id,
+    c.name,
+    c.access_code,
+    c.purchase_date,
+    c.subscription_days,
+    c.is_active,
+    c.profile_number,
+    r.name,
+    na.netflix_email,
+    na.netflix_password,
+    c.netflix_account_id,
+    na.gmail_address
+  FROM customers c
+  LEFT JOIN netflix_accounts na ON c.netflix_account_id = na.id
+  LEFT JOIN resellers r ON c.reseller_id = r.id
+  WHERE c.access_code = p_access_code AND c.is_active = true
+  LIMIT 1;
+END;
+$$;
+
+ALTER TABLE public.customers DROP COLUMN purchased_from;
@@ -0,0 +1,208 @@
+-- =============================================
+-- Reseller portal: a reseller role backed by resellers.user_id. Resellers
+-- only see their own customers; they create and renew customers through
+-- SECURITY DEFINER functions so slots, prices and accounts stay under our control.
+-- =============================================
+
+ALTER TABLE public.resellers
+ADD COLUMN user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Reseller linked to a login, or NULL for admins and customers
+CREATE OR REPLACE FUNCTION public.get_reseller_id(_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.resellers
+  WHERE user_id = _user_id
+    AND is_active = true
+$$;
+
+CREATE POLICY "Resellers can view own record"
+ON public.resellers
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Resellers can view their customers"
+ON public.customers
+FOR SELECT
+TO authenticated
+USING (reseller_id IS NOT NULL AND reseller_id = public.get_reseller_id(auth.uid()));
+
+CREATE POLICY "Resellers can view their customers' subscription periods"
+ON public.subscription_periods
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.customers c
+    WHERE c.id = customer_id
+      AND c.reseller_id IS NOT NULL
+      AND c.reseller_id = public.get_reseller_id(auth.uid())
+  )
+);
+
+CREATE POLICY "Resellers can view active plans"
+ON public.plans
+FOR SELECT
+TO authenticated
+USING (is_active = true AND public.get_reseller_id(auth.uid()) IS NOT NULL);
+
+-- Free profile on a healthy account, filling the fullest accounts first
+CREATE OR REPLACE FUNCTION public.find_free_profile_slot()
+RETURNS TABLE(netflix_account_id uuid, profile_number integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT na.id, slot.n
+  FROM netflix_accounts na
+  CROSS JOIN generate_series(1, 5) AS slot(n)
+  WHERE na.security_status = 'ok'
+    AND NOT EXISTS (
+      SELECT 1 FROM customers c
+      WHERE c.netflix_account_id = na.id AND c.profile_number = slot.n
+    )
+  ORDER BY (SELECT count(*) FROM customers c WHERE c.netflix_account_id = na.id) DESC, na.created_at, slot.n
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.reseller_create_customer(p_name text, p_plan_id uuid)
+RETURNS TABLE(customer_id uuid, access_code text, netflix_email text, netflix_password text, profile_number integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reseller_id UUID := public.get_reseller_id(auth.uid());
+  v_plan plans%ROWTYPE;
+  v_account_id UUID;
+  v_profile INTEGER;
+  v_customer_id UUID;
+  v_access_code TEXT;
+BEGIN
+  IF v_reseller_id IS NULL THEN
+    RAISE EXCEPTION 'Not a reseller';
+  END IF;
+
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  SELECT * INTO v_plan FROM plans WHERE id = p_plan_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not available';
+  END IF;
+
+  -- Serialise slot assignment so two sales never get the same profile
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  SELECT s.netflix_account_id, s.profile_number INTO v_account_id, v_profile
+  FROM public.find_free_profile_slot() s;
+
+  IF v_account_id IS NULL THEN
+    RAISE EXCEPTION 'No free slots available';
+  END IF;
+
+  v_access_code := public.generate_access_code();
+
+  INSERT INTO customers (name, access_code, netflix_account_id, profile_number, purchase_date,
+                         subscription_days, plan_id, selling_price, reseller_id)
+  VALUES (btrim(p_name), v_access_code, v_account_id, v_profile, CURRENT_DATE,
+          v_plan.days, v_plan.id, v_plan.price, v_reseller_id)
+  RETURNING id INTO v_customer_id;
+
+  RETURN QUERY
+  SELECT v_customer_id, v_access_code, na.netflix_email, na.netflix_password, v_profile
+  FROM netflix_accounts na
+  WHERE na.id = v_account_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reseller_renew_customer(p_customer_id uuid, p_plan_id uuid)
+RETURNS date
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reseller_id UUID := public.get_reseller_id(auth.uid());
+  v_customer customers%ROWTYPE;
+  v_plan plans%ROWTYPE;
+  v_start DATE;
+  v_account_id UUID;
+  v_profile INTEGER;
+BEGIN
+  IF v_reseller_id IS NULL THEN
+    RAISE EXCEPTION 'Not a reseller';
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id AND reseller_id = v_reseller_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  SELECT * INTO v_plan FROM plans WHERE id = p_plan_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not available';
+  END IF;
+
+  -- Lapsed customers lost their slot on deactivation and need a new one
+  IF v_customer.netflix_account_id IS NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+    SELECT s.netflix_account_id, s.profile_number INTO v_account_id, v_profile
+    FROM public.find_free_profile_slot() s;
+
+    IF v_account_id IS NULL THEN
+      RAISE EXCEPTION 'No free slots available';
+    END IF;
+
+    UPDATE customers
+    SET netflix_account_id = v_account_id, profile_number = v_profile
+    WHERE id = p_customer_id;
+  END IF;
+
+  -- Renewals continue from the current expiry, or from today once it has passed
+  v_start := GREATEST(v_customer.purchase_date + v_customer.subscription_days, CURRENT_DATE);
+
+  INSERT INTO subscription_periods (customer_id, start_date, days, price, source)
+  VALUES (p_customer_id, v_start, v_plan.days, v_plan.price, 'renewal');
+
+  UPDATE customers SET is_active = true, plan_id = v_plan.id WHERE id = p_customer_id;
+
+  RETURN v_start + v_plan.days;
+END;
+$$;
+
+-- Credentials for the accounts the reseller's own active customers are on
+CREATE OR REPLACE FUNCTION public.get_reseller_account_credentials()
+RETURNS TABLE(netflix_account_id uuid, netflix_email text, netflix_password text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT na.id, na.netflix_email, na.netflix_password
+  FROM netflix_accounts na
+  JOIN customers c ON c.netflix_account_id = na.id
+  WHERE c.reseller_id = public.get_reseller_id(auth.uid())
+    AND c.is_active = true
+$$;
+
+-- Functions are executable by PUBLIC unless revoked: the slot finder is
+-- internal, and the portal functions are for signed-in resellers only
+REVOKE EXECUTE ON FUNCTION public.find_free_profile_slot() FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.reseller_create_customer(text, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reseller_renew_customer(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_reseller_account_credentials() FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.reseller_create_customer(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reseller_renew_customer(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_reseller_account_credentials() TO authenticated;
@@ -0,0 +1,257 @@
+-- =============================================
+-- Reseller prepaid wallets: an append-only ledger of top-ups (credits) and
+-- sales (debits). New and renewal periods sold under a reseller post a debit
+-- at the plan's wholesale price automatically.
+-- =============================================
+
+ALTER TABLE public.plans
+ADD COLUMN wholesale_price NUMERIC(10, 2),
+ADD CONSTRAINT valid_plan_wholesale_price CHECK (wholesale_price IS NULL OR wholesale_price >= 0);
+
+-- The plan a period was sold on, so its wholesale price can be charged, and
+-- whether an admin confirmed charging it past the reseller's balance
+ALTER TABLE public.subscription_periods
+ADD COLUMN plan_id UUID REFERENCES public.plans(id) ON DELETE SET NULL,
+ADD COLUMN allow_wallet_overdraft BOOLEAN NOT NULL DEFAULT false;
+
+-- Carries the admin's overdraft confirmation into the first period
+ALTER TABLE public.customers
+ADD COLUMN allow_wallet_overdraft BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.subscription_periods sp
+SET plan_id = c.plan_id
+FROM public.customers c
+WHERE c.id = sp.customer_id AND sp.source = 'new';
+
+CREATE TABLE public.reseller_wallet_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reseller_id UUID NOT NULL REFERENCES public.resellers(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL, -- credit (top-up, refund) | debit (sale, adjustment)
+  amount NUMERIC(10, 2) NOT NULL,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  subscription_period_id UUID REFERENCES public.subscription_periods(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_wallet_kind CHECK (kind IN ('credit', 'debit')),
+  CONSTRAINT valid_wallet_amount CHECK (amount > 0)
+);
+
+CREATE INDEX idx_reseller_wallet_transactions_reseller
+ON public.reseller_wallet_transactions (reseller_id, created_at);
+
+ALTER TABLE public.reseller_wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage reseller wallets"
+ON public.reseller_wallet_transactions
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE POLICY "Resellers can view own wallet"
+ON public.reseller_wallet_transactions
+FOR SELECT
+TO authenticated
+USING (reseller_id = public.get_reseller_id(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.reseller_wallet_balance(_reseller_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(CASE WHEN kind = 'credit' THEN amount ELSE -amount END), 0)
+  FROM public.reseller_wallet_transactions
+  WHERE reseller_id = _reseller_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reseller_wallet_balance(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Blocks the sale when the wallet cannot cover the wholesale price, unless
+-- an admin confirmed the overdraft on the period
+CREATE OR REPLACE FUNCTION public.post_reseller_wallet_debit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reseller_id UUID;
+  v_price NUMERIC;
+BEGIN
+  IF NEW.source NOT IN ('new', 'renewal') OR NEW.plan_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT reseller_id INTO v_reseller_id FROM customers WHERE id = NEW.customer_id;
+  SELECT wholesale_price INTO v_price FROM plans WHERE id = NEW.plan_id;
+
+  IF v_reseller_id IS NULL OR COALESCE(v_price, 0) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Same lock as reseller sales, so concurrent sales cannot overdraw the wallet
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  IF NOT NEW.allow_wallet_overdraft AND public.reseller_wallet_balance(v_reseller_id) < v_price THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  INSERT INTO reseller_wallet_transactions (reseller_id, kind, amount, customer_id, subscription_period_id, note)
+  VALUES (
+    v_reseller_id,
+    'debit',
+    v_price,
+    NEW.customer_id,
+    NEW.id,
+    CASE WHEN NEW.source = 'new' THEN 'New customer' ELSE 'Renewal' END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER post_reseller_wallet_debit_on_period_insert
+AFTER INSERT ON public.subscription_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.post_reseller_wallet_debit();
+
+-- The first period now records the plan the customer was created on and
+-- any overdraft the admin confirmed
+CREATE OR REPLACE FUNCTION public.create_initial_subscription_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.subscription_days, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO subscription_periods (customer_id, start_date, days, price, source, plan_id, allow_wallet_overdraft, created_by)
+  VALUES (NEW.id, NEW.purchase_date, NEW.subscription_days, NEW.selling_price, 'new', NEW.plan_id, NEW.allow_wallet_overdraft, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+-- Reseller sales are blocked when the wallet cannot cover the wholesale price
+CREATE OR REPLACE FUNCTION public.reseller_create_customer(p_name text, p_plan_id uuid)
+RETURNS TABLE(customer_id uuid, access_code text, netflix_email text, netflix_password text, profile_number integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reseller_id UUID := public.get_reseller_id(auth.uid());
+  v_plan plans%ROWTYPE;
+  v_account_id UUID;
+  v_profile INTEGER;
+  v_customer_id UUID;
+  v_access_code TEXT;
+BEGIN
+  IF v_reseller_id IS NULL THEN
+    RAISE EXCEPTION 'Not a reseller';
+  END IF;
+
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  SELECT * INTO v_plan FROM plans WHERE id = p_plan_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not available';
+  END IF;
+
+  -- Serialise slot assignment so two sales never get the same profile
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  IF public.reseller_wallet_balance(v_reseller_id) < COALESCE(v_plan.wholesale_price, 0) THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  SELECT s.netflix_account_id, s.profile_number INTO v_account_id, v_profile
+  FROM public.find_free_profile_slot() s;
+
+  IF v_account_id IS NULL THEN
+    RAISE EXCEPTION 'No free slots available';
+  END IF;
+
+  v_access_code := public.generate_access_code();
+
+  INSERT INTO customers (name, access_code, netflix_account_id, profile_number, purchase_date,
+                         subscription_days, plan_id, selling_price, reseller_id)
+  VALUES (btrim(p_name), v_access_code, v_account_id, v_profile, CURRENT_DATE,
+          v_plan.days, v_plan.id, v_plan.price, v_reseller_id)
+  RETURNING id INTO v_customer_id;
+
+  RETURN QUERY
+  SELECT v_customer_id, v_access_code, na.netflix_email, na.netflix_password, v_profile
+  FROM netflix_accounts na
+  WHERE na.id = v_account_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reseller_renew_customer(p_customer_id uuid, p_plan_id uuid)
+RETURNS date
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reseller_id UUID := public.get_reseller_id(auth.uid());
+  v_customer customers%ROWTYPE;
+  v_plan plans%ROWTYPE;
+  v_start DATE;
+  v_account_id UUID;
+  v_profile INTEGER;
+BEGIN
+  IF v_reseller_id IS NULL THEN
+    RAISE EXCEPTION 'Not a reseller';
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id AND reseller_id = v_reseller_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  SELECT * INTO v_plan FROM plans WHERE id = p_plan_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not available';
+  END IF;
+
+  -- Same lock as slot assignment, so concurrent sales cannot overdraw the wallet
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  IF public.reseller_wallet_balance(v_reseller_id) < COALESCE(v_plan.wholesale_price, 0) THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  -- Lapsed customers lost their slot on deactivation and need a new one
+  IF v_customer.netflix_account_id IS NULL THEN
+    SELECT s.netflix_account_id, s.profile_number INTO v_account_id, v_profile
+    FROM public.find_free_profile_slot() s;
+
+    IF v_account_id IS NULL THEN
+      RAISE EXCEPTION 'No free slots available';
+    END IF;
+
+    UPDATE customers
+    SET netflix_account_id = v_account_id, profile_number = v_profile
+    WHERE id = p_customer_id;
+  END IF;
+
+  -- Renewals continue from the current expiry, or from today once it has passed
+  v_start := GREATEST(v_customer.purchase_date + v_customer.subscription_days, CURRENT_DATE);
+
+  INSERT INTO subscription_periods (customer_id, start_date, days, price, source, plan_id)
+  VALUES (p_customer_id, v_start, v_plan.days, v_plan.price, 'renewal', v_plan.id);
+
+  UPDATE customers SET is_active = true, plan_id = v_plan.id WHERE id = p_customer_id;
+
+  RETURN v_start + v_plan.days;
+END;
+$$;
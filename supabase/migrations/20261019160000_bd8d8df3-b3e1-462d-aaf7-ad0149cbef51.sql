@@ -0,0 +1,71 @@
+-- =============================================
+-- Customer payments: what each customer actually paid for their subscription
+-- periods (amount, method, reference such as a UPI transaction ID, date).
+-- Paid/partial/unpaid is derived from period prices against these payments.
+-- =============================================
+
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  subscription_period_id UUID REFERENCES public.subscription_periods(id) ON DELETE SET NULL,
+  amount NUMERIC(10, 2) NOT NULL,
+  method TEXT NOT NULL DEFAULT 'upi', -- wallet: settled by the reseller's wallet debit
+  reference TEXT, -- UPI transaction ID, bank reference, receipt number
+  paid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_payment_amount CHECK (amount > 0),
+  CONSTRAINT valid_payment_method CHECK (method IN ('upi', 'bank_transfer', 'cash', 'card', 'wallet', 'other'))
+);
+
+CREATE INDEX idx_payments_customer ON public.payments (customer_id);
+CREATE INDEX idx_payments_period ON public.payments (subscription_period_id);
+
+-- The same UPI/bank reference cannot be recorded twice
+CREATE UNIQUE INDEX payments_method_reference_key
+ON public.payments (method, reference)
+WHERE reference IS NOT NULL;
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage payments"
+ON public.payments
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+-- Periods priced before payments were tracked were settled outside the app;
+-- record them as paid so existing customers are not shown or suspended as unpaid
+INSERT INTO public.payments (customer_id, subscription_period_id, amount, method, paid_on, note, created_by)
+SELECT customer_id, id, price, 'other', start_date, 'Settled before payment tracking', NULL
+FROM public.subscription_periods
+WHERE price > 0;
+
+-- A reseller sale is paid for when its wallet debit posts; the customer paid
+-- the reseller, so the period is recorded as settled at its own price
+CREATE OR REPLACE FUNCTION public.settle_period_on_wallet_debit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kind <> 'debit' OR NEW.subscription_period_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO payments (customer_id, subscription_period_id, amount, method, paid_on, note)
+  SELECT sp.customer_id, sp.id, sp.price, 'wallet', NEW.created_at::date, 'Paid from reseller wallet'
+  FROM subscription_periods sp
+  WHERE sp.id = NEW.subscription_period_id AND sp.price > 0;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER settle_period_on_wallet_debit
+AFTER INSERT ON public.reseller_wallet_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_period_on_wallet_debit();
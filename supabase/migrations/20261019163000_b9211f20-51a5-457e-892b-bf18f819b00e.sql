@@ -0,0 +1,286 @@
+-- =============================================
+-- Invoices: one per paid purchase or renewal, numbered sequentially and
+-- stored as issued so the PDF can be regenerated at any time. The seller
+-- details printed on them come from the single business_settings row.
+-- =============================================
+
+CREATE TABLE public.business_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY,
+  business_name TEXT NOT NULL DEFAULT 'NETCODE',
+  address TEXT,
+  phone TEXT,
+  email TEXT,
+  tax_id TEXT, -- GSTIN or similar, printed on invoices when set
+  tax_label TEXT NOT NULL DEFAULT 'GST',
+  tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0, -- 0 leaves the tax line off; prices include tax
+  invoice_prefix TEXT NOT NULL DEFAULT 'INV-',
+  next_invoice_number INTEGER NOT NULL DEFAULT 1,
+  invoice_footer TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT single_business_settings_row CHECK (id),
+  CONSTRAINT valid_tax_rate CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  CONSTRAINT valid_next_invoice_number CHECK (next_invoice_number > 0)
+);
+
+INSERT INTO public.business_settings DEFAULT VALUES;
+
+ALTER TABLE public.business_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view business settings"
+ON public.business_settings
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update business settings"
+ON public.business_settings
+FOR UPDATE
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_business_settings_updated_at
+BEFORE UPDATE ON public.business_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_number TEXT NOT NULL UNIQUE,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  subscription_period_id UUID UNIQUE REFERENCES public.subscription_periods(id) ON DELETE SET NULL,
+  customer_name TEXT NOT NULL,
+  plan_name TEXT,
+  period_start DATE NOT NULL,
+  period_days INTEGER NOT NULL,
+  source TEXT NOT NULL, -- new | renewal
+  subtotal NUMERIC(10, 2) NOT NULL,
+  tax_label TEXT,
+  tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  total NUMERIC(10, 2) NOT NULL,
+  issued_on DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoices_customer ON public.invoices (customer_id);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+-- Invoices are only ever written by issue_invoice(); nobody edits them
+CREATE POLICY "Admins can view invoices"
+ON public.invoices
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+-- Issues the invoice for a new or renewal period with a price. Taking the
+-- number from the settings row locks it, so numbers stay gapless and in order.
+CREATE OR REPLACE FUNCTION public.issue_invoice(_period_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period subscription_periods%ROWTYPE;
+  v_settings business_settings%ROWTYPE;
+  v_subtotal NUMERIC(10, 2);
+BEGIN
+  SELECT * INTO v_period FROM subscription_periods WHERE id = _period_id;
+
+  IF NOT FOUND OR v_period.source NOT IN ('new', 'renewal') OR COALESCE(v_period.price, 0) <= 0 THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM invoices WHERE subscription_period_id = _period_id) THEN
+    RETURN;
+  END IF;
+
+  UPDATE business_settings
+  SET next_invoice_number = next_invoice_number + 1
+  WHERE id
+  RETURNING * INTO v_settings;
+
+  v_subtotal := CASE
+    WHEN v_settings.tax_rate > 0 THEN round(v_period.price / (1 + v_settings.tax_rate / 100), 2)
+    ELSE v_period.price
+  END;
+
+  INSERT INTO invoices (
+    invoice_number, customer_id, subscription_period_id, customer_name, plan_name,
+    period_start, period_days, source, subtotal, tax_label, tax_rate, tax_amount, total, issued_on
+  )
+  SELECT
+    v_settings.invoice_prefix || lpad((v_settings.next_invoice_number - 1)::text, 5, '0'),
+    c.id,
+    v_period.id,
+    c.name,
+    p.name,
+    v_period.start_date,
+    v_period.days,
+    v_period.source,
+    v_subtotal,
+    CASE WHEN v_settings.tax_rate > 0 THEN v_settings.tax_label END,
+    v_settings.tax_rate,
+    v_period.price - v_subtotal,
+    v_period.price,
+    -- Renewals can start in the future; the invoice is dated when it was sold
+    LEAST(v_period.start_date, v_period.created_at::date)
+  FROM customers c
+  LEFT JOIN plans p ON p.id = v_period.plan_id
+  WHERE c.id = v_period.customer_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_invoice(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.issue_invoice_on_period_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.issue_invoice(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER issue_invoice_on_period_insert
+AFTER INSERT ON public.subscription_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.issue_invoice_on_period_insert();
+
+-- Corrections to a period carry through to its invoice, which keeps its
+-- number, issue date and the tax rate it was issued at. A period that gains
+-- a price gets its first invoice; an invoiced one cannot lose its price,
+-- since numbers are gapless and an issued invoice is never removed.
+CREATE OR REPLACE FUNCTION public.amend_invoice_on_period_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_subtotal NUMERIC(10, 2);
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE subscription_period_id = NEW.id;
+
+  IF NOT FOUND THEN
+    PERFORM public.issue_invoice(NEW.id);
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(NEW.price, 0) <= 0 THEN
+    RAISE EXCEPTION 'This period has invoice %, so it must keep a price', v_invoice.invoice_number;
+  END IF;
+
+  v_subtotal := CASE
+    WHEN v_invoice.tax_rate > 0 THEN round(NEW.price / (1 + v_invoice.tax_rate / 100), 2)
+    ELSE NEW.price
+  END;
+
+  UPDATE invoices
+  SET period_start = NEW.start_date,
+      period_days = NEW.days,
+      subtotal = v_subtotal,
+      tax_amount = NEW.price - v_subtotal,
+      total = NEW.price
+  WHERE id = v_invoice.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER amend_invoice_on_period_update
+AFTER UPDATE OF price, days, start_date ON public.subscription_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.amend_invoice_on_period_update();
+
+-- Number the purchases made before invoicing existed in the order they were sold
+DO $$
+DECLARE
+  v_period_id UUID;
+BEGIN
+  FOR v_period_id IN
+    SELECT id
+    FROM public.subscription_periods
+    WHERE source IN ('new', 'renewal') AND price > 0
+    ORDER BY LEAST(start_date, created_at::date), created_at
+  LOOP
+    PERFORM public.issue_invoice(v_period_id);
+  END LOOP;
+END;
+$$;
+
+-- The customer dashboard has no session, so it reads its invoices by access code
+CREATE OR REPLACE FUNCTION public.get_customer_invoices_by_access_code(p_access_code text)
+RETURNS TABLE(
+  id uuid,
+  invoice_number text,
+  customer_name text,
+  plan_name text,
+  period_start date,
+  period_days integer,
+  source text,
+  subtotal numeric,
+  tax_label text,
+  tax_rate numeric,
+  tax_amount numeric,
+  total numeric,
+  issued_on date
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Validate input: must be exactly 6 digits
+  IF p_access_code IS NULL OR p_access_code !~ '^[0-9]{6}$' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    i.id,
+    i.invoice_number,
+    i.customer_name,
+    i.plan_name,
+    i.period_start,
+    i.period_days,
+    i.source,
+    i.subtotal,
+    i.tax_label,
+    i.tax_rate,
+    i.tax_amount,
+    i.total,
+    i.issued_on
+  FROM invoices i
+  JOIN customers c ON c.id = i.customer_id
+  WHERE c.access_code = p_access_code AND c.is_active = true
+  ORDER BY i.issued_on DESC, i.invoice_number DESC;
+END;
+$$;
+
+-- Seller details printed on invoices; nothing here is private
+CREATE OR REPLACE FUNCTION public.get_invoice_business_details()
+RETURNS TABLE(
+  business_name text,
+  address text,
+  phone text,
+  email text,
+  tax_id text,
+  invoice_footer text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT business_name, address, phone, email, tax_id, invoice_footer
+  FROM business_settings
+  LIMIT 1;
+$$;
@@ -0,0 +1,137 @@
+-- =============================================
+-- Promo codes: percentage or flat discounts with validity windows, usage
+-- caps and an optional reseller restriction. A code is applied to a new or
+-- renewal period on insert; the period keeps the discounted price and
+-- records the code and the discount given.
+-- =============================================
+
+CREATE TABLE public.promo_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL,
+  description TEXT,
+  discount_type TEXT NOT NULL DEFAULT 'percent',
+  discount_value NUMERIC(10, 2) NOT NULL,
+  valid_from DATE,
+  valid_until DATE,
+  max_redemptions INTEGER, -- NULL = unlimited
+  reseller_id UUID REFERENCES public.resellers(id) ON DELETE CASCADE, -- NULL = any sale
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_promo_code CHECK (code ~ '^[A-Z0-9_-]+$'),
+  CONSTRAINT valid_discount_type CHECK (discount_type IN ('percent', 'flat')),
+  CONSTRAINT valid_discount_value CHECK (discount_value > 0 AND (discount_type = 'flat' OR discount_value <= 100)),
+  CONSTRAINT valid_promo_window CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_from <= valid_until),
+  CONSTRAINT valid_max_redemptions CHECK (max_redemptions IS NULL OR max_redemptions > 0)
+);
+
+CREATE UNIQUE INDEX promo_codes_code_key ON public.promo_codes (code);
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promo codes"
+ON public.promo_codes
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_promo_codes_updated_at
+BEFORE UPDATE ON public.promo_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Codes that were redeemed cannot be deleted, only deactivated
+ALTER TABLE public.subscription_periods
+ADD COLUMN promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE RESTRICT,
+ADD COLUMN discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_subscription_periods_promo_code
+ON public.subscription_periods (promo_code_id)
+WHERE promo_code_id IS NOT NULL;
+
+-- Carries the code into the first period created for a new customer
+ALTER TABLE public.customers
+ADD COLUMN promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE SET NULL;
+
+-- Validates the code and turns the period's list price into the discounted
+-- price. The code row is locked so concurrent sales cannot exceed the cap.
+CREATE OR REPLACE FUNCTION public.apply_promo_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promo promo_codes%ROWTYPE;
+  v_discount NUMERIC(10, 2);
+BEGIN
+  IF NEW.promo_code_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_promo FROM promo_codes WHERE id = NEW.promo_code_id FOR UPDATE;
+
+  IF NEW.source NOT IN ('new', 'renewal') THEN
+    RAISE EXCEPTION 'Promo codes only apply to purchases and renewals';
+  END IF;
+
+  IF NOT v_promo.is_active THEN
+    RAISE EXCEPTION 'Promo code % is not active', v_promo.code;
+  END IF;
+
+  IF CURRENT_DATE < COALESCE(v_promo.valid_from, CURRENT_DATE)
+     OR CURRENT_DATE > COALESCE(v_promo.valid_until, CURRENT_DATE) THEN
+    RAISE EXCEPTION 'Promo code % is not valid today', v_promo.code;
+  END IF;
+
+  IF v_promo.max_redemptions IS NOT NULL
+     AND (SELECT count(*) FROM subscription_periods WHERE promo_code_id = v_promo.id) >= v_promo.max_redemptions THEN
+    RAISE EXCEPTION 'Promo code % has reached its usage limit', v_promo.code;
+  END IF;
+
+  IF v_promo.reseller_id IS NOT NULL
+     AND v_promo.reseller_id IS DISTINCT FROM (SELECT reseller_id FROM customers WHERE id = NEW.customer_id) THEN
+    RAISE EXCEPTION 'Promo code % is only valid for another reseller''s customers', v_promo.code;
+  END IF;
+
+  IF COALESCE(NEW.price, 0) <= 0 THEN
+    RAISE EXCEPTION 'Promo code % needs a price to discount', v_promo.code;
+  END IF;
+
+  v_discount := CASE
+    WHEN v_promo.discount_type = 'percent' THEN round(NEW.price * v_promo.discount_value / 100, 2)
+    ELSE LEAST(v_promo.discount_value, NEW.price)
+  END;
+
+  NEW.discount_amount := v_discount;
+  NEW.price := NEW.price - v_discount;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_promo_code_on_period_insert
+BEFORE INSERT ON public.subscription_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_promo_code();
+
+CREATE OR REPLACE FUNCTION public.create_initial_subscription_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.subscription_days, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO subscription_periods (customer_id, start_date, days, price, source, plan_id, promo_code_id,
+                                    allow_wallet_overdraft, created_by)
+  VALUES (NEW.id, NEW.purchase_date, NEW.subscription_days, NEW.selling_price, 'new', NEW.plan_id, NEW.promo_code_id,
+          NEW.allow_wallet_overdraft, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
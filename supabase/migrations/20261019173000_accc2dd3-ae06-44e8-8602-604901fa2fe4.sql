@@ -0,0 +1,203 @@
+-- =============================================
+-- Netflix account lifecycle: every account carries a status with the reason
+-- and time it was last changed, replacing the security_status flag. Only
+-- active accounts receive new customers. replace_netflix_account() moves all
+-- customers off a failing account in one step and logs the move.
+-- =============================================
+
+ALTER TABLE public.netflix_accounts
+ADD COLUMN status TEXT NOT NULL DEFAULT 'active',
+ADD COLUMN status_reason TEXT,
+ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+ADD CONSTRAINT valid_account_status CHECK (status IN ('active', 'needs_attention', 'billing_failed', 'locked', 'retired'));
+
+-- Security flags become statuses; a suspicious sign-in needs a look before it counts as locked
+UPDATE public.netflix_accounts
+SET status = CASE security_status
+      WHEN 'compromised' THEN 'needs_attention'
+      WHEN 'billing_failed' THEN 'billing_failed'
+      ELSE 'active'
+    END,
+    status_reason = CASE security_status
+      WHEN 'compromised' THEN 'Sign-in or password change detected'
+      WHEN 'billing_failed' THEN 'Netflix reported a failed payment'
+    END,
+    status_changed_at = COALESCE(security_flagged_at, created_at);
+
+ALTER TABLE public.netflix_accounts
+DROP CONSTRAINT valid_security_status,
+DROP COLUMN security_status,
+DROP COLUMN security_flagged_at;
+
+-- Stamp the change time whenever the status moves, whoever changes it
+CREATE OR REPLACE FUNCTION public.touch_account_status_changed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_netflix_account_status
+BEFORE UPDATE OF status ON public.netflix_accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_account_status_changed_at();
+
+-- Free profile on an active account, filling the fullest accounts first
+CREATE OR REPLACE FUNCTION public.find_free_profile_slot()
+RETURNS TABLE(netflix_account_id uuid, profile_number integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT na.id, slot.n
+  FROM netflix_accounts na
+  CROSS JOIN generate_series(1, 5) AS slot(n)
+  WHERE na.status = 'active'
+    AND NOT EXISTS (
+      SELECT 1 FROM customers c
+      WHERE c.netflix_account_id = na.id AND c.profile_number = slot.n
+    )
+  ORDER BY (SELECT count(*) FROM customers c WHERE c.netflix_account_id = na.id) DESC, na.created_at, slot.n
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_free_profile_slot() FROM PUBLIC, anon, authenticated;
+
+-- One row per replacement; moves holds {customer_id, name, from_profile, to_profile} per customer
+CREATE TABLE public.account_replacements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  from_account_id UUID REFERENCES public.netflix_accounts(id) ON DELETE SET NULL,
+  to_account_id UUID REFERENCES public.netflix_accounts(id) ON DELETE SET NULL,
+  from_account_label TEXT NOT NULL,
+  to_account_label TEXT NOT NULL,
+  reason TEXT,
+  moves JSONB NOT NULL DEFAULT '[]'::jsonb,
+  retired_from_account BOOLEAN NOT NULL DEFAULT false,
+  performed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_account_replacements_created_at
+ON public.account_replacements (created_at DESC);
+
+ALTER TABLE public.account_replacements ENABLE ROW LEVEL SECURITY;
+
+-- Written only by replace_netflix_account()
+CREATE POLICY "Admins can view account replacements"
+ON public.account_replacements
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+-- Moves every customer on p_from_account_id to p_to_account_id, keeping each
+-- profile number when it is free on the target and taking the lowest free one
+-- otherwise. Fails without moving anyone if the target lacks free profiles.
+CREATE OR REPLACE FUNCTION public.replace_netflix_account(
+  p_from_account_id uuid,
+  p_to_account_id uuid,
+  p_reason text DEFAULT NULL,
+  p_retire boolean DEFAULT true
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from netflix_accounts%ROWTYPE;
+  v_to netflix_accounts%ROWTYPE;
+  v_customer RECORD;
+  v_taken INTEGER[];
+  v_profile INTEGER;
+  v_moves JSONB := '[]'::jsonb;
+  v_moved INTEGER := 0;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF p_from_account_id = p_to_account_id THEN
+    RAISE EXCEPTION 'Choose a different account to move customers to';
+  END IF;
+
+  -- Same lock as reseller sales, so no profile is handed out mid-move
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  SELECT * INTO v_from FROM netflix_accounts WHERE id = p_from_account_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  SELECT * INTO v_to FROM netflix_accounts WHERE id = p_to_account_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Replacement account not found';
+  END IF;
+
+  IF v_to.status <> 'active' THEN
+    RAISE EXCEPTION 'Replacement account is not active';
+  END IF;
+
+  SELECT COALESCE(array_agg(profile_number), '{}') INTO v_taken
+  FROM customers
+  WHERE netflix_account_id = p_to_account_id AND profile_number IS NOT NULL;
+
+  FOR v_customer IN
+    SELECT id, name, profile_number
+    FROM customers
+    WHERE netflix_account_id = p_from_account_id
+    ORDER BY profile_number NULLS LAST, created_at
+  LOOP
+    v_profile := NULL;
+
+    IF v_customer.profile_number IS NOT NULL THEN
+      IF v_customer.profile_number = ANY (v_taken) THEN
+        SELECT min(slot.n) INTO v_profile
+        FROM generate_series(1, 5) AS slot(n)
+        WHERE slot.n <> ALL (v_taken);
+
+        IF v_profile IS NULL THEN
+          RAISE EXCEPTION 'Not enough free profiles on %', COALESCE(NULLIF(v_to.netflix_email, ''), v_to.phone_number);
+        END IF;
+      ELSE
+        v_profile := v_customer.profile_number;
+      END IF;
+
+      v_taken := v_taken || v_profile;
+    END IF;
+
+    UPDATE customers
+    SET netflix_account_id = p_to_account_id, profile_number = v_profile
+    WHERE id = v_customer.id;
+
+    v_moves := v_moves || jsonb_build_object(
+      'customer_id', v_customer.id,
+      'name', v_customer.name,
+      'from_profile', v_customer.profile_number,
+      'to_profile', v_profile
+    );
+    v_moved := v_moved + 1;
+  END LOOP;
+
+  IF p_retire THEN
+    UPDATE netflix_accounts
+    SET status = 'retired',
+        status_reason = COALESCE(NULLIF(btrim(p_reason), ''), 'Replaced by ' || COALESCE(NULLIF(v_to.netflix_email, ''), v_to.phone_number))
+    WHERE id = p_from_account_id;
+  END IF;
+
+  INSERT INTO account_replacements (from_account_id, to_account_id, from_account_label, to_account_label,
+                                    reason, moves, retired_from_account, performed_by)
+  VALUES (p_from_account_id, p_to_account_id,
+          COALESCE(NULLIF(v_from.netflix_email, ''), v_from.phone_number, ''), COALESCE(NULLIF(v_to.netflix_email, ''), v_to.phone_number, ''),
+          NULLIF(btrim(p_reason), ''), v_moves, p_retire, auth.uid());
+
+  RETURN v_moved;
+END;
+$$;
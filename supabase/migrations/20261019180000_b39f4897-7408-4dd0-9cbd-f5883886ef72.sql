@@ -0,0 +1,338 @@
+-- =============================================
+-- Profile slots: each Netflix account has profile_capacity slots (1-5),
+-- each with an optional profile name and PIN and at most one customer.
+-- customers.netflix_account_id/profile_number stay the assignment the app
+-- writes; a trigger keeps profile_slots.customer_id in step and rejects
+-- profiles that are taken or beyond the account's capacity. Only active
+-- customers hold a slot: deactivating one frees it, and reactivating them
+-- claims it again if it is still free.
+-- =============================================
+
+ALTER TABLE public.netflix_accounts
+ADD COLUMN profile_capacity INTEGER NOT NULL DEFAULT 5,
+ADD CONSTRAINT valid_profile_capacity CHECK (profile_capacity BETWEEN 1 AND 5);
+
+CREATE TABLE public.profile_slots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  netflix_account_id UUID NOT NULL REFERENCES public.netflix_accounts(id) ON DELETE CASCADE,
+  slot_number INTEGER NOT NULL,
+  profile_name TEXT,
+  profile_pin TEXT,
+  customer_id UUID UNIQUE REFERENCES public.customers(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_slot_number CHECK (slot_number BETWEEN 1 AND 5),
+  CONSTRAINT valid_profile_pin CHECK (profile_pin IS NULL OR profile_pin ~ '^[0-9]{4}$'),
+  CONSTRAINT unique_account_slot UNIQUE (netflix_account_id, slot_number)
+);
+
+ALTER TABLE public.profile_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage profile slots"
+ON public.profile_slots
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_profile_slots_updated_at
+BEFORE UPDATE ON public.profile_slots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.profile_slots (netflix_account_id, slot_number)
+SELECT na.id, slot.n
+FROM public.netflix_accounts na
+CROSS JOIN generate_series(1, 5) AS slot(n);
+
+-- Nothing stopped two active customers sharing a profile; the most recent
+-- sale keeps it and the others stay on the account without a profile
+WITH ranked AS (
+  SELECT id, row_number() OVER (
+    PARTITION BY netflix_account_id, profile_number
+    ORDER BY purchase_date DESC, created_at DESC
+  ) AS rn
+  FROM public.customers
+  WHERE is_active AND netflix_account_id IS NOT NULL AND profile_number IS NOT NULL
+)
+UPDATE public.customers c
+SET profile_number = NULL
+FROM ranked
+WHERE c.id = ranked.id AND ranked.rn > 1;
+
+CREATE UNIQUE INDEX customers_account_profile_key
+ON public.customers (netflix_account_id, profile_number)
+WHERE is_active AND netflix_account_id IS NOT NULL AND profile_number IS NOT NULL;
+
+UPDATE public.profile_slots ps
+SET customer_id = c.id
+FROM public.customers c
+WHERE c.is_active
+  AND c.netflix_account_id = ps.netflix_account_id
+  AND c.profile_number = ps.slot_number;
+
+-- Adds or removes slots when an account's capacity changes
+CREATE OR REPLACE FUNCTION public.sync_profile_slots()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM profile_slots
+    WHERE netflix_account_id = NEW.id
+      AND slot_number > NEW.profile_capacity
+      AND customer_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Move the customers on profiles above % before lowering the capacity', NEW.profile_capacity;
+  END IF;
+
+  DELETE FROM profile_slots
+  WHERE netflix_account_id = NEW.id AND slot_number > NEW.profile_capacity;
+
+  INSERT INTO profile_slots (netflix_account_id, slot_number)
+  SELECT NEW.id, slot.n
+  FROM generate_series(1, NEW.profile_capacity) AS slot(n)
+  ON CONFLICT (netflix_account_id, slot_number) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profile_slots_on_account_change
+AFTER INSERT OR UPDATE OF profile_capacity ON public.netflix_accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_profile_slots();
+
+-- Moves the customer's occupancy with their account/profile assignment,
+-- and frees or reclaims it as they are deactivated or reactivated
+CREATE OR REPLACE FUNCTION public.sync_customer_profile_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.netflix_account_id IS NOT DISTINCT FROM OLD.netflix_account_id
+     AND NEW.profile_number IS NOT DISTINCT FROM OLD.profile_number
+     AND NEW.is_active IS NOT DISTINCT FROM OLD.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE profile_slots SET customer_id = NULL WHERE customer_id = NEW.id;
+
+  IF NEW.is_active AND NEW.netflix_account_id IS NOT NULL AND NEW.profile_number IS NOT NULL THEN
+    UPDATE profile_slots
+    SET customer_id = NEW.id
+    WHERE netflix_account_id = NEW.netflix_account_id
+      AND slot_number = NEW.profile_number
+      AND customer_id IS NULL;
+
+    IF NOT FOUND THEN
+      IF EXISTS (
+        SELECT 1 FROM profile_slots
+        WHERE netflix_account_id = NEW.netflix_account_id AND slot_number = NEW.profile_number
+      ) THEN
+        RAISE EXCEPTION 'Profile % on this account is already taken', NEW.profile_number;
+      END IF;
+      RAISE EXCEPTION 'This account only has % profile(s)',
+        (SELECT profile_capacity FROM netflix_accounts WHERE id = NEW.netflix_account_id);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_customer_profile_slot
+AFTER INSERT OR UPDATE OF netflix_account_id, profile_number, is_active ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_customer_profile_slot();
+
+-- Free slot on an active account, filling the fullest accounts first
+CREATE OR REPLACE FUNCTION public.find_free_profile_slot()
+RETURNS TABLE(netflix_account_id uuid, profile_number integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ps.netflix_account_id, ps.slot_number
+  FROM profile_slots ps
+  JOIN netflix_accounts na ON na.id = ps.netflix_account_id
+  WHERE na.status = 'active'
+    AND ps.customer_id IS NULL
+  ORDER BY (
+    SELECT count(*) FROM profile_slots used
+    WHERE used.netflix_account_id = na.id AND used.customer_id IS NOT NULL
+  ) DESC, na.created_at, ps.slot_number
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_free_profile_slot() FROM PUBLIC, anon, authenticated;
+
+-- Same as before, but only free slots on the target count and customers
+-- whose profile is free there are placed first so they keep it. Inactive
+-- customers hold no slot, so they keep their profile only if it is free
+-- and take none from the active ones.
+CREATE OR REPLACE FUNCTION public.replace_netflix_account(
+  p_from_account_id uuid,
+  p_to_account_id uuid,
+  p_reason text DEFAULT NULL,
+  p_retire boolean DEFAULT true
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from netflix_accounts%ROWTYPE;
+  v_to netflix_accounts%ROWTYPE;
+  v_customer RECORD;
+  v_free INTEGER[];
+  v_profile INTEGER;
+  v_moves JSONB := '[]'::jsonb;
+  v_moved INTEGER := 0;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF p_from_account_id = p_to_account_id THEN
+    RAISE EXCEPTION 'Choose a different account to move customers to';
+  END IF;
+
+  -- Same lock as reseller sales, so no profile is handed out mid-move
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  SELECT * INTO v_from FROM netflix_accounts WHERE id = p_from_account_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  SELECT * INTO v_to FROM netflix_accounts WHERE id = p_to_account_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Replacement account not found';
+  END IF;
+
+  IF v_to.status <> 'active' THEN
+    RAISE EXCEPTION 'Replacement account is not active';
+  END IF;
+
+  SELECT COALESCE(array_agg(slot_number ORDER BY slot_number), '{}') INTO v_free
+  FROM profile_slots
+  WHERE netflix_account_id = p_to_account_id AND customer_id IS NULL;
+
+  FOR v_customer IN
+    SELECT id, name, profile_number, is_active
+    FROM customers
+    WHERE netflix_account_id = p_from_account_id
+    ORDER BY is_active DESC, COALESCE(profile_number = ANY (v_free), false) DESC, profile_number NULLS LAST, created_at
+  LOOP
+    v_profile := NULL;
+
+    IF NOT v_customer.is_active THEN
+      IF v_customer.profile_number = ANY (v_free) THEN
+        v_profile := v_customer.profile_number;
+      END IF;
+    ELSIF v_customer.profile_number IS NOT NULL THEN
+      v_profile := CASE
+        WHEN v_customer.profile_number = ANY (v_free) THEN v_customer.profile_number
+        ELSE v_free[1]
+      END;
+
+      IF v_profile IS NULL THEN
+        RAISE EXCEPTION 'Not enough free profiles on %', COALESCE(NULLIF(v_to.netflix_email, ''), v_to.phone_number);
+      END IF;
+
+      v_free := array_remove(v_free, v_profile);
+    END IF;
+
+    UPDATE customers
+    SET netflix_account_id = p_to_account_id, profile_number = v_profile
+    WHERE id = v_customer.id;
+
+    v_moves := v_moves || jsonb_build_object(
+      'customer_id', v_customer.id,
+      'name', v_customer.name,
+      'from_profile', v_customer.profile_number,
+      'to_profile', v_profile
+    );
+    v_moved := v_moved + 1;
+  END LOOP;
+
+  IF p_retire THEN
+    UPDATE netflix_accounts
+    SET status = 'retired',
+        status_reason = COALESCE(NULLIF(btrim(p_reason), ''), 'Replaced by ' || COALESCE(NULLIF(v_to.netflix_email, ''), v_to.phone_number))
+    WHERE id = p_from_account_id;
+  END IF;
+
+  INSERT INTO account_replacements (from_account_id, to_account_id, from_account_label, to_account_label,
+                                    reason, moves, retired_from_account, performed_by)
+  VALUES (p_from_account_id, p_to_account_id,
+          COALESCE(NULLIF(v_from.netflix_email, ''), v_from.phone_number, ''), COALESCE(NULLIF(v_to.netflix_email, ''), v_to.phone_number, ''),
+          NULLIF(btrim(p_reason), ''), v_moves, p_retire, auth.uid());
+
+  RETURN v_moved;
+END;
+$$;
+
+-- Customers also see the name and PIN of their profile
+DROP FUNCTION public.get_customer_data_by_access_code(text);
+
+CREATE FUNCTION public.get_customer_data_by_access_code(p_access_code text)
+RETURNS TABLE(
+  id uuid,
+  name text,
+  access_code text,
+  purchase_date date,
+  subscription_days integer,
+  is_active boolean,
+  profile_number integer,
+  profile_name text,
+  profile_pin text,
+  purchased_from text,
+  netflix_email text,
+  netflix_password text,
+  netflix_account_id uuid,
+  gmail_address text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Validate input: must be exactly 6 digits
+  IF p_access_code IS NULL OR length(p_access_code) != 6 OR p_access_code !~ '^[0-9]{6}$' THEN
+    RETURN;
+  END IF;
+  
+  RETURN QUERY
+  SELECT 
+    c.id,
+    c.name,
+    c.access_code,
+    c.purchase_date,
+    c.subscription_days,
+    c.is_active,
+    c.profile_number,
+    ps.profile_name,
+    ps.profile_pin,
+    r.name,
+    na.netflix_email,
+    na.netflix_password,
+    c.netflix_account_id,
+    na.gmail_address
+  FROM customers c
+  LEFT JOIN netflix_accounts na ON c.netflix_account_id = na.id
+  LEFT JOIN resellers r ON c.reseller_id = r.id
+  LEFT JOIN profile_slots ps ON ps.customer_id = c.id
+  WHERE c.access_code = p_access_code AND c.is_active = true
+  LIMIT 1;
+END;
+$$;
@@ -0,0 +1,252 @@
+-- =============================================
+-- Automatic slot assignment: find_free_profile_slot() now ranks free slots
+-- on active accounts by the rules in slot_assignment_settings, and
+-- auto_assign_profile_slot() lets admins place a customer with it. Every
+-- caller takes the assign_profile_slot lock, so no slot is handed out twice.
+-- =============================================
+
+-- Date the account's own Netflix subscription is paid up to
+ALTER TABLE public.netflix_accounts
+ADD COLUMN paid_through DATE;
+
+CREATE TABLE public.slot_assignment_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY,
+  fill_order TEXT NOT NULL DEFAULT 'oldest_first', -- oldest_first | fullest_first | emptiest_first
+  match_paid_through BOOLEAN NOT NULL DEFAULT true, -- Prefer the account paid through the closest date after the customer's expiry
+  require_paid_through BOOLEAN NOT NULL DEFAULT false, -- Skip accounts not paid through the customer's expiry
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT single_slot_assignment_settings_row CHECK (id),
+  CONSTRAINT valid_fill_order CHECK (fill_order IN ('oldest_first', 'fullest_first', 'emptiest_first'))
+);
+
+INSERT INTO public.slot_assignment_settings DEFAULT VALUES;
+
+ALTER TABLE public.slot_assignment_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view slot assignment settings"
+ON public.slot_assignment_settings
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update slot assignment settings"
+ON public.slot_assignment_settings
+FOR UPDATE
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_slot_assignment_settings_updated_at
+BEFORE UPDATE ON public.slot_assignment_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP FUNCTION public.find_free_profile_slot();
+
+-- Best free slot for a customer whose subscription ends on p_ends_on.
+-- Unhealthy accounts are never considered; callers must hold the lock.
+CREATE FUNCTION public.find_free_profile_slot(p_ends_on date DEFAULT NULL)
+RETURNS TABLE(netflix_account_id uuid, profile_number integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ps.netflix_account_id, ps.slot_number
+  FROM profile_slots ps
+  JOIN netflix_accounts na ON na.id = ps.netflix_account_id
+  CROSS JOIN slot_assignment_settings rules
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS used
+    FROM profile_slots taken
+    WHERE taken.netflix_account_id = na.id AND taken.customer_id IS NOT NULL
+  ) usage
+  WHERE na.status = 'active'
+    AND ps.customer_id IS NULL
+    AND NOT (rules.require_paid_through AND p_ends_on IS NOT NULL
+             AND (na.paid_through IS NULL OR na.paid_through < p_ends_on))
+  ORDER BY
+    -- Accounts paid through the expiry first, the closest fit leading
+    CASE WHEN rules.match_paid_through AND p_ends_on IS NOT NULL
+      THEN na.paid_through IS NULL OR na.paid_through < p_ends_on END,
+    CASE WHEN rules.match_paid_through AND p_ends_on IS NOT NULL AND na.paid_through >= p_ends_on
+      THEN na.paid_through - p_ends_on END,
+    CASE rules.fill_order
+      WHEN 'fullest_first' THEN -usage.used
+      WHEN 'emptiest_first' THEN usage.used
+      ELSE 0
+    END,
+    na.created_at,
+    ps.slot_number
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_free_profile_slot(date) FROM PUBLIC, anon, authenticated;
+
+-- Places an admin-created customer on the best free slot for their expiry
+CREATE OR REPLACE FUNCTION public.auto_assign_profile_slot(p_customer_id uuid)
+RETURNS TABLE(netflix_account_id uuid, profile_number integer, netflix_email text, netflix_password text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_account_id UUID;
+  v_profile INTEGER;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  -- Serialise slot assignment so two admins never get the same profile
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  SELECT s.netflix_account_id, s.profile_number INTO v_account_id, v_profile
+  FROM public.find_free_profile_slot(v_customer.purchase_date + v_customer.subscription_days) s;
+
+  IF v_account_id IS NULL THEN
+    RAISE EXCEPTION 'No free slots available';
+  END IF;
+
+  UPDATE customers
+  SET netflix_account_id = v_account_id, profile_number = v_profile
+  WHERE id = p_customer_id;
+
+  RETURN QUERY
+  SELECT na.id, v_profile, na.netflix_email, na.netflix_password
+  FROM netflix_accounts na
+  WHERE na.id = v_account_id;
+END;
+$$;
+
+-- Reseller sales use the same rules, matched to the plan's expiry
+CREATE OR REPLACE FUNCTION public.reseller_create_customer(p_name text, p_plan_id uuid)
+RETURNS TABLE(customer_id uuid, access_code text, netflix_email text, netflix_password text, profile_number integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reseller_id UUID := public.get_reseller_id(auth.uid());
+  v_plan plans%ROWTYPE;
+  v_account_id UUID;
+  v_profile INTEGER;
+  v_customer_id UUID;
+  v_access_code TEXT;
+BEGIN
+  IF v_reseller_id IS NULL THEN
+    RAISE EXCEPTION 'Not a reseller';
+  END IF;
+
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  SELECT * INTO v_plan FROM plans WHERE id = p_plan_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not available';
+  END IF;
+
+  -- Serialise slot assignment so two sales never get the same profile
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  IF public.reseller_wallet_balance(v_reseller_id) < COALESCE(v_plan.wholesale_price, 0) THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  SELECT s.netflix_account_id, s.profile_number INTO v_account_id, v_profile
+  FROM public.find_free_profile_slot(CURRENT_DATE + v_plan.days) s;
+
+  IF v_account_id IS NULL THEN
+    RAISE EXCEPTION 'No free slots available';
+  END IF;
+
+  v_access_code := public.generate_access_code();
+
+  INSERT INTO customers (name, access_code, netflix_account_id, profile_number, purchase_date,
+                         subscription_days, plan_id, selling_price, reseller_id)
+  VALUES (btrim(p_name), v_access_code, v_account_id, v_profile, CURRENT_DATE,
+          v_plan.days, v_plan.id, v_plan.price, v_reseller_id)
+  RETURNING id INTO v_customer_id;
+
+  RETURN QUERY
+  SELECT v_customer_id, v_access_code, na.netflix_email, na.netflix_password, v_profile
+  FROM netflix_accounts na
+  WHERE na.id = v_account_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reseller_renew_customer(p_customer_id uuid, p_plan_id uuid)
+RETURNS date
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reseller_id UUID := public.get_reseller_id(auth.uid());
+  v_customer customers%ROWTYPE;
+  v_plan plans%ROWTYPE;
+  v_start DATE;
+  v_account_id UUID;
+  v_profile INTEGER;
+BEGIN
+  IF v_reseller_id IS NULL THEN
+    RAISE EXCEPTION 'Not a reseller';
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id AND reseller_id = v_reseller_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  SELECT * INTO v_plan FROM plans WHERE id = p_plan_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not available';
+  END IF;
+
+  -- Same lock as slot assignment, so concurrent sales cannot overdraw the wallet
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  IF public.reseller_wallet_balance(v_reseller_id) < COALESCE(v_plan.wholesale_price, 0) THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  -- Renewals continue from the current expiry, or from today once it has passed
+  v_start := GREATEST(v_customer.purchase_date + v_customer.subscription_days, CURRENT_DATE);
+
+  -- Lapsed customers freed their slot on deactivation; they need a new one
+  -- when they have none or it has since been given to someone else
+  IF v_customer.netflix_account_id IS NULL OR (
+    NOT v_customer.is_active AND v_customer.profile_number IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM profile_slots
+      WHERE netflix_account_id = v_customer.netflix_account_id
+        AND slot_number = v_customer.profile_number
+        AND customer_id IS NULL
+    )
+  ) THEN
+    SELECT s.netflix_account_id, s.profile_number INTO v_account_id, v_profile
+    FROM public.find_free_profile_slot(v_start + v_plan.days) s;
+
+    IF v_account_id IS NULL THEN
+      RAISE EXCEPTION 'No free slots available';
+    END IF;
+
+    UPDATE customers
+    SET netflix_account_id = v_account_id, profile_number = v_profile
+    WHERE id = p_customer_id;
+  END IF;
+
+  INSERT INTO subscription_periods (customer_id, start_date, days, price, source, plan_id)
+  VALUES (p_customer_id, v_start, v_plan.days, v_plan.price, 'renewal', v_plan.id);
+
+  UPDATE customers SET is_active = true, plan_id = v_plan.id WHERE id = p_customer_id;
+
+  RETURN v_start + v_plan.days;
+END;
+$$;
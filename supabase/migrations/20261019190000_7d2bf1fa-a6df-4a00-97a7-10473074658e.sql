@@ -0,0 +1,101 @@
+-- =============================================
+-- Monthly account rotation: customers on 30+ day plans move to another
+-- account every 30 days from purchase. Each completed rotation is recorded
+-- per customer and cycle, which is what clears the rotation warning.
+-- =============================================
+
+CREATE TABLE public.account_rotations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  cycle_number INTEGER NOT NULL, -- Rotation n falls on purchase_date + 30 * n
+  due_on DATE NOT NULL,
+  from_account_id UUID REFERENCES public.netflix_accounts(id) ON DELETE SET NULL,
+  from_profile INTEGER,
+  to_account_id UUID REFERENCES public.netflix_accounts(id) ON DELETE SET NULL,
+  to_profile INTEGER,
+  performed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_rotation_cycle CHECK (cycle_number > 0),
+  CONSTRAINT unique_customer_rotation_cycle UNIQUE (customer_id, cycle_number)
+);
+
+CREATE INDEX idx_account_rotations_due_on
+ON public.account_rotations (due_on DESC);
+
+ALTER TABLE public.account_rotations ENABLE ROW LEVEL SECURITY;
+
+-- Written only by apply_account_rotations()
+CREATE POLICY "Admins can view account rotations"
+ON public.account_rotations
+FOR SELECT
+TO authenticated
+USING (public.is_admin(auth.uid()));
+
+-- Applies an approved batch in one transaction: each element is
+-- {customer_id, cycle_number, due_on, to_account_id, to_profile}; a null
+-- to_account_id keeps the customer where they are and only marks the cycle done
+CREATE OR REPLACE FUNCTION public.apply_account_rotations(p_moves jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_move RECORD;
+  v_customer customers%ROWTYPE;
+  v_to_account UUID;
+  v_to_profile INTEGER;
+  v_applied INTEGER := 0;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  -- Same lock as every other slot assignment
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  FOR v_move IN
+    SELECT *
+    FROM jsonb_to_recordset(p_moves)
+      AS m(customer_id uuid, cycle_number integer, due_on date, to_account_id uuid, to_profile integer)
+  LOOP
+    SELECT * INTO v_customer FROM customers WHERE id = v_move.customer_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer not found';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM account_rotations
+      WHERE customer_id = v_move.customer_id AND cycle_number = v_move.cycle_number
+    ) THEN
+      RAISE EXCEPTION '% was already rotated for this cycle', v_customer.name;
+    END IF;
+
+    v_to_account := v_customer.netflix_account_id;
+    v_to_profile := v_customer.profile_number;
+
+    IF v_move.to_account_id IS NOT NULL AND v_move.to_account_id IS DISTINCT FROM v_customer.netflix_account_id THEN
+      IF NOT EXISTS (SELECT 1 FROM netflix_accounts WHERE id = v_move.to_account_id AND status = 'active') THEN
+        RAISE EXCEPTION 'The account chosen for % is not active', v_customer.name;
+      END IF;
+
+      v_to_account := v_move.to_account_id;
+      v_to_profile := v_move.to_profile;
+
+      -- The profile slot trigger rejects taken or missing profiles
+      UPDATE customers
+      SET netflix_account_id = v_to_account, profile_number = v_to_profile
+      WHERE id = v_customer.id;
+    END IF;
+
+    INSERT INTO account_rotations (customer_id, cycle_number, due_on, from_account_id, from_profile,
+                                   to_account_id, to_profile, performed_by)
+    VALUES (v_customer.id, v_move.cycle_number, v_move.due_on, v_customer.netflix_account_id,
+            v_customer.profile_number, v_to_account, v_to_profile, auth.uid());
+
+    v_applied := v_applied + 1;
+  END LOOP;
+
+  RETURN v_applied;
+END;
+$$;
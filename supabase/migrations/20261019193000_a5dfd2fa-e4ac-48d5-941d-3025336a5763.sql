@@ -0,0 +1,61 @@
+-- =============================================
+-- Account billing: each Netflix account records the day of the month its
+-- own subscription renews and the payment method that pays it. Payment
+-- methods replace the free-text payment_account so one card can be
+-- shared by several accounts and its expiry tracked in one place.
+-- =============================================
+
+CREATE TABLE public.payment_methods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  label TEXT NOT NULL, -- e.g. "HDFC Millennia"
+  method_type TEXT NOT NULL DEFAULT 'card', -- card | upi | other
+  card_last4 TEXT,
+  card_expiry DATE, -- First day of the MM/YY month printed on the card
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_payment_method_type CHECK (method_type IN ('card', 'upi', 'other')),
+  CONSTRAINT valid_card_last4 CHECK (card_last4 ~ '^\d{4}$'),
+  CONSTRAINT card_expiry_first_of_month CHECK (card_expiry = date_trunc('month', card_expiry)::date)
+);
+
+ALTER TABLE public.payment_methods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage payment methods"
+ON public.payment_methods
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_payment_methods_updated_at
+BEFORE UPDATE ON public.payment_methods
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.netflix_accounts
+ADD COLUMN billing_day SMALLINT, -- Day of the month Netflix charges; short months bill on their last day
+ADD COLUMN payment_method_id UUID REFERENCES public.payment_methods(id) ON DELETE SET NULL,
+ADD CONSTRAINT valid_billing_day CHECK (billing_day BETWEEN 1 AND 31);
+
+CREATE INDEX idx_netflix_accounts_payment_method_id
+ON public.netflix_accounts (payment_method_id);
+
+-- Netflix bills on the day the account was opened
+UPDATE public.netflix_accounts
+SET billing_day = EXTRACT(DAY FROM account_created_date)
+WHERE account_created_date IS NOT NULL;
+
+-- Each distinct free-text payment account becomes a method of its own
+INSERT INTO public.payment_methods (label, method_type)
+SELECT DISTINCT btrim(payment_account), 'other'
+FROM public.netflix_accounts
+WHERE btrim(COALESCE(payment_account, '')) <> '';
+
+UPDATE public.netflix_accounts na
+SET payment_method_id = pm.id
+FROM public.payment_methods pm
+WHERE pm.label = btrim(na.payment_account);
+
+ALTER TABLE public.netflix_accounts
+DROP COLUMN payment_account;
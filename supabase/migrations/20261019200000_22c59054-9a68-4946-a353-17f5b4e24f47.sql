@@ -0,0 +1,51 @@
+-- =============================================
+-- One rule for paid/partial/unpaid, shared by the admin UI and the
+-- suspend-unpaid-customers cron: a customer's payments are pooled (whether
+-- or not they name a period) and settle their priced periods oldest first.
+-- =============================================
+
+CREATE VIEW public.customer_payment_status
+WITH (security_invoker = true)
+AS
+WITH periods AS (
+  SELECT
+    sp.customer_id,
+    sp.start_date,
+    COALESCE(sp.price, 0) AS price,
+    -- Everything charged before this period
+    COALESCE(SUM(COALESCE(sp.price, 0)) OVER (
+      PARTITION BY sp.customer_id
+      ORDER BY sp.start_date, sp.created_at
+      ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+    ), 0) AS charged_before
+  FROM public.subscription_periods sp
+),
+paid AS (
+  SELECT customer_id, SUM(amount) AS amount_paid
+  FROM public.payments
+  GROUP BY customer_id
+)
+SELECT
+  c.id AS customer_id,
+  COALESCE(due.amount_due, 0) AS amount_due,
+  COALESCE(paid.amount_paid, 0) AS amount_paid,
+  CASE
+    WHEN COALESCE(paid.amount_paid, 0) >= COALESCE(due.amount_due, 0) THEN 'paid' -- Nothing due counts as paid
+    WHEN COALESCE(paid.amount_paid, 0) > 0 THEN 'partial'
+    ELSE 'unpaid'
+  END AS payment_status,
+  -- Start of the oldest priced period the pooled payments do not reach at all
+  (
+    SELECT MIN(p.start_date)
+    FROM periods p
+    WHERE p.customer_id = c.id
+      AND p.price > 0
+      AND p.charged_before >= COALESCE(paid.amount_paid, 0)
+  ) AS unpaid_since
+FROM public.customers c
+LEFT JOIN (
+  SELECT customer_id, SUM(price) AS amount_due
+  FROM periods
+  GROUP BY customer_id
+) due ON due.customer_id = c.id
+LEFT JOIN paid ON paid.customer_id = c.id;
@@ -0,0 +1,85 @@
+-- =============================================
+-- Promo codes on reseller renewals: resellers can see the codes issued for
+-- them and pass one when renewing from the portal.
+-- =============================================
+
+CREATE POLICY "Resellers can view own promo codes"
+ON public.promo_codes
+FOR SELECT
+TO authenticated
+USING (reseller_id = public.get_reseller_id(auth.uid()));
+
+DROP FUNCTION public.reseller_renew_customer(uuid, uuid);
+
+CREATE FUNCTION public.reseller_renew_customer(p_customer_id uuid, p_plan_id uuid, p_promo_code_id uuid DEFAULT NULL)
+RETURNS date
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reseller_id UUID := public.get_reseller_id(auth.uid());
+  v_customer customers%ROWTYPE;
+  v_plan plans%ROWTYPE;
+  v_start DATE;
+  v_account_id UUID;
+  v_profile INTEGER;
+BEGIN
+  IF v_reseller_id IS NULL THEN
+    RAISE EXCEPTION 'Not a reseller';
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id AND reseller_id = v_reseller_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  SELECT * INTO v_plan FROM plans WHERE id = p_plan_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not available';
+  END IF;
+
+  -- Same lock as slot assignment, so concurrent sales cannot overdraw the wallet
+  PERFORM pg_advisory_xact_lock(hashtext('assign_profile_slot'));
+
+  IF public.reseller_wallet_balance(v_reseller_id) < COALESCE(v_plan.wholesale_price, 0) THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  -- Renewals continue from the current expiry, or from today once it has passed
+  v_start := GREATEST(v_customer.purchase_date + v_customer.subscription_days, CURRENT_DATE);
+
+  -- Lapsed customers freed their slot on deactivation; they need a new one
+  -- when they have none or it has since been given to someone else
+  IF v_customer.netflix_account_id IS NULL OR (
+    NOT v_customer.is_active AND v_customer.profile_number IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM profile_slots
+      WHERE netflix_account_id = v_customer.netflix_account_id
+        AND slot_number = v_customer.profile_number
+        AND customer_id IS NULL
+    )
+  ) THEN
+    SELECT s.netflix_account_id, s.profile_number INTO v_account_id, v_profile
+    FROM public.find_free_profile_slot(v_start + v_plan.days) s;
+
+    IF v_account_id IS NULL THEN
+      RAISE EXCEPTION 'No free slots available';
+    END IF;
+
+    UPDATE customers
+    SET netflix_account_id = v_account_id, profile_number = v_profile
+    WHERE id = p_customer_id;
+  END IF;
+
+  -- apply_promo_code() validates the code, including that it belongs to this reseller
+  INSERT INTO subscription_periods (customer_id, start_date, days, price, source, plan_id, promo_code_id)
+  VALUES (p_customer_id, v_start, v_plan.days, v_plan.price, 'renewal', v_plan.id, p_promo_code_id);
+
+  UPDATE customers SET is_active = true, plan_id = v_plan.id WHERE id = p_customer_id;
+
+  RETURN v_start + v_plan.days;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reseller_renew_customer(uuid, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reseller_renew_customer(uuid, uuid, uuid) TO authenticated;